@@ -1,6 +1,10 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { FileUpload } from './components/FileUpload';
+import { ProductImageTray } from './components/ProductImageTray';
+import { ImageAdjuster } from './components/ImageAdjuster';
+import { AdComposer } from './components/AdComposer';
+import { SlideshowStudio } from './components/SlideshowStudio';
 import { ResultsDisplay } from './components/ResultsDisplay';
 import { Loader } from './components/Loader';
 import { GuideModal } from './components/GuideModal';
@@ -9,19 +13,60 @@ import { TikTokModal } from './components/TikTokModal';
 import { AssistantPanel } from './components/AssistantPanel';
 import { CulinaryAssistant } from './components/CulinaryAssistant';
 import { UserSelection } from './components/UserSelection';
-import { generateImageVariant, generateMarketingContent, generateVideoScript, generateProactiveInsight, updateUserProfile } from './services/geminiService';
-import type { ImageVariant, MarketingContent, VideoScript, ImageFile, ConversationTurn, GroundingSource, UserProfile } from './types';
-import { IMAGE_VARIANTS } from './constants';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { StylePicker } from './components/StylePicker';
+import { StyleManager } from './components/StyleManager';
+import { BrandKitSelect } from './components/BrandKitSelect';
+import { BrandKitManager } from './components/BrandKitManager';
+import { generateImageVariant, editImageVariant, generateMarketingContent, generateVideoScript, rewriteVideoScene, generateStoryboardFrame, localizeMarketing, localizeScript, researchHashtags, reviewCompliance, generateProactiveInsight, updateUserProfile } from './services/geminiService';
+import type { AssetStatus, ImageVariant, VariantEditState, MarketingContent, VideoScript, ProductImage, StoredImage, ConversationTurn, GroundingSource, UserProfile, Project, GenerationRun, ProjectVersion, FinalSet, VisualStyle, BrandKit, AdCreative, VoiceoverState, VoiceoverTake, ScriptLength, ScriptPlatform, ScriptHook, SceneRewriteState, StoryboardFrame, Localization, LocalizedScript, PlatformCopyPacks, HashtagWorkspace, HashtagEntry, HashtagSet, AbTest, ComplianceState, ComplianceReview, CopyPlatform } from './types';
+import { describeApiError } from './services/apiClient';
+import { isAbortError } from './services/requestRunner';
+import { createProject, getProject, updateProject } from './services/projectStore';
+import { loadStyles, saveStyles } from './services/styleLibrary';
+import { loadBrandKits, saveBrandKits, checkCaptions } from './services/brandKits';
+import { parseDataUrl, preprocessImage, rasterizePdf, isHeicFile, DEFAULT_UPLOAD_MAX_DIMENSION } from './services/imageUtils';
+import { MAX_PRODUCT_IMAGES, SCRIPT_HOOKS, SOURCE_LOCALE } from './services/apiTypes';
+import { buildCampaignZip } from './services/campaignBundle';
+import { downloadBlob, slugify } from './services/imageExport';
+import { withFreshSceneIds } from './services/videoScripts';
+import { emptyLocalization, localizedScript, scriptSource } from './services/localization';
+import { loadHashtagSets, saveHashtagSets, reseedTags, withNewTags, withScores } from './services/hashtags';
+import { checkRules, checkedPlatforms, complianceItems, ruleFlagNotes, type ComplianceItem } from './services/compliance';
+
+interface ScriptJob {
+  angle: string;
+  hook: ScriptHook;
+  length: ScriptLength;
+  platform: ScriptPlatform;
+  // The id of the script this one replaces.
+  replaces?: string;
+}
+
+// Edits are saved once they settle, so typing doesn't rewrite the whole project on each keystroke.
+const AUTOSAVE_DELAY_MS = 800;
 
 const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<string | null>(null);
-  const [activeView, setActiveView] = useState<'creative' | 'culinary'>('creative');
-  const [imageFile, setImageFile] = useState<ImageFile | null>(null);
+  const [activeView, setActiveView] = useState<'creative' | 'projects' | 'culinary'>('creative');
+  const [productImages, setProductImages] = useState<ProductImage[]>([]);
+  const [primaryImageId, setPrimaryImageId] = useState<string | null>(null);
+  const [isReadingFiles, setIsReadingFiles] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Longest side uploads are scaled down to, per user.
+  const [uploadMaxDimension, setUploadMaxDimension] = useState(DEFAULT_UPLOAD_MAX_DIMENSION);
+  const [adjustingImageId, setAdjustingImageId] = useState<string | null>(null);
+  const [isExportingCampaign, setIsExportingCampaign] = useState(false);
+  const [campaignExportError, setCampaignExportError] = useState<string | null>(null);
   const [productDescription, setProductDescription] = useState('');
   const [generatedVariants, setGeneratedVariants] = useState<ImageVariant[]>([]);
   const [marketingContent, setMarketingContent] = useState<MarketingContent | null>(null);
   const [marketingSources, setMarketingSources] = useState<GroundingSource[]>([]);
-  const [videoScript, setVideoScript] = useState<VideoScript | null>(null);
+  const [marketingStatus, setMarketingStatus] = useState<AssetStatus | null>(null);
+  const [marketingError, setMarketingError] = useState<string | null>(null);
+  const [videoScripts, setVideoScripts] = useState<VideoScript[]>([]);
+  // The script open in the editor; null shows the latest one.
+  const [activeScriptId, setActiveScriptId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isGeneratingScript, setIsGeneratingScript] = useState(false);
   const [isGuideVisible, setIsGuideVisible] = useState(false);
@@ -31,12 +76,54 @@ const App: React.FC = () => {
   const [conversationHistory, setConversationHistory] = useState<ConversationTurn[]>([]);
   const [userProfile, setUserProfile] = useState<UserProfile>({});
   const [initialGreeting, setInitialGreeting] = useState<string | null>(null);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [currentRun, setCurrentRun] = useState<GenerationRun | null>(null);
+  const [versions, setVersions] = useState<ProjectVersion[]>([]);
+  const [finals, setFinals] = useState<FinalSet>({ images: [], captions: [] });
+  const [adCreatives, setAdCreatives] = useState<AdCreative[]>([]);
+  const [isAdComposerVisible, setIsAdComposerVisible] = useState(false);
+  // The locale the slideshow is rendered in, or null while it's closed.
+  const [slideshowLocale, setSlideshowLocale] = useState<string | null>(null);
+  const [voiceover, setVoiceover] = useState<VoiceoverState>({ takes: [], chosen: {} });
+  // In-flight and failed scene rewrites by scene id; not saved with the project.
+  const [sceneRewrites, setSceneRewrites] = useState<Record<number, SceneRewriteState>>({});
+  const [storyboard, setStoryboard] = useState<StoryboardFrame[]>([]);
+  const [localizations, setLocalizations] = useState<Localization[]>([]);
+  const [hashtags, setHashtags] = useState<HashtagWorkspace>({ tags: [], research: null });
+  const [hashtagSets, setHashtagSets] = useState<HashtagSet[]>([]);
+  const [abTests, setAbTests] = useState<AbTest[]>([]);
+  const [compliance, setCompliance] = useState<ComplianceState>({ platforms: null, autoReview: false, reviews: {} });
+  const [styles, setStyles] = useState<VisualStyle[]>([]);
+  // Styles picked for the open project; null means every enabled style.
+  const [selectedStyleIds, setSelectedStyleIds] = useState<string[] | null>(null);
+  const [isStyleManagerVisible, setIsStyleManagerVisible] = useState(false);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [selectedBrandKitId, setSelectedBrandKitId] = useState<string | null>(null);
+  const [isBrandKitManagerVisible, setIsBrandKitManagerVisible] = useState(false);
+  // The variant Rose's voice edits apply to, by style name.
+  const [selectedVariantStyle, setSelectedVariantStyle] = useState<string | null>(null);
+  // In-flight and failed edits per variant; not saved with the project.
+  const [variantEdits, setVariantEdits] = useState<Record<string, VariantEditState>>({});
+  // Set when state is loaded from a project, so opening it doesn't count as an edit.
+  const skipAutosaveRef = useRef(false);
+  // The save waiting out the autosave delay, if any.
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  // In-flight work is cancelled by a newer run of the same kind or by switching users.
+  const generationControllerRef = useRef<AbortController | null>(null);
+  const scriptControllerRef = useRef<AbortController | null>(null);
+  // Per-asset retries, keyed by asset; a full regenerate cancels them all.
+  const retryControllersRef = useRef(new Map<string, AbortController>());
 
 
   // Load conversation history and user profile from storage when user changes
   useEffect(() => {
     if (!currentUser) return;
 
+    setStyles(loadStyles(currentUser));
+    setBrandKits(loadBrandKits(currentUser));
+    setHashtagSets(loadHashtagSets(currentUser));
+    setUploadMaxDimension(Number(localStorage.getItem(`${currentUser}_uploadMaxDimension`)) || DEFAULT_UPLOAD_MAX_DIMENSION);
+
     // Load User Profile
     try {
       const savedProfile = localStorage.getItem(`${currentUser}_userProfile`);
@@ -100,6 +187,84 @@ const App: React.FC = () => {
     }
   }, [userProfile, currentUser]);
   
+  // Reopen the project the user last worked on.
+  useEffect(() => {
+    if (!currentUser) return;
+    const lastProjectId = localStorage.getItem(`${currentUser}_lastProjectId`);
+    if (!lastProjectId) return;
+    let cancelled = false;
+    getProject(lastProjectId)
+      .then(project => {
+        // Brand kits state isn't loaded yet on the first render.
+        if (!cancelled && project?.owner === currentUser) handleOpenProject(project, loadBrandKits(currentUser));
+      })
+      .catch(error => console.error("Failed to reopen last project:", error));
+    return () => { cancelled = true; };
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!currentUser || !currentProjectId) return;
+    localStorage.setItem(`${currentUser}_lastProjectId`, currentProjectId);
+  }, [currentProjectId, currentUser]);
+
+  // A pending save is written straight away rather than dropped when another project opens, the
+  // page is hidden or the app unmounts. Declared before the autosave so it flushes first.
+  useEffect(() => {
+    const flush = () => {
+      pendingSaveRef.current?.();
+      pendingSaveRef.current = null;
+    };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [currentProjectId]);
+
+  // Autosave the open project once edits settle.
+  useEffect(() => {
+    if (!currentProjectId) return;
+    if (skipAutosaveRef.current) {
+      // Reopening the same project replaces unsaved edits with the stored copy.
+      skipAutosaveRef.current = false;
+      pendingSaveRef.current = null;
+      return;
+    }
+    const projectId = currentProjectId;
+    const content = {
+      productDescription,
+      images: productImages,
+      primaryImageId,
+      variants: generatedVariants,
+      marketingContent,
+      marketingSources,
+      marketingStatus,
+      marketingError,
+      videoScripts,
+      styleIds: selectedStyleIds,
+      brandKitId: selectedBrandKitId,
+      currentRun,
+      versions,
+      finals,
+      adCreatives,
+      voiceover,
+      storyboard,
+      localizations,
+      hashtags,
+      abTests,
+      compliance,
+    };
+    const save = () => {
+      updateProject(projectId, content).catch(error => console.error("Failed to save project:", error));
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(() => {
+      pendingSaveRef.current = null;
+      save();
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentProjectId, productImages, primaryImageId, productDescription, generatedVariants, marketingContent, marketingSources, marketingStatus, marketingError, videoScripts, selectedStyleIds, selectedBrandKitId, currentRun, versions, finals, adCreatives, voiceover, storyboard, localizations, hashtags, abTests, compliance]);
+
   const handleSelectUser = (user: string, method: 'click' | 'voice' = 'click') => {
     if (method === 'voice') {
       const loginCount = parseInt(localStorage.getItem(`${user}_voiceLoginCount`) || '0', 10) + 1;
@@ -112,114 +277,865 @@ const App: React.FC = () => {
   };
 
 
-  const handleFileSelect = async (file: File) => {
-    const reader = new FileReader();
-    reader.onloadend = async () => {
-      const base64String = reader.result as string;
-      const fileWithPreview = {
-        file,
-        previewUrl: URL.createObjectURL(file),
-        base64: base64String.split(',')[1],
-        mimeType: file.type,
-      };
-      setImageFile(fileWithPreview);
-
+  // Uploads become product images: photos are turned upright, scaled down and stripped of
+  // metadata; PDF pages are rasterized locally and start out unused so the user can pick the
+  // pages that actually show the product.
+  const handleFilesSelect = async (files: File[]) => {
+    setUploadError(null);
+    setIsReadingFiles(true);
+    const added: ProductImage[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
       try {
-        const insight = await generateProactiveInsight({ trigger: 'IMAGE_UPLOADED' });
-        setConversationHistory(prev => [...prev, {
-          speaker: 'assistant',
-          text: insight,
-          isFinal: true
-        }]);
-      } catch (e) {
-        console.error("Failed to get image upload insight:", e);
+        if (file.type === 'application/pdf') {
+          const pages = await rasterizePdf(file, uploadMaxDimension);
+          added.push(...pages.map(page => ({ ...page, id: crypto.randomUUID(), selected: false })));
+        } else if (file.type.startsWith('image/') || isHeicFile(file)) {
+          added.push({ ...(await preprocessImage(file, uploadMaxDimension)), id: crypto.randomUUID(), selected: true });
+        } else {
+          failed.push(file.name);
+        }
+      } catch (error) {
+        console.error(`Failed to read ${file.name}:`, error);
+        failed.push(file.name);
       }
+    }
+    setIsReadingFiles(false);
+    if (failed.length > 0) setUploadError(`Couldn't read ${failed.join(', ')}. Use JPEG, PNG, HEIC or PDF files.`);
+    if (added.length === 0) return;
 
-      handleGenerate(fileWithPreview);
-    };
-    reader.readAsDataURL(file);
+    // New images are used until the per-request limit is reached; the primary always counts.
+    const primaryId = primaryImageId ?? (added.find(image => image.selected) ?? added[0]).id;
+    let used = productImages.filter(image => image.selected || image.id === primaryId).length;
+    const limited = added.map(image => {
+      const use = image.id === primaryId || (image.selected && used < MAX_PRODUCT_IMAGES);
+      if (use) used++;
+      return { ...image, selected: use };
+    });
+    const images = [...productImages, ...limited];
+    setProductImages(images);
+    setPrimaryImageId(primaryId);
+
+    if (!currentUser || currentProjectId) return;
+    try {
+      const name = productDescription.trim().split('\n')[0].slice(0, 60) || added[0].name.replace(/\.[^.]+$/, '');
+      const project = await createProject(currentUser, { name, productDescription, images, primaryImageId: primaryId });
+      setCurrentProjectId(project.id);
+    } catch (error) {
+      console.error("Failed to create project:", error);
+    }
+
+    try {
+      const insight = await generateProactiveInsight({ trigger: 'IMAGE_UPLOADED' });
+      setConversationHistory(prev => [...prev, {
+        speaker: 'assistant',
+        text: insight,
+        isFinal: true
+      }]);
+    } catch (e) {
+      console.error("Failed to get image upload insight:", e);
+    }
   };
 
-  const handleGenerate = async (currentImageFile: ImageFile) => {
-    if (!currentImageFile.base64 || !currentImageFile.mimeType) return;
-    setIsLoading(true);
-    setGeneratedVariants([]);
-    setMarketingContent(null);
-    setMarketingSources([]);
-    setVideoScript(null);
+  const handleSetPrimaryImage = (id: string) => {
+    setProductImages(prev => {
+      const used = prev.filter(image => image.selected || image.id === primaryImageId).length;
+      // Promoting an unused image would go over the limit, so the old primary steps out instead.
+      const overflow = !prev.find(image => image.id === id)?.selected && used >= MAX_PRODUCT_IMAGES;
+      return prev.map(image => {
+        if (image.id === id) return { ...image, selected: true };
+        if (image.id === primaryImageId && overflow) return { ...image, selected: false };
+        return image;
+      });
+    });
+    setPrimaryImageId(id);
+  };
+
+  const handleAdjustImage = (id: string, adjusted: StoredImage) => {
+    setProductImages(prev => prev.map(image => image.id === id ? { ...image, base64: adjusted.base64, mimeType: adjusted.mimeType } : image));
+    setAdjustingImageId(null);
+  };
+
+  const handleUploadMaxDimensionChange = (maxDimension: number) => {
+    setUploadMaxDimension(maxDimension);
+    if (currentUser) localStorage.setItem(`${currentUser}_uploadMaxDimension`, String(maxDimension));
+  };
 
+  const handleToggleImage = (id: string) => {
+    setProductImages(prev => prev.map(image => image.id === id ? { ...image, selected: !image.selected } : image));
+  };
+
+  const handleRemoveImage = (id: string) => {
+    const remaining = productImages.filter(image => image.id !== id);
+    setProductImages(remaining);
+    if (id === primaryImageId) {
+      setPrimaryImageId((remaining.find(image => image.selected) ?? remaining[0])?.id ?? null);
+    }
+  };
+
+  const updateVariant = (style: string, changes: Partial<ImageVariant>) => {
+    setGeneratedVariants(prev => prev.map(variant => variant.style === style ? { ...variant, ...changes } : variant));
+  };
+
+  // Each asset settles on its own, so one failed style never hides the others. These never throw.
+  const runVariant = async (image: ProductImage, references: ProductImage[], style: VisualStyle, signal: AbortSignal) => {
+    updateVariant(style.name, { status: 'pending', url: '', error: undefined, edits: undefined });
     try {
-      const variantsPromises = IMAGE_VARIANTS.map(v =>
-        generateImageVariant(currentImageFile.base64!, currentImageFile.mimeType!, v.style)
-          .then(url => ({ ...v, url }))
-      );
-      
-      const marketingPromise = generateMarketingContent(currentImageFile.base64!, currentImageFile.mimeType!, productDescription);
+      const { url, prompt } = await generateImageVariant(image.base64, image.mimeType, style, productDescription, activeBrandKit, references, { signal });
+      if (signal.aborted) return;
+      updateVariant(style.name, { status: 'succeeded', url, prompt });
+    } catch (error) {
+      if (isAbortError(error) || signal.aborted) return;
+      console.error(`${style.name} variant failed:`, error);
+      updateVariant(style.name, { status: 'failed', error: describeApiError(error, 'This style could not be generated.') });
+    }
+  };
 
-      const variants = await Promise.all(variantsPromises);
-      setGeneratedVariants(variants);
+  const activeStyles = styles.filter(style => style.enabled && (selectedStyleIds === null || selectedStyleIds.includes(style.id)));
+  const activeBrandKit = brandKits.find(kit => kit.id === selectedBrandKitId) ?? null;
+  const primaryImage = productImages.find(image => image.id === primaryImageId) ?? null;
+  const adjustingImage = productImages.find(image => image.id === adjustingImageId) ?? null;
+  const referenceImages = productImages.filter(image => image.selected && image.id !== primaryImageId).slice(0, MAX_PRODUCT_IMAGES - 1);
+  const activeScript = videoScripts.find(script => script.id === activeScriptId) ?? videoScripts[videoScripts.length - 1] ?? null;
+  const slideshowLocalization = localizations.find(localization => localization.locale === slideshowLocale) ?? null;
 
-      const { content: marketing, sources } = await marketingPromise;
+  const runMarketing = async (image: ProductImage, references: ProductImage[], signal: AbortSignal) => {
+    setMarketingStatus('pending');
+    setMarketingError(null);
+    try {
+      const { content: marketing, sources } = await generateMarketingContent(image.base64, image.mimeType, productDescription, activeBrandKit, references, { signal });
+      if (signal.aborted) return;
       setMarketingContent(marketing);
       setMarketingSources(sources);
+      setMarketingStatus('succeeded');
+      setHashtags(prev => ({ tags: reseedTags(prev.tags, marketing.hashtags, activeBrandKit), research: null }));
+      setCompliance(prev => ({ ...prev, reviews: Object.fromEntries(Object.entries(prev.reviews).filter(([key]) => key.startsWith('voiceover:'))) }));
 
-      const insight = await generateProactiveInsight({ trigger: 'MARKETING_GENERATED', marketingContent: marketing, productDescription });
+      const insight = await generateProactiveInsight({ trigger: 'MARKETING_GENERATED', marketingContent: marketing, productDescription }, { signal });
+      if (signal.aborted) return;
       setConversationHistory(prev => [...prev, {
         speaker: 'assistant',
         text: insight,
         isFinal: true
       }]);
-
     } catch (error) {
-      console.error('Generation failed:', error);
-      const errorMessage = 'An error occurred during generation. Please check the console for details and try again.';
-       setConversationHistory(prev => [...prev, {
+      if (isAbortError(error) || signal.aborted) return;
+      console.error('Marketing generation failed:', error);
+      const errorMessage = describeApiError(error, 'An error occurred while writing the marketing copy. Please try again.');
+      setMarketingStatus('failed');
+      setMarketingError(errorMessage);
+      setConversationHistory(prev => [...prev, {
         speaker: 'assistant',
         text: errorMessage,
         isFinal: true
       }]);
+    }
+  };
+
+  const abortRetries = () => {
+    retryControllersRef.current.forEach(controller => controller.abort());
+    retryControllersRef.current.clear();
+  };
+
+  const handleGenerate = async () => {
+    if (!primaryImage) return;
+    const references = referenceImages;
+    generationControllerRef.current?.abort();
+    scriptControllerRef.current?.abort();
+    abortRetries();
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+    const { signal } = controller;
+
+    // The previous run's outputs are sealed as a version before the workspace is cleared.
+    if (currentRun) {
+      setVersions(prev => [...prev, {
+        ...currentRun,
+        variants: generatedVariants.map(variant =>
+          variant.status === 'pending' ? { ...variant, status: 'failed', error: 'Superseded by a newer run.' } : variant
+        ),
+        marketingContent,
+        marketingSources,
+        videoScripts,
+      }]);
+    }
+    setCurrentRun({ id: crypto.randomUUID(), startedAt: Date.now(), productDescription });
+
+    setIsLoading(true);
+    setIsGeneratingScript(false);
+    setSelectedVariantStyle(null);
+    setVariantEdits({});
+    setGeneratedVariants(activeStyles.map(style => ({ style: style.name, description: style.description, url: '', status: 'pending' })));
+    setMarketingContent(null);
+    setMarketingSources([]);
+    // Scene ids restart once the scripts are empty, so the outgoing scenes' takes and rewrites
+    // would otherwise attach to the new run's scenes.
+    dropScenes(videoScripts.flatMap(script => script.scenes.map(scene => scene.scene)));
+    setVideoScripts([]);
+    setActiveScriptId(null);
+    setStoryboard([]);
+    setLocalizations(prev => prev.map(localization => ({ ...localization, marketing: null, scripts: {} })));
+    setHashtags(prev => ({ tags: prev.tags.filter(entry => entry.locked), research: null }));
+    setCompliance(prev => ({ ...prev, reviews: {} }));
+
+    try {
+      await Promise.all([
+        ...activeStyles.map(style => runVariant(primaryImage, references, style, signal)),
+        runMarketing(primaryImage, references, signal),
+      ]);
+    } finally {
+      if (generationControllerRef.current === controller) {
+        generationControllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Runs work for a single asset (a retry or an edit) without touching the others. A newer run
+  // for the same key cancels the older one.
+  const runAssetTask = async (key: string, run: (signal: AbortSignal) => Promise<void>) => {
+    retryControllersRef.current.get(key)?.abort();
+    const controller = new AbortController();
+    retryControllersRef.current.set(key, controller);
+    try {
+      await run(controller.signal);
     } finally {
-      setIsLoading(false);
+      if (retryControllersRef.current.get(key) === controller) {
+        retryControllersRef.current.delete(key);
+      }
+    }
+  };
+
+  const handleRetryVariant = (styleName: string) => {
+    if (!primaryImage) return;
+    const style = styles.find(candidate => candidate.name === styleName);
+    if (!style) {
+      updateVariant(styleName, { status: 'failed', error: 'This style has since been renamed or deleted.' });
+      return;
     }
+    runAssetTask(`variant:${styleName}`, signal => runVariant(primaryImage, referenceImages, style, signal));
+  };
+
+  const handleEditVariant = (styleName: string, instruction: string) => {
+    const variant = generatedVariants.find(candidate => candidate.style === styleName);
+    if (!variant || variant.status !== 'succeeded' || !instruction.trim()) return;
+    setVariantEdits(prev => ({ ...prev, [styleName]: { status: 'pending', instruction } }));
+    runAssetTask(`edit:${styleName}`, async signal => {
+      try {
+        const { url, prompt } = await editImageVariant(parseDataUrl(variant.url), instruction, { signal });
+        if (signal.aborted) return;
+        setGeneratedVariants(prev => prev.map(current => current.style === styleName
+          ? { ...current, url, prompt, edits: [...(current.edits ?? []), { instruction, previousUrl: current.url, previousPrompt: current.prompt }] }
+          : current));
+        setVariantEdits(prev => ({ ...prev, [styleName]: { status: 'succeeded', instruction } }));
+      } catch (error) {
+        if (isAbortError(error) || signal.aborted) return;
+        console.error(`Editing ${styleName} variant failed:`, error);
+        setVariantEdits(prev => ({ ...prev, [styleName]: { status: 'failed', instruction, error: describeApiError(error, 'This edit could not be applied.') } }));
+      }
+    });
+  };
+
+  const handleUndoEdit = (styleName: string) => {
+    if (variantEdits[styleName]?.status === 'pending') return;
+    setGeneratedVariants(prev => prev.map(variant => {
+      const last = variant.edits?.[variant.edits.length - 1];
+      if (variant.style !== styleName || !last) return variant;
+      return { ...variant, url: last.previousUrl, prompt: last.previousPrompt, edits: variant.edits!.slice(0, -1) };
+    }));
+    setVariantEdits(prev => {
+      const { [styleName]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Voice edits from Rose. The returned sentence is handed back to the model to tell the user what happened.
+  const handleVoiceEdit = (instruction: string): string => {
+    const variant = generatedVariants.find(candidate => candidate.style === selectedVariantStyle);
+    if (!variant) return "No visual is selected. Ask the user to click the generated image they want to change.";
+    if (variant.status !== 'succeeded') return `The ${variant.style} visual isn't ready yet, so it can't be edited.`;
+    if (variantEdits[variant.style]?.status === 'pending') return `An edit is already being applied to the ${variant.style} visual. Wait for it to finish.`;
+    if (!instruction.trim()) return "No change was described. Ask the user what they want to change.";
+    handleEditVariant(variant.style, instruction);
+    return `Started editing the ${variant.style} visual ("${instruction}"). The new image appears on screen in a few seconds.`;
+  };
+
+  const handleVoiceUndo = (): string => {
+    const variant = generatedVariants.find(candidate => candidate.style === selectedVariantStyle);
+    if (!variant) return "No visual is selected. Ask the user to click the generated image they want to change.";
+    if (!variant.edits?.length) return `The ${variant.style} visual has no edits to undo.`;
+    if (variantEdits[variant.style]?.status === 'pending') return `An edit is still being applied to the ${variant.style} visual. Wait for it to finish.`;
+    handleUndoEdit(variant.style);
+    return `Undid "${variant.edits[variant.edits.length - 1].instruction}" on the ${variant.style} visual.`;
+  };
+
+  const handleStylesChange = (next: VisualStyle[]) => {
+    setStyles(next);
+    if (currentUser) saveStyles(currentUser, next);
+  };
+
+  const handleBrandKitsChange = (next: BrandKit[]) => {
+    setBrandKits(next);
+    if (currentUser) saveBrandKits(currentUser, next);
+  };
+
+  // Research scores the tags as they were sent; tags added meanwhile stay unscored.
+  const handleResearchHashtags = () => {
+    const tags = hashtags.tags.map(entry => entry.tag);
+    if (tags.length === 0) return;
+    setHashtags(prev => ({ ...prev, research: { status: 'pending', sources: prev.research?.sources ?? [] } }));
+    runAssetTask('hashtags', async signal => {
+      try {
+        const { tags: scores, sources } = await researchHashtags(tags, productDescription, activeBrandKit, { signal });
+        if (signal.aborted) return;
+        setHashtags(prev => ({ tags: withScores(prev.tags, scores), research: { status: 'succeeded', sources } }));
+      } catch (error) {
+        if (isAbortError(error) || signal.aborted) return;
+        console.error('Hashtag research failed:', error);
+        setHashtags(prev => ({ ...prev, research: { status: 'failed', error: describeApiError(error, "The hashtags couldn't be researched."), sources: [] } }));
+      }
+    });
+  };
+
+  const handleChangeHashtags = (tags: HashtagEntry[]) => setHashtags(prev => ({ ...prev, tags }));
+
+  const handleHashtagSetsChange = (next: HashtagSet[]) => {
+    setHashtagSets(next);
+    if (currentUser) saveHashtagSets(currentUser, next);
+  };
+
+  const handleRetryMarketing = () => {
+    if (!primaryImage) return;
+    runAssetTask('marketing', signal => runMarketing(primaryImage, referenceImages, signal));
+  };
+
+  // Cancels rewrites and frames of a replaced or deleted script's scenes and drops everything
+  // recorded for them.
+  const dropScenes = (sceneIds: number[]) => {
+    sceneIds.forEach(id => {
+      retryControllersRef.current.get(`scene:${id}`)?.abort();
+      retryControllersRef.current.get(`frame:${id}`)?.abort();
+    });
+    setSceneRewrites(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !sceneIds.includes(Number(id)))));
+    setStoryboard(prev => prev.filter(frame => !sceneIds.includes(frame.scene)));
+    const withoutScenes = (state: VoiceoverState): VoiceoverState => ({
+      takes: state.takes.filter(take => !sceneIds.includes(take.scene)),
+      chosen: Object.fromEntries(Object.entries(state.chosen).filter(([id]) => !sceneIds.includes(Number(id)))),
+    });
+    setVoiceover(withoutScenes);
+    setLocalizations(prev => prev.map(localization => ({ ...localization, voiceover: withoutScenes(localization.voiceover) })));
+    setCompliance(prev => ({ ...prev, reviews: Object.fromEntries(Object.entries(prev.reviews).filter(([key]) => !sceneIds.some(id => key === `voiceover:${id}`))) }));
   };
 
-  const handleGenerateScript = async () => {
-    if (!imageFile?.base64 || !marketingContent) return;
+  // Cancels a replaced or deleted script's translations and drops them.
+  const dropScriptTranslations = (scriptId: string) => {
+    localizations.forEach(({ locale }) => retryControllersRef.current.get(`locale:${locale}:script:${scriptId}`)?.abort());
+    setLocalizations(prev => prev.map(localization => {
+      const { [scriptId]: _, ...scripts } = localization.scripts;
+      return { ...localization, scripts };
+    }));
+  };
+
+  // Writes one script per job side by side; a job with `replaces` swaps out that script instead.
+  const runScripts = async (jobs: ScriptJob[]) => {
+    if (!primaryImage || !marketingContent || jobs.length === 0) return;
+    scriptControllerRef.current?.abort();
+    const controller = new AbortController();
+    scriptControllerRef.current = controller;
+    const { signal } = controller;
+
     setIsGeneratingScript(true);
+    let isShown = false;
     try {
-      const ideas = marketingContent.postIdeas.join('; ');
-      const script = await generateVideoScript(imageFile.base64, imageFile.mimeType!, ideas, productDescription);
-      setVideoScript(script);
+      const written = await Promise.all(jobs.map(async ({ angle, hook, length, platform, replaces }) => {
+        try {
+          const generated = await generateVideoScript(primaryImage.base64, primaryImage.mimeType, angle, productDescription, activeBrandKit, length, platform, hook, { signal });
+          if (signal.aborted) return null;
+          const id = crypto.randomUUID();
+          const replaced = videoScripts.find(script => script.id === replaces);
+          if (replaced) {
+            dropScenes(replaced.scenes.map(scene => scene.scene));
+            dropScriptTranslations(replaced.id);
+          }
+          setVideoScripts(prev => {
+            const script = withFreshSceneIds({ ...generated, id }, prev);
+            return replaced ? prev.map(current => current.id === replaced.id ? script : current) : [...prev, script];
+          });
+          // Show the first script that's ready; the rest wait in their tabs.
+          if (!isShown) {
+            isShown = true;
+            setActiveScriptId(id);
+          }
+          return { ...generated, id };
+        } catch (error) {
+          if (isAbortError(error) || signal.aborted) return null;
+          console.error(`Script generation for "${angle}" failed:`, error);
+          const errorMessage = describeApiError(error, `An error occurred while writing the script for "${angle}". Please try again.`);
+          setConversationHistory(prev => [...prev, {
+            speaker: 'assistant',
+            text: errorMessage,
+            isFinal: true
+          }]);
+          return null;
+        }
+      }));
+      const script = written.find(candidate => candidate !== null);
+      if (!script || signal.aborted) return;
 
-      const insight = await generateProactiveInsight({ trigger: 'VIDEO_SCRIPT_GENERATED', videoScript: script, marketingContent, productDescription });
+      const insight = await generateProactiveInsight({ trigger: 'VIDEO_SCRIPT_GENERATED', videoScript: script, marketingContent, productDescription }, { signal });
+      if (signal.aborted) return;
        setConversationHistory(prev => [...prev, {
         speaker: 'assistant',
         text: insight,
         isFinal: true
       }]);
     } catch (error) {
-      console.error('Script generation failed:', error);
-      const errorMessage = 'An error occurred during script generation. Please check the console and try again.';
-      setConversationHistory(prev => [...prev, {
-        speaker: 'assistant',
-        text: errorMessage,
-        isFinal: true
-      }]);
+      if (isAbortError(error)) return;
+      console.error('Script insight failed:', error);
     } finally {
-      setIsGeneratingScript(false);
+      if (scriptControllerRef.current === controller) {
+        scriptControllerRef.current = null;
+        setIsGeneratingScript(false);
+      }
     }
   };
 
-  const handleSwitchUser = useCallback(() => {
-    setImageFile(null);
+  const handleGenerateScripts = (angles: string[], hook: ScriptHook, length: ScriptLength, platform: ScriptPlatform) =>
+    runScripts(angles.map(angle => ({ angle, hook, length, platform })));
+
+  // Writes a fresh script with the same settings. Scripts from before angles were picked were
+  // written for every angle at once.
+  const handleRegenerateScript = (id: string) => {
+    const script = videoScripts.find(candidate => candidate.id === id);
+    if (!script || !marketingContent) return;
+    runScripts([{
+      angle: script.angle ?? marketingContent.postIdeas.join('; '),
+      hook: script.hook ?? 'problem-solution',
+      length: script.length ?? 30,
+      platform: script.platform ?? 'tiktok',
+      replaces: id,
+    }]);
+  };
+
+  const handleDeleteScript = (id: string) => {
+    const script = videoScripts.find(candidate => candidate.id === id);
+    if (!script) return;
+    dropScenes(script.scenes.map(scene => scene.scene));
+    dropScriptTranslations(id);
+    setVideoScripts(prev => prev.filter(candidate => candidate.id !== id));
+  };
+
+  const handleChangeScript = (script: VideoScript) =>
+    setVideoScripts(prev => prev.map(current => current.id === script.id ? script : current));
+
+  // Rose picks angles by their number in the list she was given.
+  const handleVoiceScripts = (angleNumbers: number[], hook: string): string => {
+    if (!marketingContent) return "There are no marketing angles yet. The copy has to be generated first.";
+    if (isGeneratingScript) return "Scripts are already being written. Wait for them to finish.";
+    const ideas = marketingContent.postIdeas;
+    const angles = [...new Set(angleNumbers)].filter(n => Number.isInteger(n) && n >= 1 && n <= ideas.length).map(n => ideas[n - 1]);
+    if (angles.length === 0) return `Those angle numbers don't exist. Pick numbers from 1 to ${ideas.length}.`;
+    const hookStyle = SCRIPT_HOOKS.find(option => option.id === hook)?.id ?? 'problem-solution';
+    handleGenerateScripts(angles, hookStyle, activeScript?.length ?? 30, activeScript?.platform ?? 'tiktok');
+    return `Started writing ${angles.length === 1 ? 'a script' : `${angles.length} scripts`} (${hookStyle} hook) for: ${angles.map(angle => `"${angle}"`).join(', ')}. They appear in the Video Ad Scripts card in a few seconds.`;
+  };
+
+  const handleRewriteScene = (sceneId: number, instruction: string) => {
+    const script = videoScripts.find(candidate => candidate.scenes.some(scene => scene.scene === sceneId));
+    const sceneIndex = script?.scenes.findIndex(scene => scene.scene === sceneId) ?? -1;
+    if (!script || sceneIndex < 0 || !instruction.trim()) return;
+    setSceneRewrites(prev => ({ ...prev, [sceneId]: { status: 'pending', instruction } }));
+    runAssetTask(`scene:${sceneId}`, async signal => {
+      try {
+        const { visual, voiceover } = await rewriteVideoScene(script, sceneIndex, instruction, productDescription, activeBrandKit, { signal });
+        if (signal.aborted) return;
+        setVideoScripts(prev => prev.map(current => current.id === script.id
+          ? { ...current, scenes: current.scenes.map(scene => scene.scene === sceneId ? { ...scene, visual, voiceover } : scene) }
+          : current));
+        setSceneRewrites(prev => {
+          const { [sceneId]: _, ...rest } = prev;
+          return rest;
+        });
+      } catch (error) {
+        if (isAbortError(error) || signal.aborted) return;
+        console.error(`Rewriting scene ${sceneIndex + 1} failed:`, error);
+        setSceneRewrites(prev => ({ ...prev, [sceneId]: { status: 'failed', instruction, error: describeApiError(error, "This scene couldn't be rewritten.") } }));
+      }
+    });
+  };
+
+  const runStoryboardFrame = (sceneId: number, visual: string) => {
+    if (!primaryImage) return;
+    const pending: StoryboardFrame = { scene: sceneId, visual, status: 'pending' };
+    setStoryboard(prev => prev.some(frame => frame.scene === sceneId)
+      ? prev.map(frame => frame.scene === sceneId ? { ...frame, ...pending, error: undefined } : frame)
+      : [...prev, pending]);
+    runAssetTask(`frame:${sceneId}`, async signal => {
+      try {
+        const { url, prompt } = await generateStoryboardFrame(primaryImage.base64, primaryImage.mimeType, visual, productDescription, activeBrandKit, referenceImages, { signal });
+        if (signal.aborted) return;
+        setStoryboard(prev => prev.map(frame => frame.scene === sceneId ? { scene: sceneId, visual, status: 'succeeded', url, prompt } : frame));
+      } catch (error) {
+        if (isAbortError(error) || signal.aborted) return;
+        console.error(`Drawing the storyboard frame for scene ${sceneId} failed:`, error);
+        setStoryboard(prev => prev.map(frame => frame.scene === sceneId
+          ? { ...frame, status: 'failed', error: describeApiError(error, "This frame couldn't be drawn.") }
+          : frame));
+      }
+    });
+  };
+
+  // Draws the scenes that have no frame yet, a failed one, or one drawn from an older visual.
+  const handleGenerateStoryboard = () => {
+    activeScript?.scenes.forEach(scene => {
+      const frame = storyboard.find(candidate => candidate.scene === scene.scene);
+      if (!scene.visual.trim() || frame?.status === 'pending') return;
+      if (frame?.status === 'succeeded' && frame.visual === scene.visual) return;
+      runStoryboardFrame(scene.scene, scene.visual);
+    });
+  };
+
+  const handleRegenerateFrame = (sceneId: number) => {
+    const scene = videoScripts.flatMap(script => script.scenes).find(candidate => candidate.scene === sceneId);
+    if (scene?.visual.trim()) runStoryboardFrame(sceneId, scene.visual);
+  };
+
+  const updateLocalization = (locale: string, update: (localization: Localization) => Localization) =>
+    setLocalizations(prev => prev.map(localization => localization.locale === locale ? update(localization) : localization));
+
+  // A retranslation keeps showing the previous translation until the new one lands.
+  const runLocalizedMarketing = (locale: string, content: MarketingContent) => {
+    updateLocalization(locale, localization => ({ ...localization, marketing: { ...localization.marketing, status: 'pending', error: undefined } }));
+    runAssetTask(`locale:${locale}:marketing`, async signal => {
+      try {
+        const localized = await localizeMarketing(content, locale, activeBrandKit, { signal });
+        if (signal.aborted) return;
+        updateLocalization(locale, localization => ({ ...localization, marketing: { status: 'succeeded', content: localized } }));
+      } catch (error) {
+        if (isAbortError(error) || signal.aborted) return;
+        console.error(`Translating the marketing copy into ${locale} failed:`, error);
+        updateLocalization(locale, localization => ({
+          ...localization,
+          marketing: { ...localization.marketing, status: 'failed', error: describeApiError(error, "The copy couldn't be translated.") },
+        }));
+      }
+    });
+  };
+
+  const runLocalizedScript = (locale: string, script: VideoScript) => {
+    const setScript = (update: (localized: LocalizedScript | undefined) => LocalizedScript) =>
+      updateLocalization(locale, localization => ({ ...localization, scripts: { ...localization.scripts, [script.id]: update(localization.scripts[script.id]) } }));
+    setScript(localized => ({ ...localized, status: 'pending', error: undefined }));
+    runAssetTask(`locale:${locale}:script:${script.id}`, async signal => {
+      try {
+        const { title, voiceovers } = await localizeScript(script, locale, activeBrandKit, { signal });
+        if (signal.aborted) return;
+        setScript(() => ({
+          status: 'succeeded',
+          title,
+          voiceovers: Object.fromEntries(script.scenes.map((scene, i) => [scene.scene, voiceovers[i]])),
+          source: scriptSource(script),
+        }));
+      } catch (error) {
+        if (isAbortError(error) || signal.aborted) return;
+        console.error(`Translating "${script.title}" into ${locale} failed:`, error);
+        setScript(localized => ({ ...localized, status: 'failed', error: describeApiError(error, "The script couldn't be translated.") }));
+      }
+    });
+  };
+
+  // Translates whatever a locale is missing: new copy after a run, scripts as they're written, and
+  // everything for a newly added locale. Failed translations wait for a retry.
+  useEffect(() => {
+    localizations.forEach(({ locale, marketing, scripts }) => {
+      if (marketingContent && marketingStatus === 'succeeded' && !marketing) runLocalizedMarketing(locale, marketingContent);
+      videoScripts.forEach(script => {
+        if (!scripts[script.id]) runLocalizedScript(locale, script);
+      });
+    });
+  }, [localizations, marketingContent, marketingStatus, videoScripts]);
+
+  const handleAddLocale = (locale: string) => {
+    if (locale === SOURCE_LOCALE || localizations.some(localization => localization.locale === locale)) return;
+    setLocalizations(prev => [...prev, emptyLocalization(locale)]);
+  };
+
+  const handleRemoveLocale = (locale: string) => {
+    retryControllersRef.current.forEach((controller, key) => {
+      if (key.startsWith(`locale:${locale}:`)) controller.abort();
+    });
+    setLocalizations(prev => prev.filter(localization => localization.locale !== locale));
+  };
+
+  const handleLocalizeMarketing = (locale: string) => {
+    if (marketingContent) runLocalizedMarketing(locale, marketingContent);
+  };
+
+  const handleLocalizeScript = (locale: string, scriptId: string) => {
+    const script = videoScripts.find(candidate => candidate.id === scriptId);
+    if (script) runLocalizedScript(locale, script);
+  };
+
+  const handleChangeLocalizedPlatformCopy = (locale: string, platforms: PlatformCopyPacks) =>
+    updateLocalization(locale, localization => localization.marketing?.content
+      ? { ...localization, marketing: { ...localization.marketing, content: { ...localization.marketing.content, platforms } } }
+      : localization);
+
+  // Sends copy for the model review on top of the local rules. Results for copy that was edited or
+  // dropped in the meantime are discarded.
+  const runComplianceReview = (taskKey: string, items: ComplianceItem[]) => {
+    const platforms = checkedPlatforms(compliance);
+    const settle = (reviewOf: (item: ComplianceItem, i: number) => ComplianceReview) =>
+      setCompliance(prev => ({
+        ...prev,
+        reviews: {
+          ...prev.reviews,
+          ...Object.fromEntries(items
+            .map((item, i) => [item.key, reviewOf(item, i)] as const)
+            .filter(([key, review]) => prev.reviews[key]?.status === 'pending' && prev.reviews[key].source === review.source)),
+        },
+      }));
+    setCompliance(prev => ({
+      ...prev,
+      reviews: { ...prev.reviews, ...Object.fromEntries(items.map(item => [item.key, { status: 'pending', source: item.text } as const])) },
+    }));
+    runAssetTask(`compliance:${taskKey}`, async signal => {
+      try {
+        const { items: results } = await reviewCompliance(
+          items.map(item => ({ text: item.text, ruleFlags: ruleFlagNotes(checkRules(item.text, platforms)) })),
+          platforms, productDescription, activeBrandKit, { signal },
+        );
+        if (signal.aborted) return;
+        settle((item, i) => ({ status: 'succeeded', source: item.text, flags: results[i].flags, rewrite: results[i].rewrite }));
+      } catch (error) {
+        if (isAbortError(error) || signal.aborted) return;
+        console.error('Compliance review failed:', error);
+        settle(item => ({ status: 'failed', source: item.text, error: describeApiError(error, "The copy couldn't be reviewed.") }));
+      }
+    });
+  };
+
+  // A single item is reviewed on its own; otherwise one request per group, such as one script.
+  const handleReviewCompliance = (items: ComplianceItem[]) => {
+    if (items.length === 1) {
+      runComplianceReview(items[0].key, items);
+      return;
+    }
+    [...new Set(items.map(item => item.group))].forEach(group => runComplianceReview(group, items.filter(item => item.group === group)));
+  };
+
+  // With auto review on, new copy and scripts are reviewed as they arrive. Copy edited after its
+  // review waits for the user to ask again.
+  useEffect(() => {
+    if (!compliance.autoReview) return;
+    const unreviewed = complianceItems(marketingContent, videoScripts).filter(item => !compliance.reviews[item.key]);
+    if (unreviewed.length > 0) handleReviewCompliance(unreviewed);
+  }, [compliance.autoReview, compliance.reviews, marketingContent, videoScripts]);
+
+  const handleChangeCompliancePlatforms = (platforms: CopyPlatform[] | null) => setCompliance(prev => ({ ...prev, platforms }));
+  const handleChangeComplianceAutoReview = (autoReview: boolean) => setCompliance(prev => ({ ...prev, autoReview }));
+
+  // The rewrite came from the review, so it counts as reviewed.
+  const handleApplyComplianceRewrite = (key: string, text: string) => {
+    const [kind, id] = key.split(':');
+    if (kind === 'idea' || kind === 'caption') {
+      const field = kind === 'idea' ? 'postIdeas' : 'captions';
+      setMarketingContent(prev => prev && { ...prev, [field]: prev[field].map((current, i) => i === Number(id) ? text : current) });
+    } else {
+      setVideoScripts(prev => prev.map(script => ({
+        ...script,
+        scenes: script.scenes.map(scene => scene.scene === Number(id) ? { ...scene, voiceover: text } : scene),
+      })));
+    }
+    setCompliance(prev => ({ ...prev, reviews: { ...prev.reviews, [key]: { status: 'succeeded', source: text, flags: [], rewrite: '' } } }));
+  };
+
+  const handleExportCampaign = async () => {
+    setIsExportingCampaign(true);
+    setCampaignExportError(null);
+    try {
+      const project = currentProjectId ? await getProject(currentProjectId) : undefined;
+      const projectName = project?.name ?? (productDescription.trim().split('\n')[0].slice(0, 60) || 'Campaign');
+      const zip = await buildCampaignZip({
+        projectName,
+        productDescription,
+        brandKitName: activeBrandKit?.name ?? null,
+        generatedAt: currentRun?.startedAt ?? null,
+        variants: generatedVariants,
+        marketingContent,
+        marketingSources,
+        videoScripts,
+        storyboard,
+        localizations,
+        hashtags: hashtags.tags,
+        adCreatives,
+      });
+      downloadBlob(zip, `${slugify(projectName, 'campaign')}.zip`);
+    } catch (error) {
+      console.error("Failed to export campaign:", error);
+      setCampaignExportError("Couldn't build the campaign ZIP. Please try again.");
+    } finally {
+      setIsExportingCampaign(false);
+    }
+  };
+
+  const handlePinImage = (versionId: string, variant: ImageVariant) => {
+    setFinals(prev => prev.images.some(image => image.versionId === versionId && image.style === variant.style)
+      ? prev
+      : { ...prev, images: [...prev.images, { id: crypto.randomUUID(), versionId, style: variant.style, url: variant.url }] });
+  };
+
+  const handlePinCaption = (versionId: string, text: string) => {
+    setFinals(prev => prev.captions.some(caption => caption.versionId === versionId && caption.text === text)
+      ? prev
+      : { ...prev, captions: [...prev.captions, { id: crypto.randomUUID(), versionId, text }] });
+  };
+
+  const handleUnpinImage = (id: string) => setFinals(prev => ({ ...prev, images: prev.images.filter(image => image.id !== id) }));
+  const handleUnpinCaption = (id: string) => setFinals(prev => ({ ...prev, captions: prev.captions.filter(caption => caption.id !== id) }));
+
+  const handleSaveAd = (creative: AdCreative) => setAdCreatives(prev => [...prev, creative]);
+  const handleDeleteAd = (id: string) => setAdCreatives(prev => prev.filter(ad => ad.id !== id));
+
+  const handleCreateAbTest = (test: AbTest) => setAbTests(prev => [...prev, test]);
+  const handleChangeAbTest = (test: AbTest) => setAbTests(prev => prev.map(current => current.id === test.id ? test : current));
+  const handleDeleteAbTest = (id: string) => setAbTests(prev => prev.filter(test => test.id !== id));
+
+  // Each locale records its own takes.
+  const updateVoiceover = (locale: string, update: (voiceover: VoiceoverState) => VoiceoverState) => {
+    if (locale === SOURCE_LOCALE) setVoiceover(update);
+    else updateLocalization(locale, localization => ({ ...localization, voiceover: update(localization.voiceover) }));
+  };
+
+  // A scene's first take of its current line is used until another one is chosen.
+  const handleAddVoiceoverTake = (take: VoiceoverTake, locale = SOURCE_LOCALE) => updateVoiceover(locale, prev => {
+    const chosen = prev.takes.find(candidate => candidate.id === prev.chosen[take.scene]);
+    return {
+      takes: [...prev.takes, take],
+      chosen: chosen?.text === take.text ? prev.chosen : { ...prev.chosen, [take.scene]: take.id },
+    };
+  });
+
+  const handleChooseVoiceoverTake = (scene: number, takeId: string, locale = SOURCE_LOCALE) =>
+    updateVoiceover(locale, prev => ({ ...prev, chosen: { ...prev.chosen, [scene]: takeId } }));
+
+  // Deleting the chosen take falls back to the scene's latest remaining one.
+  const handleDeleteVoiceoverTake = (takeId: string, locale = SOURCE_LOCALE) => updateVoiceover(locale, prev => {
+    const deleted = prev.takes.find(take => take.id === takeId);
+    const takes = prev.takes.filter(take => take.id !== takeId);
+    if (!deleted || prev.chosen[deleted.scene] !== takeId) return { ...prev, takes };
+    const { [deleted.scene]: _, ...chosen } = prev.chosen;
+    const fallback = takes.filter(take => take.scene === deleted.scene).pop();
+    return { takes, chosen: fallback ? { ...chosen, [deleted.scene]: fallback.id } : chosen };
+  });
+
+  // Cancels in-flight work and empties the creative workspace.
+  const resetCreativeState = () => {
+    generationControllerRef.current?.abort();
+    generationControllerRef.current = null;
+    scriptControllerRef.current?.abort();
+    scriptControllerRef.current = null;
+    abortRetries();
+    setCurrentProjectId(null);
+    setProductImages([]);
+    setPrimaryImageId(null);
+    setUploadError(null);
+    setAdjustingImageId(null);
     setProductDescription('');
     setGeneratedVariants([]);
     setMarketingContent(null);
     setMarketingSources([]);
-    setVideoScript(null);
+    setMarketingStatus(null);
+    setMarketingError(null);
+    setVideoScripts([]);
+    setActiveScriptId(null);
     setIsLoading(false);
     setIsGeneratingScript(false);
+    setSelectedStyleIds(null);
+    setSelectedBrandKitId(null);
+    setSelectedVariantStyle(null);
+    setVariantEdits({});
+    setCurrentRun(null);
+    setVersions([]);
+    setFinals({ images: [], captions: [] });
+    setAdCreatives([]);
+    setIsAdComposerVisible(false);
+    setSlideshowLocale(null);
+    setVoiceover({ takes: [], chosen: {} });
+    setSceneRewrites({});
+    setStoryboard([]);
+    setLocalizations([]);
+    setHashtags({ tags: [], research: null });
+    setAbTests([]);
+    setCompliance({ platforms: null, autoReview: false, reviews: {} });
+  };
+
+  const handleOpenProject = (project: Project, kits: BrandKit[] = brandKits) => {
+    resetCreativeState();
+    // Assets that were still generating when the project was last saved can only be retried.
+    const interrupted = 'Generation was interrupted before this finished.';
+    skipAutosaveRef.current = true;
+    setCurrentProjectId(project.id);
+    setProductImages(project.images);
+    setPrimaryImageId(project.primaryImageId);
+    setProductDescription(project.productDescription);
+    setGeneratedVariants(project.variants.map(variant =>
+      variant.status === 'pending' ? { ...variant, status: 'failed', error: interrupted } : variant
+    ));
+    setMarketingContent(project.marketingContent);
+    setMarketingSources(project.marketingSources);
+    setMarketingStatus(project.marketingStatus === 'pending' ? 'failed' : project.marketingStatus);
+    setMarketingError(project.marketingStatus === 'pending' ? interrupted : project.marketingError);
+    setVideoScripts(project.videoScripts);
+    setSelectedStyleIds(project.styleIds);
+    setSelectedBrandKitId(project.brandKitId);
+    setCurrentRun(project.currentRun);
+    setVersions(project.versions);
+    setFinals(project.finals);
+    setAdCreatives(project.adCreatives);
+    setAbTests(project.abTests);
+    setCompliance({
+      ...project.compliance,
+      reviews: Object.fromEntries(Object.entries(project.compliance.reviews).map(([key, review]) =>
+        [key, review.status === 'pending' ? { ...review, status: 'failed', error: interrupted } : review])),
+    });
+    setVoiceover(project.voiceover);
+    setStoryboard(project.storyboard.map(frame =>
+      frame.status === 'pending' ? { ...frame, status: 'failed', error: interrupted } : frame
+    ));
+    // Projects from before the hashtag workspace start it from their copy's hashtags.
+    setHashtags(project.hashtags.tags.length === 0 && project.marketingContent
+      ? { tags: withNewTags([], project.marketingContent.hashtags, kits.find(kit => kit.id === project.brandKitId) ?? null), research: null }
+      : { ...project.hashtags, research: project.hashtags.research?.status === 'pending' ? { ...project.hashtags.research, status: 'failed', error: interrupted } : project.hashtags.research });
+    setLocalizations(project.localizations.map(localization => ({
+      ...localization,
+      marketing: localization.marketing?.status === 'pending' ? { ...localization.marketing, status: 'failed', error: interrupted } : localization.marketing,
+      scripts: Object.fromEntries(Object.entries(localization.scripts).map(([id, localized]) =>
+        [id, localized.status === 'pending' ? { ...localized, status: 'failed', error: interrupted } : localized])),
+    })));
+    setActiveView('creative');
+  };
+
+  const handleNewProject = () => {
+    resetCreativeState();
+    if (currentUser) localStorage.removeItem(`${currentUser}_lastProjectId`);
+    setActiveView('creative');
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (id !== currentProjectId) return;
+    resetCreativeState();
+    if (currentUser) localStorage.removeItem(`${currentUser}_lastProjectId`);
+  };
+
+  const handleSwitchUser = useCallback(() => {
+    resetCreativeState();
     setIsGuideVisible(false);
+    setIsStyleManagerVisible(false);
+    setIsBrandKitManagerVisible(false);
+    setStyles([]);
+    setBrandKits([]);
+    setHashtagSets([]);
     setConversationHistory([]);
     setUserProfile({});
     setActiveView('creative');
@@ -267,10 +1183,10 @@ const App: React.FC = () => {
           <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 items-start">
             {/* Main Content Area */}
             <div className="lg:col-span-3">
-              {!imageFile ? (
+              {productImages.length === 0 ? (
                 <div className="max-w-3xl mx-auto text-center">
                   <h2 className="text-4xl font-extrabold text-amber-400 sm:text-5xl">Your Instant Creative Suite</h2>
-                  <p className="mt-4 text-lg text-gray-400">Describe your product, then upload an image to generate professional visuals and copy in seconds.</p>
+                  <p className="mt-4 text-lg text-gray-400">Describe your product, then upload a few images to generate professional visuals and copy in seconds.</p>
                   
                   <div className="mt-8 text-left space-y-2">
                      <label htmlFor="product-description" className="text-lg font-semibold text-gray-300">
@@ -286,13 +1202,34 @@ const App: React.FC = () => {
                      />
                   </div>
 
-                  <FileUpload onFileSelect={handleFileSelect} />
+                  <div className="mt-8 text-left space-y-4">
+                    <StylePicker styles={styles} selectedIds={selectedStyleIds} onChange={setSelectedStyleIds} onManage={() => setIsStyleManagerVisible(true)} />
+                    <BrandKitSelect brandKits={brandKits} selectedId={selectedBrandKitId} onChange={setSelectedBrandKitId} onManage={() => setIsBrandKitManagerVisible(true)} />
+                  </div>
+
+                  <FileUpload
+                    onFilesSelect={handleFilesSelect}
+                    isProcessing={isReadingFiles}
+                    error={uploadError}
+                    maxDimension={uploadMaxDimension}
+                    onMaxDimensionChange={handleUploadMaxDimensionChange}
+                  />
                 </div>
               ) : (
                 <div className="space-y-8 animate-fade-in-up">
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-8 items-start">
                     <div className="md:col-span-1 space-y-4">
-                       <img src={imageFile.previewUrl} alt="Original" className="rounded-2xl w-full h-auto object-cover shadow-2xl shadow-black/50" />
+                       <ProductImageTray
+                          images={productImages}
+                          primaryId={primaryImageId}
+                          onSetPrimary={handleSetPrimaryImage}
+                          onToggle={handleToggleImage}
+                          onRemove={handleRemoveImage}
+                          onAdjust={setAdjustingImageId}
+                          onAddFiles={handleFilesSelect}
+                          isProcessing={isReadingFiles}
+                          error={uploadError}
+                       />
                        {productDescription && (
                          <div className="p-3 bg-gray-800 border border-gray-700 rounded-lg">
                             <h4 className="font-bold text-amber-400 text-sm">Product Description</h4>
@@ -300,30 +1237,98 @@ const App: React.FC = () => {
                          </div>
                        )}
                        <button
-                          onClick={() => handleGenerate(imageFile)}
-                          disabled={isLoading}
+                          onClick={handleGenerate}
+                          disabled={!primaryImage}
+                          title={isLoading ? 'Cancel the current run and start again' : undefined}
                           className="w-full bg-amber-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-amber-500 transition-all duration-300 ease-in-out disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                        >
-                          {isLoading ? <Loader /> : '✨ Regenerate'}
+                          {isLoading ? <><Loader small={true} /> Restart</> : currentRun ? '✨ Regenerate' : '✨ Generate'}
                        </button>
+                       <button
+                          onClick={handleExportCampaign}
+                          disabled={isExportingCampaign || !(generatedVariants.some(variant => variant.status === 'succeeded') || marketingContent)}
+                          title="Download every visual, the copy, the script and a manifest as one ZIP"
+                          className="w-full bg-gray-700 text-gray-200 font-bold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                       >
+                          {isExportingCampaign ? <><Loader small={true} /> Packaging...</> : '📦 Export Campaign'}
+                       </button>
+                       {campaignExportError && <p className="text-sm text-red-300">{campaignExportError}</p>}
+                       <StylePicker styles={styles} selectedIds={selectedStyleIds} onChange={setSelectedStyleIds} onManage={() => setIsStyleManagerVisible(true)} />
+                       <BrandKitSelect brandKits={brandKits} selectedId={selectedBrandKitId} onChange={setSelectedBrandKitId} onManage={() => setIsBrandKitManagerVisible(true)} />
                     </div>
                     <div className="md:col-span-2">
-                      {isLoading ? (
-                        <div className="flex flex-col items-center justify-center h-96 bg-black/30 rounded-2xl">
-                          <Loader />
-                          <p className="mt-4 text-amber-400 font-semibold">Generating Creative Assets...</p>
-                          <p className="mt-1 text-sm text-gray-400">This can take up to 30 seconds.</p>
+                      {!currentRun && generatedVariants.length === 0 ? (
+                        <div className="bg-black/50 p-6 rounded-2xl border border-gray-700 text-gray-400 space-y-2">
+                          <h3 className="text-xl font-semibold text-amber-300">Ready when you are</h3>
+                          <p>Star the image that shows your product best and pick up to {MAX_PRODUCT_IMAGES - 1} more angles or spec-sheet pages to send along, then hit Generate.</p>
                         </div>
                       ) : (
                         <ResultsDisplay
                           variants={generatedVariants}
+                          onRetryVariant={handleRetryVariant}
+                          selectedVariant={selectedVariantStyle}
+                          onSelectVariant={setSelectedVariantStyle}
+                          variantEdits={variantEdits}
+                          onEditVariant={handleEditVariant}
+                          onUndoEdit={handleUndoEdit}
                           marketingContent={marketingContent}
                           marketingSources={marketingSources}
-                          videoScript={videoScript}
-                          onGenerateScript={handleGenerateScript}
+                          marketingStatus={marketingStatus}
+                          marketingError={marketingError}
+                          onRetryMarketing={handleRetryMarketing}
+                          onChangePlatformCopy={platforms => setMarketingContent(prev => prev && { ...prev, platforms })}
+                          videoScripts={videoScripts}
+                          activeScript={activeScript}
+                          onSelectScript={setActiveScriptId}
+                          onGenerateScripts={handleGenerateScripts}
+                          onRegenerateScript={handleRegenerateScript}
+                          onDeleteScript={handleDeleteScript}
+                          onChangeScript={handleChangeScript}
+                          sceneRewrites={sceneRewrites}
+                          onRewriteScene={handleRewriteScene}
+                          storyboard={storyboard}
+                          onGenerateStoryboard={handleGenerateStoryboard}
+                          onRegenerateFrame={handleRegenerateFrame}
                           isGeneratingScript={isGeneratingScript}
+                          onRenderVideo={setSlideshowLocale}
+                          voiceover={voiceover}
+                          onAddVoiceoverTake={handleAddVoiceoverTake}
+                          onChooseVoiceoverTake={handleChooseVoiceoverTake}
+                          onDeleteVoiceoverTake={handleDeleteVoiceoverTake}
+                          hashtags={hashtags}
+                          onChangeHashtags={handleChangeHashtags}
+                          onResearchHashtags={handleResearchHashtags}
+                          hashtagSets={hashtagSets}
+                          onChangeHashtagSets={handleHashtagSetsChange}
+                          localizations={localizations}
+                          onAddLocale={handleAddLocale}
+                          onRemoveLocale={handleRemoveLocale}
+                          onLocalizeMarketing={handleLocalizeMarketing}
+                          onLocalizeScript={handleLocalizeScript}
+                          onChangeLocalizedPlatformCopy={handleChangeLocalizedPlatformCopy}
                           onShowGuide={handleShowGuide}
                           onPostToTikTok={handlePostToTikTok}
+                          versions={versions}
+                          currentVersion={currentRun && { ...currentRun, variants: generatedVariants, marketingContent, marketingSources, videoScripts }}
+                          finals={finals}
+                          onPinImage={handlePinImage}
+                          onPinCaption={handlePinCaption}
+                          onUnpinImage={handleUnpinImage}
+                          onUnpinCaption={handleUnpinCaption}
+                          brandKitName={activeBrandKit?.name ?? null}
+                          captionViolations={marketingContent ? checkCaptions(marketingContent.captions, activeBrandKit) : []}
+                          adCreatives={adCreatives}
+                          onOpenAdComposer={() => setIsAdComposerVisible(true)}
+                          onDeleteAd={handleDeleteAd}
+                          abTests={abTests}
+                          onCreateAbTest={handleCreateAbTest}
+                          onChangeAbTest={handleChangeAbTest}
+                          onDeleteAbTest={handleDeleteAbTest}
+                          compliance={compliance}
+                          onChangeCompliancePlatforms={handleChangeCompliancePlatforms}
+                          onChangeComplianceAutoReview={handleChangeComplianceAutoReview}
+                          onReviewCompliance={handleReviewCompliance}
+                          onApplyComplianceRewrite={handleApplyComplianceRewrite}
                         />
                       )}
                     </div>
@@ -343,8 +1348,12 @@ const App: React.FC = () => {
                   appContext={{
                     productDescription,
                     marketingContent,
-                    videoScript,
+                    videoScripts,
+                    abTests,
                   }}
+                  onEditSelectedImage={handleVoiceEdit}
+                  onUndoSelectedImageEdit={handleVoiceUndo}
+                  onWriteScripts={handleVoiceScripts}
                   onClearConversation={handleClearConversation}
                   initialGreeting={initialGreeting}
                   onGreetingSpoken={() => setInitialGreeting(null)}
@@ -352,6 +1361,15 @@ const App: React.FC = () => {
             </div>
           </div>
         )}
+        {activeView === 'projects' && (
+          <ProjectLibrary
+            currentUser={currentUser}
+            currentProjectId={currentProjectId}
+            onOpenProject={handleOpenProject}
+            onNewProject={handleNewProject}
+            onProjectDeleted={handleProjectDeleted}
+          />
+        )}
         {activeView === 'culinary' && <CulinaryAssistant />}
       </main>
 
@@ -367,7 +1385,32 @@ const App: React.FC = () => {
       </footer>
 
       {isGuideVisible && <GuideModal onClose={handleCloseGuide} />}
-      {isTikTokModalVisible && <TikTokModal onClose={handleCloseTikTokModal} variants={generatedVariants} marketingContent={marketingContent} />}
+      {isStyleManagerVisible && <StyleManager styles={styles} onChange={handleStylesChange} onClose={() => setIsStyleManagerVisible(false)} />}
+      {isBrandKitManagerVisible && <BrandKitManager brandKits={brandKits} onChange={handleBrandKitsChange} onClose={() => setIsBrandKitManagerVisible(false)} />}
+      {adjustingImage && <ImageAdjuster key={adjustingImage.id} image={adjustingImage} onApply={(adjusted) => handleAdjustImage(adjustingImage.id, adjusted)} onClose={() => setAdjustingImageId(null)} />}
+      {isAdComposerVisible && (
+        <AdComposer
+          variants={generatedVariants.filter(variant => variant.status === 'succeeded')}
+          initialStyle={selectedVariantStyle}
+          marketingContent={marketingContent}
+          productName={productDescription.trim().split('\n')[0].slice(0, 60)}
+          brandKit={activeBrandKit}
+          onSave={handleSaveAd}
+          onClose={() => setIsAdComposerVisible(false)}
+        />
+      )}
+      {slideshowLocale && activeScript && (
+        <SlideshowStudio
+          key={slideshowLocale}
+          script={slideshowLocalization ? localizedScript(activeScript, slideshowLocalization.scripts[activeScript.id]) : activeScript}
+          variants={generatedVariants.filter(variant => variant.status === 'succeeded')}
+          voiceover={slideshowLocalization?.voiceover ?? voiceover}
+          storyboard={storyboard}
+          locale={slideshowLocale}
+          onClose={() => setSlideshowLocale(null)}
+        />
+      )}
+      {isTikTokModalVisible && <TikTokModal onClose={handleCloseTikTokModal} variants={generatedVariants} marketingContent={marketingContent} hashtags={hashtags.tags} />}
 
       {isPrivacyModalVisible && (
         <PolicyModal title="Privacy Policy" onClose={handleClosePrivacy}>
@@ -381,7 +1424,7 @@ const App: React.FC = () => {
                 <li><strong>User-Provided Information:</strong> This includes your chosen username, product descriptions, and any text or voice commands you provide to our AI assistant, Rose.</li>
                 <li><strong>Uploaded Content:</strong> We process the images you upload to generate creative assets. These images are sent to Google's Gemini API for processing and are not stored on our servers long-term.</li>
                 <li><strong>Voice Data:</strong> When you use voice login or speak to Rose, your voice data is processed to recognize your name or transcribe your commands. For login, we store a count of voice logins locally to enable features like personalized greetings. For conversation, audio is streamed to the Gemini API for real-time transcription and response.</li>
-                <li><strong>Locally Stored Data:</strong> To provide a personalized experience, we use your browser's `localStorage` to save your conversation history with Rose and your user profile (which is built from your interactions). This data remains on your device and is not transmitted to our servers.</li>
+                <li><strong>Locally Stored Data:</strong> To provide a personalized experience, we use your browser's `localStorage` to save your conversation history with Rose and your user profile (which is built from your interactions), and your browser's IndexedDB to save your creative projects (uploaded images, PDF pages rendered on your device, and generated assets). This data remains on your device and is not transmitted to our servers.</li>
               </ul>
 
               <h3 className="text-xl font-bold text-amber-400">2. How We Use Your Information</h3>
@@ -0,0 +1,254 @@
+import React, { useRef, useState } from 'react';
+import type { AbTest, AbTestCell, AbTestGoal, AbTestMetrics, ImageVariant } from '../types';
+import { GOAL_LABELS, MAX_AB_CELLS, buildAbTestZip, formatMoney, formatRate, metricsProblem, parseResultsCsv, planCells, summarizeTest } from '../services/abTesting';
+import { downloadBlob, slugify } from '../services/imageExport';
+import { DownloadIcon, TrashIcon, UploadIcon } from './icons';
+
+interface AbTestPlannerProps {
+    tests: AbTest[];
+    // Succeeded variants only.
+    variants: ImageVariant[];
+    captions: string[];
+    onCreateTest: (test: AbTest) => void;
+    onChangeTest: (test: AbTest) => void;
+    onDeleteTest: (id: string) => void;
+}
+
+const METRIC_INPUTS: { field: keyof AbTestMetrics; label: string; step: string }[] = [
+    { field: 'impressions', label: 'Impressions', step: '1' },
+    { field: 'clicks', label: 'Clicks', step: '1' },
+    { field: 'spend', label: 'Spend', step: '0.01' },
+    { field: 'sales', label: 'Sales', step: '1' },
+];
+
+const inputClasses = "p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300 text-sm";
+
+const optionClasses = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-full border transition-colors ${active ? 'bg-amber-500 border-amber-500 text-gray-900 font-semibold' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-500/50'}`;
+
+const TestResults: React.FC<{test: AbTest; onChange: (test: AbTest) => void; onDelete: () => void}> = ({ test, onChange, onDelete }) => {
+    const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { stats, leader, winner, verdict } = summarizeTest(test);
+
+    const updateCell = (cell: AbTestCell, field: keyof AbTestMetrics, value: string) => {
+        const metrics = { ...(cell.metrics ?? { impressions: 0, clicks: 0, spend: 0, sales: 0 }), [field]: value === '' ? 0 : Number(value) };
+        onChange({ ...test, cells: test.cells.map(current => current.id === cell.id ? { ...current, metrics } : current) });
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            downloadBlob(await buildAbTestZip(test), `${slugify(test.name, 'ab-test')}.zip`);
+        } catch (error) {
+            console.error("Failed to export the A/B test:", error);
+            setImportMessage({ text: "Couldn't build the ZIP. Please try again.", isError: true });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const result = parseResultsCsv(await file.text(), test.cells);
+        if ('error' in result) {
+            setImportMessage({ text: result.error, isError: true });
+            return;
+        }
+        const { metrics } = result;
+        onChange({ ...test, cells: test.cells.map(cell => metrics[cell.id] ? { ...cell, metrics: metrics[cell.id] } : cell) });
+        const count = Object.keys(metrics).length;
+        setImportMessage({ text: `Imported results for ${count} cell${count === 1 ? '' : 's'}.`, isError: false });
+    };
+
+    const handleDelete = () => {
+        if (!window.confirm(`Delete "${test.name}" and its results?`)) return;
+        onDelete();
+    };
+
+    return (
+        <div className="p-4 bg-gray-900/60 rounded-lg border border-gray-700 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h4 className="font-bold text-amber-400">{test.name}</h4>
+                    <p className="text-xs text-gray-500">{test.cells.length} cells · judged on {GOAL_LABELS[test.goal]} · planned {new Date(test.createdAt).toLocaleDateString()}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={handleExport}
+                        disabled={isExporting}
+                        title="Download each cell's visual and caption, plus a results sheet"
+                        className="flex items-center gap-1 bg-gray-700 text-gray-200 font-bold py-1 px-3 rounded-lg hover:bg-gray-600 transition-colors text-sm disabled:opacity-50"
+                    >
+                        <DownloadIcon className="w-4 h-4" /> Creatives
+                    </button>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        title="Import results from a CSV with cell, impressions, clicks, spend and sales columns"
+                        className="flex items-center gap-1 bg-gray-700 text-gray-200 font-bold py-1 px-3 rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                    >
+                        <UploadIcon className="w-4 h-4" /> Import CSV
+                    </button>
+                    <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+                    <button onClick={handleDelete} aria-label={`Delete ${test.name}`} title="Delete test" className="p-1 text-gray-500 hover:text-red-400 transition-colors">
+                        <TrashIcon className="w-5 h-5" />
+                    </button>
+                </div>
+            </div>
+            {importMessage && <p className={`text-sm ${importMessage.isError ? 'text-red-300' : 'text-green-300'}`}>{importMessage.text}</p>}
+
+            <div className="overflow-x-auto custom-scrollbar">
+                <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-gray-500">
+                        <tr>
+                            <th className="p-2">Cell</th>
+                            {METRIC_INPUTS.map(input => <th key={input.field} className="p-2">{input.label}</th>)}
+                            <th className="p-2">CTR</th>
+                            <th className="p-2">CPA</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {stats.map(({ cell, ctr, cpa }) => {
+                            const problem = cell.metrics && metricsProblem(cell.metrics);
+                            return (
+                                <tr key={cell.id} className={`border-t border-gray-800 ${cell.id === winner?.id ? 'bg-amber-500/10' : ''}`}>
+                                    <td className="p-2">
+                                        <div className="flex items-center gap-2 min-w-[12rem]">
+                                            <img src={cell.imageUrl} alt={`${cell.style} visual`} className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                                            <div>
+                                                <p className="font-bold text-amber-400">{cell.label}{cell.id === winner?.id && ' 🏆'}{cell.id === leader?.id && !winner && ' ↑'}</p>
+                                                <p className="text-xs text-gray-400 line-clamp-2" title={cell.caption}>{cell.style} · {cell.caption}</p>
+                                                {problem && <p className="text-xs text-red-300">{problem}</p>}
+                                            </div>
+                                        </div>
+                                    </td>
+                                    {METRIC_INPUTS.map(input => (
+                                        <td key={input.field} className="p-2">
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                step={input.step}
+                                                value={cell.metrics?.[input.field] ?? ''}
+                                                onChange={(e) => updateCell(cell, input.field, e.target.value)}
+                                                aria-label={`${input.label} for cell ${cell.label}`}
+                                                className={`${inputClasses} w-24`}
+                                            />
+                                        </td>
+                                    ))}
+                                    <td className="p-2 font-semibold">{formatRate(ctr)}</td>
+                                    <td className="p-2 font-semibold">{formatMoney(cpa)}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <p className={`text-sm ${winner ? 'text-amber-300 font-semibold' : 'text-gray-400'}`}>{verdict}</p>
+        </div>
+    );
+};
+
+export const AbTestPlanner: React.FC<AbTestPlannerProps> = ({ tests, variants, captions, onCreateTest, onChangeTest, onDeleteTest }) => {
+    const [name, setName] = useState('');
+    const [goal, setGoal] = useState<AbTestGoal>('clicks');
+    const [styles, setStyles] = useState<string[]>([]);
+    // Captions are picked by position, since two captions can read the same, and the text guards
+    // against a new run putting a different caption in that position.
+    const [pickedCaptions, setPickedCaptions] = useState<{ index: number; text: string }[]>([]);
+
+    // Picks from a previous run no longer apply.
+    const pickedVisuals = variants.filter(variant => styles.includes(variant.style));
+    const pickedCopy = pickedCaptions.filter(pick => captions[pick.index] === pick.text);
+    const isCaptionPicked = (index: number) => pickedCopy.some(pick => pick.index === index);
+    const cellCount = pickedVisuals.length * pickedCopy.length;
+
+    const toggle = (list: string[], value: string) => list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+    const handleCreate = () => {
+        onCreateTest({
+            id: crypto.randomUUID(),
+            name: name.trim() || `Test ${tests.length + 1}`,
+            createdAt: Date.now(),
+            goal,
+            cells: planCells(pickedVisuals.map(variant => ({ style: variant.style, url: variant.url })), pickedCopy.map(pick => pick.text)),
+        });
+        setName('');
+        setStyles([]);
+        setPickedCaptions([]);
+    };
+
+    return (
+        <div className="space-y-6 text-gray-300">
+            {tests.map(test => (
+                <TestResults key={test.id} test={test} onChange={onChangeTest} onDelete={() => onDeleteTest(test.id)} />
+            ))}
+
+            <div className={`space-y-4 ${tests.length > 0 ? 'pt-4 border-t border-gray-700' : ''}`}>
+                <p className="text-gray-400">
+                    {variants.length === 0 || captions.length === 0
+                        ? 'Tests pair your visuals with your captions, so they unlock once both are ready.'
+                        : 'Plan a test: pick the visuals and captions to pit against each other. Every pair becomes one ad, or cell.'}
+                </p>
+                {variants.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {variants.map(variant => (
+                            <button
+                                key={variant.style}
+                                onClick={() => setStyles(toggle(styles, variant.style))}
+                                aria-pressed={styles.includes(variant.style)}
+                                title={variant.style}
+                                className={`w-16 rounded-lg overflow-hidden border-2 transition-all ${styles.includes(variant.style) ? 'border-amber-400' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                            >
+                                <img src={variant.url} alt={variant.style} className="w-full aspect-square object-cover" />
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {captions.length > 0 && (
+                    <div className="space-y-2">
+                        {captions.map((caption, i) => (
+                            <button
+                                key={i}
+                                onClick={() => setPickedCaptions(isCaptionPicked(i) ? pickedCopy.filter(pick => pick.index !== i) : [...pickedCopy, { index: i, text: caption }])}
+                                aria-pressed={isCaptionPicked(i)}
+                                className={`block w-full text-left p-2 rounded-lg border text-sm transition-colors ${isCaptionPicked(i) ? 'border-amber-500 bg-amber-500/10 text-gray-200' : 'border-gray-700 bg-gray-800/50 text-gray-400 hover:border-amber-500/50'}`}
+                            >
+                                {isCaptionPicked(i) ? '☑' : '☐'} {caption}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                    {(Object.keys(GOAL_LABELS) as AbTestGoal[]).map(id => (
+                        <button key={id} onClick={() => setGoal(id)} aria-pressed={goal === id} className={optionClasses(goal === id)}>
+                            Judge on {GOAL_LABELS[id]}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder={`Test ${tests.length + 1}`}
+                        aria-label="Test name"
+                        className={`${inputClasses} flex-grow`}
+                    />
+                    <button
+                        onClick={handleCreate}
+                        disabled={cellCount < 2 || cellCount > MAX_AB_CELLS}
+                        className="bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    >
+                        🧪 Plan {cellCount} cell{cellCount === 1 ? '' : 's'}
+                    </button>
+                </div>
+                {cellCount > MAX_AB_CELLS && (
+                    <p className="text-xs text-red-300">That's {cellCount} cells; keep it to {MAX_AB_CELLS} so each one gets enough impressions to call a winner.</p>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import type { AdCreative, AdTemplateId, BrandKit, ImageVariant, MarketingContent } from '../types';
+import { AD_PLACEMENTS, AD_TEMPLATES, renderAd } from '../services/adComposer';
+import { downloadBlob, exportFilename } from '../services/imageExport';
+import { Loader } from './Loader';
+import { CloseIcon, DownloadIcon, BookmarkIcon } from './icons';
+
+interface AdComposerProps {
+    // Succeeded variants only.
+    variants: ImageVariant[];
+    initialStyle: string | null;
+    marketingContent: MarketingContent | null;
+    // Prefills the headline.
+    productName: string;
+    brandKit: BrandKit | null;
+    onSave: (creative: AdCreative) => void;
+    onClose: () => void;
+}
+
+const inputClasses = "w-full p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300 text-sm";
+
+// Falls back to the app's amber when there's no brand kit.
+const DEFAULT_ACCENT = '#f59e0b';
+
+// Ads only have room for the opening line of a generated caption.
+const firstSentence = (text: string) => text.split(/(?<=[.!?])\s/)[0].trim();
+
+export const AdComposer: React.FC<AdComposerProps> = ({ variants, initialStyle, marketingContent, productName, brandKit, onSave, onClose }) => {
+    const [style, setStyle] = useState(() => variants.find(variant => variant.style === initialStyle)?.style ?? variants[0]?.style ?? '');
+    const [placementId, setPlacementId] = useState(AD_PLACEMENTS[0].id);
+    const [templateId, setTemplateId] = useState<AdTemplateId>('spotlight');
+    const [headline, setHeadline] = useState(productName);
+    const [caption, setCaption] = useState(() => marketingContent?.captions[0] ? firstSentence(marketingContent.captions[0]) : '');
+    const [price, setPrice] = useState('');
+    const [cta, setCta] = useState('Shop now');
+    const [showLogo, setShowLogo] = useState(Boolean(brandKit?.logo));
+    const [preview, setPreview] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [savedUrl, setSavedUrl] = useState<string | null>(null);
+
+    const variant = variants.find(candidate => candidate.style === style) ?? null;
+    const placement = AD_PLACEMENTS.find(candidate => candidate.id === placementId)!;
+
+    useEffect(() => {
+        if (!variant) return;
+        let cancelled = false;
+        setError(null);
+        renderAd(variant.url, placement, templateId, {
+            headline,
+            caption,
+            price,
+            cta,
+            logo: showLogo ? brandKit?.logo ?? null : null,
+            accent: brandKit?.palette[0] ?? DEFAULT_ACCENT,
+        })
+            .then(url => { if (!cancelled) setPreview(url); })
+            .catch(err => {
+                if (cancelled) return;
+                console.error("Ad render failed:", err);
+                setError(err instanceof Error ? err.message : "Couldn't render this ad.");
+            });
+        return () => { cancelled = true; };
+    }, [variant, placement, templateId, headline, caption, price, cta, showLogo, brandKit]);
+
+    const handleSave = () => {
+        if (!preview || !variant) return;
+        onSave({
+            id: crypto.randomUUID(),
+            createdAt: Date.now(),
+            style: variant.style,
+            placementId,
+            templateId,
+            headline,
+            caption,
+            price,
+            cta,
+            showLogo,
+            url: preview,
+        });
+        setSavedUrl(preview);
+    };
+
+    const handleDownload = async () => {
+        if (!preview) return;
+        const blob = await (await fetch(preview)).blob();
+        downloadBlob(blob, exportFilename(`${style} ad`, placement, blob.type));
+    };
+
+    const optionClasses = (active: boolean) =>
+        `px-3 py-1 text-sm rounded-full border transition-colors ${active ? 'bg-amber-500 border-amber-500 text-gray-900 font-semibold' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-500/50'}`;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex justify-center items-center p-4 animate-fade-in"
+            onClick={onClose}
+        >
+            <div
+                className="bg-gray-900 border border-amber-500/20 rounded-2xl shadow-2xl shadow-black/50 max-w-5xl w-full max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="sticky top-0 bg-gray-900/80 backdrop-blur-md p-6 z-10 border-b border-gray-700 flex-shrink-0">
+                    <h2 className="text-3xl font-extrabold text-amber-400">Ad Composer</h2>
+                    <p className="text-gray-400">Put your headline, price and call to action on a generated visual.</p>
+                    <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-amber-400 transition-colors">
+                        <CloseIcon className="w-8 h-8" />
+                    </button>
+                </div>
+
+                <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6 overflow-y-auto custom-scrollbar">
+                    <div className="space-y-5">
+                        <label className="block space-y-1">
+                            <span className="text-sm font-semibold text-gray-300">Visual</span>
+                            <select value={style} onChange={(e) => setStyle(e.target.value)} className={inputClasses}>
+                                {variants.map(candidate => <option key={candidate.style} value={candidate.style}>{candidate.style}</option>)}
+                            </select>
+                        </label>
+
+                        <div className="space-y-2">
+                            <h3 className="text-sm font-semibold text-gray-300">Placement</h3>
+                            <div className="flex flex-wrap gap-2">
+                                {AD_PLACEMENTS.map(candidate => (
+                                    <button key={candidate.id} onClick={() => setPlacementId(candidate.id)} aria-pressed={candidate.id === placementId} className={optionClasses(candidate.id === placementId)}>
+                                        {candidate.platform} · {candidate.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <h3 className="text-sm font-semibold text-gray-300">Template</h3>
+                            <div className="flex flex-wrap gap-2">
+                                {AD_TEMPLATES.map(template => (
+                                    <button key={template.id} onClick={() => setTemplateId(template.id)} aria-pressed={template.id === templateId} className={optionClasses(template.id === templateId)}>
+                                        {template.name}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-xs text-gray-500">{AD_TEMPLATES.find(template => template.id === templateId)?.description}</p>
+                        </div>
+
+                        <label className="block space-y-1">
+                            <span className="text-sm font-semibold text-gray-300">Headline</span>
+                            <input value={headline} onChange={(e) => setHeadline(e.target.value)} maxLength={60} className={inputClasses} />
+                        </label>
+
+                        <label className="block space-y-1">
+                            <span className="text-sm font-semibold text-gray-300">Caption</span>
+                            <textarea value={caption} onChange={(e) => setCaption(e.target.value)} maxLength={140} rows={2} className={inputClasses} />
+                        </label>
+                        {marketingContent && marketingContent.captions.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-2 -mt-3">
+                                <span className="text-xs text-gray-500">Start from:</span>
+                                {marketingContent.captions.map((text, i) => (
+                                    <button key={i} onClick={() => setCaption(firstSentence(text))} className="text-xs text-amber-400 hover:text-amber-300 transition-colors">
+                                        Caption {i + 1}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="block space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Price</span>
+                                <input value={price} onChange={(e) => setPrice(e.target.value)} maxLength={12} placeholder="e.g. $29" className={inputClasses} />
+                            </label>
+                            <label className="block space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Button</span>
+                                <input value={cta} onChange={(e) => setCta(e.target.value)} maxLength={24} className={inputClasses} />
+                            </label>
+                        </div>
+
+                        {brandKit?.logo && (
+                            <label className="flex items-center gap-2 text-sm text-gray-300">
+                                <input type="checkbox" checked={showLogo} onChange={(e) => setShowLogo(e.target.checked)} className="accent-amber-500" />
+                                Show the {brandKit.name} logo
+                            </label>
+                        )}
+                    </div>
+
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-center min-h-[16rem] bg-gray-800/60 rounded-lg p-2">
+                            {!variant
+                                ? <p className="text-sm text-gray-400 text-center">Generate a visual first.</p>
+                                : error ? <p className="text-sm text-red-300 text-center">{error}</p>
+                                : preview ? <img src={preview} alt="Ad preview" className="max-h-[55vh] w-auto rounded" />
+                                : <Loader />}
+                        </div>
+                        <p className="text-xs text-gray-500 text-center">{placement.width}×{placement.height} · text stays clear of the app's own buttons</p>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleSave}
+                                disabled={!preview || preview === savedUrl}
+                                className="flex-grow bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out flex items-center justify-center gap-2 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                            >
+                                <BookmarkIcon className="w-5 h-5" /> {preview && preview === savedUrl ? 'Saved' : 'Save to campaign'}
+                            </button>
+                            <button
+                                onClick={handleDownload}
+                                disabled={!preview}
+                                aria-label="Download ad"
+                                title="Download"
+                                className="bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <DownloadIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,8 +1,12 @@
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from "@google/genai";
+import { GoogleGenAI, LiveServerMessage, Modality, Blob, Type, FunctionDeclaration, type LiveConnectParameters } from "@google/genai";
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import type { ConversationTurn, MarketingContent, VideoScript, UserProfile } from '../types';
+import type { AbTest, ConversationTurn, MarketingContent, VideoScript, UserProfile } from '../types';
 import { MicrophoneIcon, StopIcon, SpeakerOnIcon, SpeakerOffIcon, TrashIcon } from './icons';
-import { generateSpeech } from '../services/geminiService';
+import { generateSpeech, createLiveSessionToken } from '../services/geminiService';
+import { decodeSpeech } from '../services/audioUtils';
+import { SCRIPT_HOOKS, type LiveTokenResponse } from '../services/apiTypes';
+import { describeAbTest } from '../services/abTesting';
+import { connectMockLiveSession, type LiveSession } from '../services/mockLiveSession';
 
 // --- Audio Helper Functions ---
 function encode(bytes: Uint8Array): string {
@@ -14,34 +18,6 @@ function encode(bytes: Uint8Array): string {
     return btoa(binary);
 }
 
-function decode(base64: string): Uint8Array {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-}
-
-async function decodeAudioData(
-    data: Uint8Array,
-    ctx: AudioContext,
-    sampleRate: number,
-    numChannels: number,
-): Promise<AudioBuffer> {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-    for (let channel = 0; channel < numChannels; channel++) {
-        const channelData = buffer.getChannelData(channel);
-        for (let i = 0; i < frameCount; i++) {
-            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-        }
-    }
-    return buffer;
-}
-
 function createPcmBlob(data: Float32Array): Blob {
     const l = data.length;
     const int16 = new Int16Array(l);
@@ -68,6 +44,41 @@ interface Sentence {
 }
 
 
+// Tools Rose can call during a live session to change the generated visuals.
+const IMAGE_EDIT_TOOLS: FunctionDeclaration[] = [
+    {
+        name: 'edit_selected_image',
+        description: "Edits the generated visual the user has selected in the app, e.g. 'warmer lighting' or 'put it on a marble counter'. Returns a short status to relay to the user.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                instruction: { type: Type.STRING, description: "The change to make, in the user's words." },
+            },
+            required: ['instruction'],
+        },
+    },
+    {
+        name: 'undo_image_edit',
+        description: "Undoes the most recent edit on the selected visual. Returns a short status to relay to the user.",
+    },
+];
+
+// Lets Rose act on the angle the user picks when she asks which one resonates.
+const SCRIPT_TOOLS: FunctionDeclaration[] = [
+    {
+        name: 'write_video_scripts',
+        description: "Writes one video ad script per chosen marketing angle, side by side in the app. Returns a short status to relay to the user.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                angles: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: 'The numbers of the chosen marketing angles, as listed in the app context.' },
+                hook: { type: Type.STRING, enum: SCRIPT_HOOKS.map(hook => hook.id), description: 'How the scripts open: problem-solution, unboxing, testimonial or ugc (user-generated look).' },
+            },
+            required: ['angles'],
+        },
+    },
+];
+
 interface AssistantPanelProps {
     currentUser: string;
     conversationHistory: ConversationTurn[];
@@ -77,11 +88,17 @@ interface AssistantPanelProps {
     appContext: {
         productDescription: string;
         marketingContent: MarketingContent | null;
-        videoScript: VideoScript | null;
+        videoScripts: VideoScript[];
+        abTests: AbTest[];
     };
     onClearConversation: () => void;
     initialGreeting: string | null;
     onGreetingSpoken: () => void;
+    // Voice edits of the selected visual. Both return a sentence describing the outcome for Rose to relay.
+    onEditSelectedImage: (instruction: string) => string;
+    onUndoSelectedImageEdit: () => string;
+    // Starts writing scripts for the angles with these 1-based numbers; returns a sentence for Rose to relay.
+    onWriteScripts: (angleNumbers: number[], hook: string) => string;
 }
 
 // FIX: Changed to a function declaration to avoid TSX parsing ambiguity with generics.
@@ -104,6 +121,9 @@ export const AssistantPanel: React.FC<AssistantPanelProps> = ({
     onClearConversation,
     initialGreeting,
     onGreetingSpoken,
+    onEditSelectedImage,
+    onUndoSelectedImageEdit,
+    onWriteScripts,
 }) => {
     const [isListening, setIsListening] = useState(false);
     const [status, setStatus] = useState('Idle. Click the mic to start.');
@@ -121,7 +141,7 @@ export const AssistantPanel: React.FC<AssistantPanelProps> = ({
     const [liveUserTranscript, setLiveUserTranscript] = useState('');
     const [liveAssistantTranscript, setLiveAssistantTranscript] = useState('');
     
-    const sessionPromiseRef = useRef<Promise<any> | null>(null);
+    const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
     const mediaStreamRef = useRef<MediaStream | null>(null);
     const inputAudioContextRef = useRef<AudioContext | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
@@ -139,11 +159,17 @@ export const AssistantPanel: React.FC<AssistantPanelProps> = ({
     const wheelLastMoved = useRef(0);
 
     const userProfileRef = useRef(userProfile);
+    // The session outlives renders, so tool calls go through a ref to reach the latest app state.
+    const toolsRef = useRef({ edit: onEditSelectedImage, undo: onUndoSelectedImageEdit, writeScripts: onWriteScripts });
     
     useEffect(() => {
         userProfileRef.current = userProfile;
     }, [userProfile]);
 
+    useEffect(() => {
+        toolsRef.current = { edit: onEditSelectedImage, undo: onUndoSelectedImageEdit, writeScripts: onWriteScripts };
+    }, [onEditSelectedImage, onUndoSelectedImageEdit, onWriteScripts]);
+
     useEffect(() => {
         const newSentences = conversationHistory.flatMap((turn, turnIndex) => {
             const splitSentences = turn.text.match(/[^.!?]+[.!?]+/g) || [turn.text];
@@ -291,7 +317,7 @@ export const AssistantPanel: React.FC<AssistantPanelProps> = ({
                         return;
                     }
 
-                    const buffer = await decodeAudioData(decode(audioData), outCtx, 24000, 1);
+                    const buffer = decodeSpeech(audioData, outCtx);
                     const source = outCtx.createBufferSource();
                     source.buffer = buffer;
                     if (destinationNodeRef.current) {
@@ -332,9 +358,10 @@ export const AssistantPanel: React.FC<AssistantPanelProps> = ({
             const contextString = `
             Current app context:
             - Product Description: ${appContext.productDescription || 'Not yet provided.'}
-            - Generated Marketing Angles: ${appContext.marketingContent?.postIdeas.join(', ') || 'Not yet generated.'}
+            - Generated Marketing Angles: ${appContext.marketingContent?.postIdeas.map((idea, i) => `${i + 1}. ${idea}`).join(' ') || 'Not yet generated.'}
             - Generated Captions: ${appContext.marketingContent?.captions.join(' | ') || 'Not yet generated.'}
-            - Generated Video Script Title: ${appContext.videoScript?.title || 'Not yet generated.'}
+            - Video Scripts: ${appContext.videoScripts.map(script => `"${script.title}"${script.angle ? ` (angle: ${script.angle})` : ''}`).join(', ') || 'Not yet generated.'}
+            - A/B Tests: ${appContext.abTests.map(describeAbTest).join(' ') || 'None planned yet.'}
             `;
 
             const profileString = Object.keys(userProfileRef.current).length > 0 
@@ -348,6 +375,8 @@ export const AssistantPanel: React.FC<AssistantPanelProps> = ({
             Your two main roles:
             1.  **Best Friend & Companion**: Your primary goal is to be a great friend to ${currentUser}. Use the user profile to remember details about them. Ask follow-up questions about their life, reference past conversations, and make them feel heard and understood. Be proactive in your support.
             2.  **Expert Partner**: When the user wants to work, you seamlessly switch into your expert marketing strategist role. You are an expert in dropshipping, social media marketing, and content strategy. Use the app context to provide concise, actionable advice. You also have access to Google Search to answer any question on any topic.
+            3.  **Image Editor**: When the user asks you to change a generated visual ("make it warmer", "remove the shadow"), call edit_selected_image with their instruction; call undo_image_edit to take the last change back. Tell the user what the tool reported.
+            4.  **Script Writer**: When the user picks one or more marketing angles for a video, call write_video_scripts with their numbers and, if they mention one, a hook style. Tell the user what the tool reported.
 
             ${contextString}
 
@@ -359,6 +388,18 @@ export const AssistantPanel: React.FC<AssistantPanelProps> = ({
             5.  **Conversational Follow-up**: Once a conversation is active (i.e., you've just spoken), you should respond to the user's immediate reply without needing the wake word. This allows for a natural back-and-forth conversation.`;
         };
 
+        // The server mints a single-use token so the API key never reaches the browser.
+        let liveToken: LiveTokenResponse;
+        try {
+            liveToken = await createLiveSessionToken();
+        } catch (error) {
+            console.error("Failed to get live session token:", error);
+            setStatus(`Error: ${error instanceof Error ? error.message : 'Could not connect.'}`);
+            setIsListening(false);
+            return;
+        }
+        const { token, model, mock } = liveToken;
+
         try {
             const stream = await navigator.mediaDevices.getUserMedia({ 
                 audio: { 
@@ -375,10 +416,13 @@ export const AssistantPanel: React.FC<AssistantPanelProps> = ({
             const scriptProcessor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
             scriptProcessorRef.current = scriptProcessor;
 
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+            // The mock provider's token opens a canned session instead of a real one.
+            const connect = mock
+                ? connectMockLiveSession
+                : (params: LiveConnectParameters) => new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } }).live.connect(params);
 
-            sessionPromiseRef.current = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+            sessionPromiseRef.current = connect({
+                model,
                 config: {
                     responseModalities: [Modality.AUDIO],
                     speechConfig: {
@@ -387,7 +431,7 @@ export const AssistantPanel: React.FC<AssistantPanelProps> = ({
                     systemInstruction: getSystemInstruction(),
                     inputAudioTranscription: {},
                     outputAudioTranscription: {},
-                    tools: [{ googleSearch: {} }],
+                    tools: [{ googleSearch: {} }, { functionDeclarations: [...IMAGE_EDIT_TOOLS, ...SCRIPT_TOOLS] }],
                 },
                 callbacks: {
                     onopen: () => {
@@ -404,6 +448,23 @@ export const AssistantPanel: React.FC<AssistantPanelProps> = ({
                         scriptProcessor.connect(inputAudioContextRef.current!.destination);
                     },
                     onmessage: async (message: LiveServerMessage) => {
+                        if (message.toolCall?.functionCalls) {
+                            const functionResponses = message.toolCall.functionCalls.map(call => {
+                                let result: string;
+                                if (call.name === 'edit_selected_image') {
+                                    result = toolsRef.current.edit(String(call.args?.instruction ?? ''));
+                                } else if (call.name === 'undo_image_edit') {
+                                    result = toolsRef.current.undo();
+                                } else if (call.name === 'write_video_scripts') {
+                                    const angles = Array.isArray(call.args?.angles) ? call.args.angles.map(Number) : [];
+                                    result = toolsRef.current.writeScripts(angles, String(call.args?.hook ?? 'problem-solution'));
+                                } else {
+                                    result = `Unknown tool: ${call.name}`;
+                                }
+                                return { id: call.id, name: call.name, response: { result } };
+                            });
+                            sessionPromiseRef.current?.then(session => session.sendToolResponse({ functionResponses }));
+                        }
                         if (message.serverContent) {
                             const { inputTranscription, outputTranscription, turnComplete } = message.serverContent;
                             
@@ -466,7 +527,7 @@ export const AssistantPanel: React.FC<AssistantPanelProps> = ({
                                 }
 
                                 nextStartTime.current = Math.max(nextStartTime.current, ctx.currentTime);
-                                const audioBuffer = await decodeAudioData(decode(audioData), ctx, 24000, 1);
+                                const audioBuffer = decodeSpeech(audioData, ctx);
                                 const sourceNode = ctx.createBufferSource();
                                 sourceNode.buffer = audioBuffer;
                                 
@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import type { BrandKit } from '../types';
+import { createBrandKit } from '../services/brandKits';
+import { downscaleImage } from '../services/imageUtils';
+import { storedImageUrl } from '../services/projectStore';
+import { CloseIcon, PencilIcon, TrashIcon, PlusIcon } from './icons';
+
+interface BrandKitManagerProps {
+    brandKits: BrandKit[];
+    onChange: (brandKits: BrandKit[]) => void;
+    onClose: () => void;
+}
+
+const LOGO_MAX_DIMENSION = 256;
+const MAX_PALETTE_COLORS = 6;
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const toHashtags = (text: string) =>
+    text.split(/[\s,]+/).map(tag => tag.replace(/^#+/, '')).filter(Boolean).map(tag => `#${tag}`);
+
+// Free-text fields are edited as strings and only split into lists on save.
+interface Draft {
+    kit: BrandKit;
+    mustUse: string;
+    forbidden: string;
+    hashtags: string;
+}
+
+const toDraft = (kit: BrandKit): Draft => ({
+    kit: { ...kit },
+    mustUse: kit.mustUsePhrases.join('\n'),
+    forbidden: kit.forbiddenPhrases.join('\n'),
+    hashtags: kit.defaultHashtags.join(' '),
+});
+
+const inputClasses = "w-full p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300 text-sm";
+
+export const BrandKitManager: React.FC<BrandKitManagerProps> = ({ brandKits, onChange, onClose }) => {
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const updateKit = (changes: Partial<BrandKit>) => {
+        setDraft(current => current && { ...current, kit: { ...current.kit, ...changes } });
+    };
+
+    const startEdit = (kit: BrandKit) => {
+        setDraft(toDraft(kit));
+        setError(null);
+    };
+
+    const saveDraft = () => {
+        if (!draft) return;
+        const name = draft.kit.name.trim();
+        if (!name) {
+            setError("Give the brand a name.");
+            return;
+        }
+        if (brandKits.some(kit => kit.id !== draft.kit.id && kit.name.trim().toLowerCase() === name.toLowerCase())) {
+            setError(`You already have a brand called "${name}".`);
+            return;
+        }
+        const saved: BrandKit = {
+            ...draft.kit,
+            name,
+            mustUsePhrases: toLines(draft.mustUse),
+            forbiddenPhrases: toLines(draft.forbidden),
+            defaultHashtags: toHashtags(draft.hashtags),
+        };
+        const exists = brandKits.some(kit => kit.id === saved.id);
+        onChange(exists ? brandKits.map(kit => kit.id === saved.id ? saved : kit) : [...brandKits, saved]);
+        setDraft(null);
+    };
+
+    const remove = (kit: BrandKit) => {
+        if (!window.confirm(`Delete the "${kit.name}" brand kit? Projects using it will go back to no brand kit.`)) return;
+        onChange(brandKits.filter(other => other.id !== kit.id));
+    };
+
+    const handleLogoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            updateKit({ logo: await downscaleImage(file, LOGO_MAX_DIMENSION, 0.92, 'image/png') });
+        } catch (err) {
+            console.error("Failed to read logo:", err);
+            setError("Couldn't read that logo. Try a PNG or JPEG.");
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex justify-center items-center p-4 animate-fade-in"
+            onClick={onClose}
+        >
+            <div
+                className="bg-gray-900 border border-amber-500/20 rounded-2xl shadow-2xl shadow-black/50 max-w-3xl w-full max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="sticky top-0 bg-gray-900/80 backdrop-blur-md p-6 z-10 border-b border-gray-700 flex-shrink-0">
+                    <h2 className="text-3xl font-extrabold text-amber-400">Brand Kits</h2>
+                    <p className="text-gray-400">Colors, voice and rules that every visual, caption and script for a brand should follow.</p>
+                    <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-amber-400 transition-colors">
+                        <CloseIcon className="w-8 h-8" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto custom-scrollbar">
+                    {draft ? (
+                        <div className="space-y-4">
+                            <h3 className="text-xl font-bold text-amber-300">{brandKits.some(kit => kit.id === draft.kit.id) ? 'Edit brand kit' : 'New brand kit'}</h3>
+                            <label className="block space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Brand name</span>
+                                <input value={draft.kit.name} onChange={(e) => updateKit({ name: e.target.value })} className={inputClasses} />
+                            </label>
+
+                            <div className="space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Logo</span>
+                                <div className="flex items-center gap-4">
+                                    {draft.kit.logo && (
+                                        <img src={storedImageUrl(draft.kit.logo)} alt="Brand logo" className="w-16 h-16 rounded-lg object-contain bg-gray-800 p-1" />
+                                    )}
+                                    <label className="cursor-pointer bg-gray-700 text-gray-200 font-bold py-1 px-3 rounded-lg hover:bg-gray-600 transition-colors text-sm">
+                                        {draft.kit.logo ? 'Replace' : 'Add logo'}
+                                        <input type="file" accept="image/png,image/jpeg,image/webp" className="sr-only" onChange={handleLogoSelect} />
+                                    </label>
+                                    {draft.kit.logo && (
+                                        <button onClick={() => updateKit({ logo: null })} className="text-sm text-gray-400 hover:text-red-400 transition-colors">Remove</button>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Color palette</span>
+                                <div className="flex flex-wrap items-center gap-2">
+                                    {draft.kit.palette.map((color, index) => (
+                                        <div key={index} className="flex items-center gap-1 bg-gray-800 rounded-lg p-1">
+                                            <input
+                                                type="color"
+                                                value={color}
+                                                onChange={(e) => updateKit({ palette: draft.kit.palette.map((c, i) => i === index ? e.target.value : c) })}
+                                                aria-label={`Brand color ${index + 1}`}
+                                                className="w-8 h-8 bg-transparent cursor-pointer"
+                                            />
+                                            <button
+                                                onClick={() => updateKit({ palette: draft.kit.palette.filter((_, i) => i !== index) })}
+                                                aria-label={`Remove color ${color}`}
+                                                className="text-gray-500 hover:text-red-400 transition-colors"
+                                            >
+                                                <CloseIcon className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                    {draft.kit.palette.length < MAX_PALETTE_COLORS && (
+                                        <button
+                                            onClick={() => updateKit({ palette: [...draft.kit.palette, '#c8a24a'] })}
+                                            className="bg-gray-700 text-gray-200 font-bold py-1 px-3 rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                                        >
+                                            Add color
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            <label className="block space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Preferred backgrounds</span>
+                                <input
+                                    value={draft.kit.backgrounds}
+                                    onChange={(e) => updateKit({ backgrounds: e.target.value })}
+                                    placeholder="e.g. warm wood, linen, morning light in a kitchen"
+                                    className={inputClasses}
+                                />
+                            </label>
+                            <label className="block space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Tone of voice</span>
+                                <textarea
+                                    value={draft.kit.tone}
+                                    onChange={(e) => updateKit({ tone: e.target.value })}
+                                    rows={3}
+                                    placeholder="e.g. Warm and playful, never salesy. Short sentences, speaks to busy parents."
+                                    className={inputClasses}
+                                />
+                            </label>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <label className="block space-y-1">
+                                    <span className="text-sm font-semibold text-gray-300">Must-use phrases <span className="font-normal text-gray-500">(one per line)</span></span>
+                                    <textarea value={draft.mustUse} onChange={(e) => setDraft({ ...draft, mustUse: e.target.value })} rows={4} className={inputClasses} />
+                                </label>
+                                <label className="block space-y-1">
+                                    <span className="text-sm font-semibold text-gray-300">Forbidden phrases <span className="font-normal text-gray-500">(one per line)</span></span>
+                                    <textarea value={draft.forbidden} onChange={(e) => setDraft({ ...draft, forbidden: e.target.value })} rows={4} className={inputClasses} />
+                                </label>
+                            </div>
+                            <label className="block space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Default hashtags</span>
+                                <input
+                                    value={draft.hashtags}
+                                    onChange={(e) => setDraft({ ...draft, hashtags: e.target.value })}
+                                    placeholder="#yourbrand #madeinpr"
+                                    className={inputClasses}
+                                />
+                            </label>
+
+                            {error && <p className="text-sm text-red-300">{error}</p>}
+                            <div className="flex gap-3">
+                                <button onClick={saveDraft} className="bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out">
+                                    Save brand kit
+                                </button>
+                                <button onClick={() => setDraft(null)} className="bg-gray-700 text-gray-200 font-bold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors">
+                                    Cancel
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <>
+                            <button
+                                onClick={() => startEdit(createBrandKit())}
+                                className="bg-amber-500 text-gray-900 font-bold py-2 px-4 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out flex items-center gap-2"
+                            >
+                                <PlusIcon className="w-5 h-5" /> New brand kit
+                            </button>
+                            {brandKits.length === 0 ? (
+                                <p className="text-gray-400">No brand kits yet. Create one to keep every asset on-brand.</p>
+                            ) : (
+                                <ul className="space-y-2">
+                                    {brandKits.map(kit => (
+                                        <li key={kit.id} className="flex items-center gap-3 p-3 bg-gray-800/50 rounded-lg border border-gray-700">
+                                            {kit.logo
+                                                ? <img src={storedImageUrl(kit.logo)} alt="" className="w-10 h-10 rounded-md object-contain bg-gray-800" />
+                                                : <div className="w-10 h-10 rounded-md bg-gray-800" />}
+                                            <div className="flex-grow min-w-0">
+                                                <p className="font-semibold text-amber-300">{kit.name}</p>
+                                                <div className="flex items-center gap-1 mt-1">
+                                                    {kit.palette.map(color => (
+                                                        <span key={color} className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+                                                    ))}
+                                                    <span className="text-xs text-gray-400 truncate ml-1">{kit.tone}</span>
+                                                </div>
+                                            </div>
+                                            <button onClick={() => startEdit(kit)} title="Edit" aria-label={`Edit ${kit.name}`} className="p-1 text-gray-400 hover:text-amber-400 transition-colors">
+                                                <PencilIcon className="w-5 h-5" />
+                                            </button>
+                                            <button onClick={() => remove(kit)} title="Delete" aria-label={`Delete ${kit.name}`} className="p-1 text-gray-400 hover:text-red-400 transition-colors">
+                                                <TrashIcon className="w-5 h-5" />
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import type { BrandKit } from '../types';
+
+interface BrandKitSelectProps {
+    brandKits: BrandKit[];
+    selectedId: string | null;
+    onChange: (id: string | null) => void;
+    onManage: () => void;
+}
+
+export const BrandKitSelect: React.FC<BrandKitSelectProps> = ({ brandKits, selectedId, onChange, onManage }) => {
+    const selected = brandKits.find(kit => kit.id === selectedId);
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <label htmlFor="brand-kit" className="text-sm font-semibold text-gray-300">Brand kit</label>
+                <button onClick={onManage} className="text-xs text-amber-400 hover:text-amber-300 hover:underline transition-colors">
+                    Manage brands
+                </button>
+            </div>
+            <div className="flex items-center gap-2">
+                <select
+                    id="brand-kit"
+                    value={selected ? selected.id : ''}
+                    onChange={(e) => onChange(e.target.value || null)}
+                    className="flex-grow p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-300 text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                >
+                    <option value="">No brand kit</option>
+                    {brandKits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+                </select>
+                {selected && selected.palette.length > 0 && (
+                    <div className="flex -space-x-1 flex-shrink-0" aria-hidden="true">
+                        {selected.palette.map(color => (
+                            <span key={color} className="w-4 h-4 rounded-full border border-gray-900" style={{ backgroundColor: color }} />
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
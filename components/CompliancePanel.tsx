@@ -0,0 +1,136 @@
+import React from 'react';
+import type { ComplianceState, CopyPlatform } from '../types';
+import { COPY_PLATFORMS } from '../services/apiTypes';
+import { ALL_PLATFORMS, categoryLabel, checkedPlatforms, highlightSegments, isReviewCurrent, itemIssues, type ComplianceItem } from '../services/compliance';
+import { Loader } from './Loader';
+
+interface CompliancePanelProps {
+    items: ComplianceItem[];
+    compliance: ComplianceState;
+    onChangePlatforms: (platforms: CopyPlatform[] | null) => void;
+    onChangeAutoReview: (autoReview: boolean) => void;
+    // Sends the items for a model review, which also writes rewrites for flagged ones.
+    onReview: (items: ComplianceItem[]) => void;
+    onApplyRewrite: (key: string, text: string) => void;
+}
+
+const optionClasses = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-full border transition-colors ${active ? 'bg-amber-500 border-amber-500 text-gray-900 font-semibold' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-500/50'}`;
+
+export const CompliancePanel: React.FC<CompliancePanelProps> = ({ items, compliance, onChangePlatforms, onChangeAutoReview, onReview, onApplyRewrite }) => {
+    const platforms = checkedPlatforms(compliance);
+
+    const togglePlatform = (platform: CopyPlatform) => {
+        const next = platforms.includes(platform) ? platforms.filter(current => current !== platform) : [...platforms, platform];
+        if (next.length === 0) return;
+        onChangePlatforms(next.length === ALL_PLATFORMS.length ? null : ALL_PLATFORMS.filter(current => next.includes(current)));
+    };
+
+    const checked = items.map(item => {
+        const review = compliance.reviews[item.key];
+        const current = isReviewCurrent(review, item.text) ? review : undefined;
+        return { item, review, current, issues: itemIssues(item.text, platforms, review) };
+    });
+    // Clean items are left out unless their review is still running or failed.
+    const shown = checked.filter(({ issues, current }) => issues.length > 0 || current?.status === 'pending' || current?.status === 'failed');
+    const flaggedCount = checked.filter(({ issues }) => issues.some(issue => issue.source === 'review')).length;
+    const possibleCount = checked.filter(({ issues }) => issues.some(issue => issue.source === 'rules')).length;
+    const toReview = checked.filter(({ current }) => !current || current.status === 'failed').map(({ item }) => item);
+    const isReviewing = checked.some(({ current }) => current?.status === 'pending');
+
+    return (
+        <div className="space-y-4 text-gray-300">
+            <div className="flex flex-wrap gap-2" aria-label="Platforms to check against">
+                {ALL_PLATFORMS.map(platform => (
+                    <button key={platform} onClick={() => togglePlatform(platform)} aria-pressed={platforms.includes(platform)} className={optionClasses(platforms.includes(platform))}>
+                        {COPY_PLATFORMS[platform].label}
+                    </button>
+                ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="checkbox" checked={compliance.autoReview} onChange={(e) => onChangeAutoReview(e.target.checked)} className="accent-amber-500" />
+                Also review new copy and scripts with AI as they're written
+            </label>
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className={`text-sm ${flaggedCount > 0 ? 'text-red-300' : possibleCount > 0 ? 'text-amber-300' : 'text-green-300'}`}>
+                    {flaggedCount + possibleCount === 0
+                        ? `No problems found in ${items.length} pieces of copy.`
+                        : [
+                            flaggedCount > 0 && `${flaggedCount} of ${items.length} pieces of copy could get an ad rejected.`,
+                            possibleCount > 0 && `${possibleCount} ${possibleCount === 1 ? 'has' : 'have'} possible problems the AI review hasn't checked yet.`,
+                        ].filter(Boolean).join(' ')}
+                </p>
+                <button
+                    onClick={() => onReview(toReview)}
+                    disabled={toReview.length === 0 || isReviewing}
+                    title={toReview.length === 0 ? 'Everything has been reviewed' : undefined}
+                    className="bg-gray-700 text-gray-200 font-bold py-1 px-4 rounded-lg hover:bg-gray-600 transition-colors text-sm disabled:opacity-50"
+                >
+                    {isReviewing ? 'Reviewing...' : `Review ${toReview.length === items.length ? 'all' : toReview.length} with AI`}
+                </button>
+            </div>
+
+            {shown.map(({ item, review, current, issues }) => {
+                const isConfirmed = issues.some(issue => issue.source === 'review');
+                return (
+                    <div key={item.key} className={`p-3 bg-gray-800/50 rounded-lg border-l-4 space-y-2 ${isConfirmed ? 'border-red-500' : 'border-amber-500'}`}>
+                        <p className="text-xs font-semibold text-amber-400">{item.label}</p>
+                        <p className="text-sm whitespace-pre-wrap">
+                            {highlightSegments(item.text, issues).map((segment, i) => segment.flagged
+                                ? <mark key={i} className={`rounded px-0.5 ${isConfirmed ? 'bg-red-500/30 text-red-200' : 'bg-amber-500/30 text-amber-200'}`}>{segment.text}</mark>
+                                : <React.Fragment key={i}>{segment.text}</React.Fragment>)}
+                        </p>
+                        {issues.length > 0 && (
+                            <ul className="space-y-1 text-xs">
+                                {issues.map((issue, i) => (
+                                    <li key={i}>
+                                        <span className={`font-semibold ${issue.source === 'review' ? 'text-red-300' : 'text-amber-300'}`}>{issue.source === 'rules' ? `Possible ${categoryLabel(issue.category).toLowerCase()}` : categoryLabel(issue.category)}</span>
+                                        {!issue.span && <> "{issue.quote}"</>}: {issue.explanation}
+                                        <span className="text-gray-500"> · {issue.source === 'rules' ? `${issue.platforms.map(platform => COPY_PLATFORMS[platform].label).join(', ')} rules` : 'AI review'}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {review && !current && <p className="text-xs text-amber-300">Changed since it was reviewed.</p>}
+
+                        {current?.status === 'pending' ? (
+                            <div className="flex items-center gap-3 text-gray-400 text-sm">
+                                <Loader small={true} />
+                                <p>Reviewing...</p>
+                            </div>
+                        ) : current?.status === 'failed' ? (
+                            <div className="flex items-center gap-3">
+                                <p className="text-sm text-red-300">{current.error || 'Something went wrong.'}</p>
+                                <button
+                                    onClick={() => onReview([item])}
+                                    className="flex-shrink-0 bg-amber-500 text-gray-900 font-bold py-1 px-4 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out text-sm"
+                                >
+                                    Retry
+                                </button>
+                            </div>
+                        ) : current?.rewrite ? (
+                            <div className="p-2 bg-gray-900/60 rounded-lg border border-green-800 space-y-2">
+                                <p className="text-xs font-semibold text-green-300">Compliant rewrite</p>
+                                <p className="text-sm whitespace-pre-wrap">{current.rewrite}</p>
+                                <button
+                                    onClick={() => onApplyRewrite(item.key, current.rewrite!)}
+                                    className="bg-amber-500 text-gray-900 font-bold py-1 px-4 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out text-sm"
+                                >
+                                    Use rewrite
+                                </button>
+                            </div>
+                        ) : current?.status === 'succeeded' ? null : (
+                            <button
+                                onClick={() => onReview([item])}
+                                className="text-xs text-gray-400 hover:text-amber-400 transition-colors"
+                            >
+                                ✎ Suggest a compliant rewrite
+                            </button>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -1,5 +1,8 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { generateCookingSuggestions } from '../services/geminiService';
+import { ApiError } from '../services/apiClient';
+import { isAbortError } from '../services/requestRunner';
+import type { FieldError } from '../services/apiTypes';
 import type { Recipe, GroundingSource } from '../types';
 import { Loader } from './Loader';
 import { LinkIcon, ClockIcon, ChevronDownIcon } from './icons';
@@ -19,9 +22,14 @@ export const CulinaryAssistant: React.FC = () => {
     const [sources, setSources] = useState<GroundingSource[]>([]);
     const [isGenerating, setIsGenerating] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
     const [openRecipeIndex, setOpenRecipeIndex] = useState<number | null>(null);
     const [lastQuery, setLastQuery] = useState('');
     const seenRecipesRef = useRef<string[]>([]);
+    const requestControllerRef = useRef<AbortController | null>(null);
+
+    // Cancel any in-flight request when leaving the Culinary Corner.
+    useEffect(() => () => requestControllerRef.current?.abort(), []);
 
 
     const handleGenerate = async (queryOverride?: string) => {
@@ -33,23 +41,37 @@ export const CulinaryAssistant: React.FC = () => {
         }
         setLastQuery(currentQuery);
 
+        requestControllerRef.current?.abort();
+        const controller = new AbortController();
+        requestControllerRef.current = controller;
+
         setIsGenerating(true);
         setError(null);
+        setFieldErrors([]);
         setSuggestions([]);
         setSources([]);
         setOpenRecipeIndex(null);
         try {
-            const result = await generateCookingSuggestions(currentQuery, seenRecipesRef.current);
+            const result = await generateCookingSuggestions(currentQuery, seenRecipesRef.current, { signal: controller.signal });
             const newTitles = result.suggestions.map(s => s.title);
             seenRecipesRef.current.push(...newTitles);
 
             setSuggestions(result.suggestions);
             setSources(result.sources);
         } catch (err) {
+            if (isAbortError(err)) return;
             console.error("Recipe generation failed:", err);
-            setError("Sorry, I couldn't generate suggestions. The format from the AI was unexpected. Please try a different query.");
+            if (err instanceof ApiError && err.fieldErrors.length > 0) {
+                setError("Sorry, the recipes Rose found were incomplete, even after asking her to fix them. Please try again or rephrase your request.");
+                setFieldErrors(err.fieldErrors);
+            } else {
+                setError("Sorry, I couldn't generate suggestions. Please try a different query.");
+            }
         } finally {
-            setIsGenerating(false);
+            if (requestControllerRef.current === controller) {
+                requestControllerRef.current = null;
+                setIsGenerating(false);
+            }
         }
     };
     
@@ -99,6 +121,13 @@ export const CulinaryAssistant: React.FC = () => {
                 )}
                 
                 {error && <p className="text-center text-red-400">{error}</p>}
+                {fieldErrors.length > 0 && (
+                    <ul className="mt-3 max-w-xl mx-auto text-left text-sm text-red-300/80 list-disc list-inside space-y-1">
+                        {fieldErrors.map((fieldError, i) => (
+                            <li key={i}><code className="text-red-300">{fieldError.path}</code>: {fieldError.message}</li>
+                        ))}
+                    </ul>
+                )}
 
                 {suggestions.length > 0 && (
                     <div className="space-y-4 animate-fade-in">
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import {
+    EXPORT_PRESETS,
+    EXPORT_FORMATS,
+    renderExport,
+    downloadBlob,
+    exportFilename,
+    type ExportFormat,
+    type FitMode,
+} from '../services/imageExport';
+import { Loader } from './Loader';
+import { CloseIcon, DownloadIcon } from './icons';
+
+interface ExportDialogProps {
+    url: string;
+    // Used for the file name, e.g. the style of the variant.
+    name: string;
+    // Finished ads are already sized for their placement, so they open on "Original size".
+    initialPresetId?: string;
+    onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ url, name, initialPresetId = EXPORT_PRESETS[1].id, onClose }) => {
+    const [presetId, setPresetId] = useState(initialPresetId);
+    const [fit, setFit] = useState<FitMode>('crop');
+    const [format, setFormat] = useState<ExportFormat>('image/jpeg');
+    const [quality, setQuality] = useState(0.9);
+    const [preview, setPreview] = useState<{ blob: Blob; url: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const preset = EXPORT_PRESETS.find(candidate => candidate.id === presetId)!;
+
+    // Re-render on every change so the preview is exactly the file that will be downloaded.
+    useEffect(() => {
+        let cancelled = false;
+        let objectUrl: string | null = null;
+        setPreview(null);
+        setError(null);
+        renderExport(url, preset, { fit, format, quality })
+            .then(blob => {
+                if (cancelled) return;
+                objectUrl = URL.createObjectURL(blob);
+                setPreview({ blob, url: objectUrl });
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error("Export failed:", err);
+                setError(err instanceof Error ? err.message : "Couldn't export this image.");
+            });
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [url, preset, fit, format, quality]);
+
+    const handleDownload = () => {
+        if (!preview) return;
+        downloadBlob(preview.blob, exportFilename(name, preset, preview.blob.type));
+    };
+
+    const optionClasses = (active: boolean) =>
+        `px-3 py-1 text-sm rounded-full border transition-colors ${active ? 'bg-amber-500 border-amber-500 text-gray-900 font-semibold' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-500/50'}`;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex justify-center items-center p-4 animate-fade-in"
+            onClick={onClose}
+        >
+            <div
+                className="bg-gray-900 border border-amber-500/20 rounded-2xl shadow-2xl shadow-black/50 max-w-4xl w-full max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="sticky top-0 bg-gray-900/80 backdrop-blur-md p-6 z-10 border-b border-gray-700 flex-shrink-0">
+                    <h2 className="text-3xl font-extrabold text-amber-400">Export</h2>
+                    <p className="text-gray-400">Size and format "{name}" for the platform you're posting to.</p>
+                    <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-amber-400 transition-colors">
+                        <CloseIcon className="w-8 h-8" />
+                    </button>
+                </div>
+
+                <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6 overflow-y-auto custom-scrollbar">
+                    <div className="space-y-5">
+                        <div className="space-y-2">
+                            <h3 className="text-sm font-semibold text-gray-300">Preset</h3>
+                            <div className="grid grid-cols-1 gap-1">
+                                {EXPORT_PRESETS.map(candidate => (
+                                    <button
+                                        key={candidate.id}
+                                        onClick={() => setPresetId(candidate.id)}
+                                        aria-pressed={candidate.id === presetId}
+                                        className={`flex justify-between items-center px-3 py-2 rounded-lg border text-left text-sm transition-colors ${candidate.id === presetId ? 'bg-amber-500/10 border-amber-400 text-amber-200' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-500/50'}`}
+                                    >
+                                        <span><span className="text-gray-500">{candidate.platform} ·</span> {candidate.label}</span>
+                                        {candidate.width && <span className="text-xs text-gray-500">{candidate.width}×{candidate.height}</span>}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {preset.width && (
+                            <div className="space-y-2">
+                                <h3 className="text-sm font-semibold text-gray-300">Fit</h3>
+                                <div className="flex gap-2">
+                                    <button onClick={() => setFit('crop')} aria-pressed={fit === 'crop'} className={optionClasses(fit === 'crop')}>Crop to fill</button>
+                                    <button onClick={() => setFit('pad')} aria-pressed={fit === 'pad'} className={optionClasses(fit === 'pad')}>Pad to fit</button>
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                    {fit === 'crop' ? 'Keeps the product in frame and trims the background.' : 'Shows the whole image and fills the edges with a matching color.'}
+                                </p>
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            <h3 className="text-sm font-semibold text-gray-300">Format</h3>
+                            <div className="flex gap-2">
+                                {EXPORT_FORMATS.map(entry => (
+                                    <button key={entry.format} onClick={() => setFormat(entry.format)} aria-pressed={format === entry.format} className={optionClasses(format === entry.format)}>
+                                        {entry.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {format !== 'image/png' && (
+                                <label className="flex items-center gap-3 text-sm text-gray-400">
+                                    Quality
+                                    <input
+                                        type="range"
+                                        min={0.5}
+                                        max={1}
+                                        step={0.05}
+                                        value={quality}
+                                        onChange={(e) => setQuality(Number(e.target.value))}
+                                        className="flex-grow accent-amber-500"
+                                    />
+                                    <span className="w-10 text-right">{Math.round(quality * 100)}%</span>
+                                </label>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-center min-h-[16rem] bg-gray-800/60 rounded-lg p-2 bg-[repeating-conic-gradient(#1f2937_0%_25%,#111827_0%_50%)] bg-[length:16px_16px]">
+                            {preview
+                                ? <img src={preview.url} alt="Export preview" className="max-h-[50vh] w-auto rounded" />
+                                : error ? <p className="text-sm text-red-300 text-center">{error}</p> : <Loader />}
+                        </div>
+                        {preview && (
+                            <p className="text-xs text-gray-500 text-center">
+                                {exportFilename(name, preset, preview.blob.type)} · {(preview.blob.size / 1024).toFixed(0)} KB
+                                {preview.blob.type !== format && ' · this browser saved it as PNG instead'}
+                            </p>
+                        )}
+                        <button
+                            onClick={handleDownload}
+                            disabled={!preview}
+                            className="w-full bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out flex items-center justify-center gap-2 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                        >
+                            <DownloadIcon className="w-5 h-5" /> Download
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
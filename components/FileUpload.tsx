@@ -1,17 +1,26 @@
 import React, { useCallback, useState } from 'react';
 import { UploadIcon } from './icons';
+import { Loader } from './Loader';
+import { UPLOAD_MAX_DIMENSIONS } from '../services/imageUtils';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
+  // True while PDFs are being rasterized.
+  isProcessing?: boolean;
+  error?: string | null;
+  // Longest side photos are scaled down to before upload.
+  maxDimension: number;
+  onMaxDimensionChange: (maxDimension: number) => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, isProcessing = false, error, maxDimension, onMaxDimensionChange }) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onFileSelect(e.target.files[0]);
+      onFilesSelect(Array.from(e.target.files));
     }
+    e.target.value = '';
   };
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
@@ -19,9 +28,9 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
     e.stopPropagation();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      onFileSelect(e.dataTransfer.files[0]);
+      onFilesSelect(Array.from(e.dataTransfer.files));
     }
-  }, [onFileSelect]);
+  }, [onFilesSelect]);
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -42,7 +51,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
 
   return (
     <div className="mt-8 text-left">
-        <label className="text-lg font-semibold text-gray-300">2. Upload your product image</label>
+        <label className="text-lg font-semibold text-gray-300">2. Upload your product images</label>
         <div 
           onDrop={handleDrop}
           onDragOver={handleDragOver}
@@ -54,20 +63,40 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
                 type="file"
                 id="file-upload"
                 className="hidden"
-                accept="image/jpeg, image/png, application/pdf"
+                accept="image/jpeg, image/png, image/webp, image/heic, image/heif, .heic, .heif, application/pdf"
+                multiple
+                disabled={isProcessing}
                 onChange={handleFileChange}
             />
             <label htmlFor="file-upload" className="cursor-pointer flex flex-col items-center">
                 <UploadIcon className={`w-12 h-12 transition-colors duration-300 ${isDragging ? 'text-amber-400' : 'text-gray-500'}`} />
                 <span className="mt-4 text-lg font-semibold text-gray-300">
-                    Drag & drop your file here
+                    Drag & drop your files here
                 </span>
                 <span className="text-gray-500">or</span>
                 <span className="mt-1 font-bold text-amber-400 hover:text-amber-300">
                     Browse files
                 </span>
-                <p className="mt-4 text-xs text-gray-500">Supports: JPEG, PNG. PDF support is limited.</p>
+                <p className="mt-4 text-xs text-gray-500">Supports: JPEG, PNG, HEIC and PDF. Add several angles of the same product; each PDF page becomes an image you can pick.</p>
             </label>
+            {isProcessing && (
+              <div className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-400">
+                <Loader small={true} /> Reading your files...
+              </div>
+            )}
+            {error && <p className="mt-4 text-sm text-red-300">{error}</p>}
+        </div>
+        <div className="mt-2 flex items-center justify-end gap-2 text-xs text-gray-500">
+            <label htmlFor="upload-max-dimension">Resize photos to at most</label>
+            <select
+              id="upload-max-dimension"
+              value={maxDimension}
+              onChange={(e) => onMaxDimensionChange(Number(e.target.value))}
+              className="p-1 bg-gray-800 border border-gray-700 rounded text-gray-300"
+            >
+              {UPLOAD_MAX_DIMENSIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+            </select>
+            <span>· location data is removed</span>
         </div>
     </div>
   );
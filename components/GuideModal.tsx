@@ -41,7 +41,7 @@ export const GuideModal: React.FC<GuideModalProps> = ({ onClose }) => {
             <GuideSection title="Section 1: Launching on TikTok">
                 <p>TikTok ads thrive on authentic, eye-catching content. The 'Cinematic' or 'Hyperreal' images are perfect for this platform.</p>
                 <Step num={1} title="Create a TikTok Video">
-                    Use a free mobile video editor (like CapCut or InShot) to create a simple slideshow video. Use all 3 generated images, lasting 3-4 seconds each. Add a trending, commercially-approved sound from TikTok's library.
+                    Click "Make Slideshow Video" under your video script to render a vertical video from your generated images, with captions and a voiceover. Then add a trending, commercially-approved sound from TikTok's library when you upload.
                 </Step>
                  <Step num={2} title="Set Up Your Ad in TikTok Ads Manager">
                     Choose the "Website Conversions" objective to drive sales. Upload your new video as the ad creative.
@@ -68,7 +68,7 @@ export const GuideModal: React.FC<GuideModalProps> = ({ onClose }) => {
                     <br/>- <strong>Carousel Ad:</strong> Upload all 3 generated images to showcase your product from different stylistic angles.
                 </Step>
                  <Step num={3} title="Write Your Primary Text">
-                    Use one of your generated <strong>Captions</strong>. You can be a bit more descriptive here than on TikTok. Use one of your <strong>Marketing Angles</strong> as inspiration for the Headline (e.g., "The Last Watch You'll Ever Need").
+                    Open the <strong>Facebook</strong> tab under <strong>Platform Copy</strong>: its primary text, headline and description are already cut to the lengths Meta shows without truncating. For Instagram, use that tab's caption and post its first comment right after.
                 </Step>
                 <Step num={4} title="Detailed Audience Targeting">
                     This is Meta's strength. Go to the "Ad Set" level and find the "Detailed Targeting" section. Add interests that your ideal customer would have. Think about magazines they read, brands they follow, or hobbies they enjoy.
@@ -83,7 +83,7 @@ export const GuideModal: React.FC<GuideModalProps> = ({ onClose }) => {
             
              <GuideSection title="Pro-Tips for Success">
                 <ul className="list-disc list-inside space-y-2 text-gray-300">
-                    <li><strong>A/B Test Everything:</strong> Don't assume you know what will work. Create a second ad that's slightly different (e.g., use a different caption or a different image) and see which one performs better.</li>
+                    <li><strong>A/B Test Everything:</strong> Don't assume you know what will work. Create a second ad that's slightly different (e.g., use a different caption or a different image) and see which one performs better. The A/B Tests card plans the pairings, exports them and tells you when a winner is clear.</li>
                     <li><strong>Your Landing Page Matters:</strong> A great ad can get clicks, but a great product page gets sales. Make sure your website is fast, easy to navigate, and has a clear 'Add to Cart' button.</li>
                     <li><strong>Patience is Key:</strong> You will rarely find a winning product on your first try. The key is to test, learn, and iterate. This tool gives you the creative assets to test faster than anyone else. Good luck!</li>
                 </ul>
@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import type { CopyPlatform, HashtagBucket, HashtagEntry, HashtagSet, HashtagWorkspace as Workspace } from '../types';
+import { COPY_PLATFORMS, HASHTAG_BUCKETS, MAX_RESEARCH_HASHTAGS } from '../services/apiTypes';
+import { HASHTAG_LIMITS, normalizeHashtag, rankTags, tagsFor, withNewTags, withSet } from '../services/hashtags';
+import { Loader } from './Loader';
+import { CloseIcon, DuplicateIcon } from './icons';
+
+interface HashtagWorkspaceProps {
+    workspace: Workspace;
+    onChange: (tags: HashtagEntry[]) => void;
+    // Scores every tag with live search data.
+    onResearch: () => void;
+    sets: HashtagSet[];
+    onChangeSets: (sets: HashtagSet[]) => void;
+}
+
+const PLATFORMS = Object.keys(COPY_PLATFORMS) as CopyPlatform[];
+
+const POPULARITY_CLASSES = {
+    high: 'bg-green-900/50 text-green-300',
+    medium: 'bg-amber-900/50 text-amber-300',
+    low: 'bg-gray-700 text-gray-400',
+};
+
+const inputClasses = "p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300 text-sm";
+
+export const HashtagWorkspace: React.FC<HashtagWorkspaceProps> = ({ workspace, onChange, onResearch, sets, onChangeSets }) => {
+    const [platform, setPlatform] = useState<CopyPlatform>('tiktok');
+    const [newTag, setNewTag] = useState('');
+    const [newBucket, setNewBucket] = useState<HashtagBucket>('niche');
+    const [setName, setSetName] = useState('');
+    const [isCopied, setIsCopied] = useState(false);
+
+    const { tags, research } = workspace;
+    const limit = HASHTAG_LIMITS[platform];
+    const posted = tagsFor(tags, platform);
+    const lockedCount = tags.filter(entry => entry.locked).length;
+    const isResearching = research?.status === 'pending';
+
+    const updateTag = (tag: string, changes: Partial<HashtagEntry>) =>
+        onChange(tags.map(entry => entry.tag === tag ? { ...entry, ...changes } : entry));
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const tag = normalizeHashtag(newTag);
+        if (!tag) return;
+        onChange(withNewTags(tags, [tag], null, newBucket));
+        setNewTag('');
+    };
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(posted.join(' ')).then(() => {
+            setIsCopied(true);
+            setTimeout(() => setIsCopied(false), 2000);
+        });
+    };
+
+    const handleSaveSet = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = setName.trim();
+        if (!name || tags.length === 0) return;
+        const saved = { name, tags: rankTags(tags).map(({ tag, bucket }) => ({ tag, bucket })) };
+        const existing = sets.find(set => set.name.toLowerCase() === name.toLowerCase());
+        if (existing && !window.confirm(`Replace your "${existing.name}" set with these ${tags.length} tags?`)) return;
+        onChangeSets(existing
+            ? sets.map(set => set.id === existing.id ? { ...set, ...saved } : set)
+            : [...sets, { id: `hashtags-${crypto.randomUUID()}`, ...saved }]);
+        setSetName('');
+    };
+
+    const handleDeleteSet = (set: HashtagSet) => {
+        if (!window.confirm(`Delete the "${set.name}" hashtag set?`)) return;
+        onChangeSets(sets.filter(candidate => candidate.id !== set.id));
+    };
+
+    return (
+        <div className="space-y-6 text-gray-300">
+            <div className="space-y-3">
+                <div role="tablist" aria-label="Platform" className="flex flex-wrap gap-2">
+                    {PLATFORMS.map(id => (
+                        <button
+                            key={id}
+                            role="tab"
+                            aria-selected={platform === id}
+                            onClick={() => setPlatform(id)}
+                            className={`px-3 py-1 text-sm rounded-full border transition-colors ${platform === id ? 'bg-amber-500 border-amber-500 text-gray-900 font-semibold' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-500/50'}`}
+                        >
+                            {COPY_PLATFORMS[id].label}
+                        </button>
+                    ))}
+                </div>
+                <div className="p-3 bg-gray-900/60 rounded-lg border border-gray-700 space-y-2">
+                    <div className="flex items-center justify-between gap-3">
+                        <p className="text-xs text-gray-400">
+                            {posted.length}/{limit} tags for {COPY_PLATFORMS[platform].label}
+                            {tags.length > limit && `; ${tags.length - limit} more won't fit`}
+                        </p>
+                        <button
+                            onClick={handleCopy}
+                            disabled={posted.length === 0}
+                            className="flex items-center gap-1 text-xs text-gray-400 hover:text-amber-400 transition-colors disabled:opacity-40"
+                        >
+                            <DuplicateIcon className="w-4 h-4" />
+                            {isCopied ? 'Copied!' : 'Copy'}
+                        </button>
+                    </div>
+                    <p className="text-sm text-amber-300 break-words">{posted.join(' ') || 'No tags yet.'}</p>
+                    {lockedCount > limit && (
+                        <p className="text-xs text-red-300">
+                            You've locked {lockedCount} tags but {COPY_PLATFORMS[platform].label} takes {limit}; only the first {limit} are used.
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {HASHTAG_BUCKETS.map(bucket => {
+                    const entries = tags.filter(entry => entry.bucket === bucket.id);
+                    return (
+                        <div key={bucket.id} className="space-y-2">
+                            <div>
+                                <h4 className="font-bold text-amber-400">{bucket.label} <span className="text-xs font-normal text-gray-500">({entries.length})</span></h4>
+                                <p className="text-xs text-gray-500">{bucket.description}</p>
+                            </div>
+                            {entries.map(entry => (
+                                <div
+                                    key={entry.tag}
+                                    className={`p-2 rounded-lg border text-sm space-y-1 ${entry.locked ? 'border-amber-500/60 bg-amber-500/5' : 'border-gray-700 bg-gray-800/50'} ${posted.includes(entry.tag) ? '' : 'opacity-60'}`}
+                                >
+                                    <div className="flex items-center gap-2">
+                                        <span className="flex-grow font-semibold text-amber-300 break-all">{entry.tag}</span>
+                                        {entry.popularity && (
+                                            <span className={`px-2 text-[10px] font-semibold uppercase rounded-full ${POPULARITY_CLASSES[entry.popularity]}`}>{entry.popularity}</span>
+                                        )}
+                                        <button
+                                            onClick={() => updateTag(entry.tag, { locked: !entry.locked })}
+                                            aria-pressed={entry.locked}
+                                            aria-label={`${entry.locked ? 'Unlock' : 'Lock'} ${entry.tag}`}
+                                            title={entry.locked ? 'Unlock' : 'Lock: always post it and keep it for the next run'}
+                                            className="text-xs"
+                                        >
+                                            {entry.locked ? '🔒' : '🔓'}
+                                        </button>
+                                        <button
+                                            onClick={() => onChange(tags.filter(candidate => candidate.tag !== entry.tag))}
+                                            aria-label={`Remove ${entry.tag}`}
+                                            title="Remove"
+                                            className="text-gray-500 hover:text-red-400 transition-colors"
+                                        >
+                                            <CloseIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    {entry.rationale && <p className="text-xs text-gray-400">{entry.rationale}</p>}
+                                    <select
+                                        value={entry.bucket}
+                                        onChange={(e) => updateTag(entry.tag, { bucket: e.target.value as HashtagBucket })}
+                                        aria-label={`Bucket for ${entry.tag}`}
+                                        className="bg-transparent text-xs text-gray-500 focus:outline-none"
+                                    >
+                                        {HASHTAG_BUCKETS.map(option => <option key={option.id} value={option.id}>Move to {option.label.toLowerCase()}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+                <input
+                    type="text"
+                    value={newTag}
+                    onChange={(e) => setNewTag(e.target.value)}
+                    placeholder="#addatag"
+                    aria-label="New hashtag"
+                    className={`${inputClasses} flex-grow`}
+                />
+                <select value={newBucket} onChange={(e) => setNewBucket(e.target.value as HashtagBucket)} aria-label="Bucket for the new hashtag" className={inputClasses}>
+                    {HASHTAG_BUCKETS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                </select>
+                <button
+                    type="submit"
+                    disabled={!normalizeHashtag(newTag)}
+                    className="bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                >
+                    Add
+                </button>
+            </form>
+
+            <div className="space-y-2 pt-4 border-t border-gray-700">
+                <div className="flex flex-wrap items-center gap-3">
+                    <button
+                        onClick={onResearch}
+                        disabled={isResearching || tags.length === 0 || tags.length > MAX_RESEARCH_HASHTAGS}
+                        className="bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                        {isResearching ? <Loader small={true} /> : '🔎 Research tags'}
+                    </button>
+                    <p className="text-xs text-gray-500">
+                        {tags.length > MAX_RESEARCH_HASHTAGS
+                            ? `Remove some tags first; research takes up to ${MAX_RESEARCH_HASHTAGS} at a time.`
+                            : 'Searches the web to estimate how popular each tag is, sort it into a bucket and explain the fit.'}
+                    </p>
+                </div>
+                {research?.status === 'failed' && <p className="text-sm text-red-300">{research.error || 'Something went wrong.'}</p>}
+                {research && research.sources.length > 0 && (
+                    <ul className="flex flex-wrap gap-x-4 gap-y-1">
+                        {research.sources.map((source, index) => (
+                            <li key={index}>
+                                <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-xs text-amber-400 hover:text-amber-300 hover:underline">
+                                    {source.title || source.uri}
+                                </a>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="space-y-3 pt-4 border-t border-gray-700">
+                <h4 className="font-bold text-amber-400">Saved sets</h4>
+                {sets.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                        {sets.map(set => (
+                            <div key={set.id} className="flex items-center rounded-full border border-gray-700 bg-gray-800 text-sm">
+                                <button
+                                    onClick={() => onChange(withSet(tags, set))}
+                                    title={set.tags.map(({ tag }) => tag).join(' ')}
+                                    className="pl-3 pr-1 py-1 text-gray-300 hover:text-amber-400 transition-colors"
+                                >
+                                    + {set.name} <span className="text-xs text-gray-500">({set.tags.length})</span>
+                                </button>
+                                <button
+                                    onClick={() => handleDeleteSet(set)}
+                                    aria-label={`Delete the ${set.name} set`}
+                                    title="Delete set"
+                                    className="pr-2 py-1 text-gray-500 hover:text-red-400 transition-colors"
+                                >
+                                    <CloseIcon className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-xs text-gray-500">Save tags you use often, like your brand and evergreen niche tags, to add them to any project.</p>
+                )}
+                <form onSubmit={handleSaveSet} className="flex gap-2">
+                    <input
+                        type="text"
+                        value={setName}
+                        onChange={(e) => setSetName(e.target.value)}
+                        placeholder="Set name, e.g. Evergreen"
+                        aria-label="Name for the hashtag set"
+                        className={`${inputClasses} flex-grow`}
+                    />
+                    <button
+                        type="submit"
+                        disabled={!setName.trim() || tags.length === 0}
+                        className="bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                    >
+                        Save these {tags.length} tags
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+};
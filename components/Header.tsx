@@ -2,8 +2,8 @@ import React from 'react';
 
 interface HeaderProps {
     onSwitchUser: () => void;
-    activeView: 'creative' | 'culinary';
-    setActiveView: (view: 'creative' | 'culinary') => void;
+    activeView: 'creative' | 'projects' | 'culinary';
+    setActiveView: (view: 'creative' | 'projects' | 'culinary') => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({ onSwitchUser, activeView, setActiveView }) => {
@@ -27,6 +27,7 @@ export const Header: React.FC<HeaderProps> = ({ onSwitchUser, activeView, setAct
           <div className="flex items-center gap-4">
               <div className="flex items-center bg-gray-800 rounded-full p-1">
                   <button onClick={() => setActiveView('creative')} className={`px-4 py-1 text-sm font-medium rounded-full transition-colors ${activeView === 'creative' ? 'bg-amber-500 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>Creative Suite</button>
+                  <button onClick={() => setActiveView('projects')} className={`px-4 py-1 text-sm font-medium rounded-full transition-colors ${activeView === 'projects' ? 'bg-amber-500 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>Projects</button>
                   <button onClick={() => setActiveView('culinary')} className={`px-4 py-1 text-sm font-medium rounded-full transition-colors ${activeView === 'culinary' ? 'bg-amber-500 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>Culinary Corner</button>
               </div>
               <button
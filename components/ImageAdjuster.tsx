@@ -0,0 +1,160 @@
+import React, { useRef, useState } from 'react';
+import type { ProductImage, StoredImage } from '../types';
+import { adjustImage, type CropRect } from '../services/imageUtils';
+import { storedImageUrl } from '../services/projectStore';
+import { Loader } from './Loader';
+import { CloseIcon } from './icons';
+
+interface ImageAdjusterProps {
+    image: ProductImage;
+    onApply: (adjusted: StoredImage) => void;
+    onClose: () => void;
+}
+
+// Crops smaller than this (as a fraction of either side) are treated as a stray click.
+const MIN_CROP = 0.02;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export const ImageAdjuster: React.FC<ImageAdjusterProps> = ({ image, onApply, onClose }) => {
+    // Rotation is applied straight away, so the crop is always drawn on an upright preview.
+    const [working, setWorking] = useState<StoredImage>(image);
+    const [crop, setCrop] = useState<CropRect | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+    const imageRef = useRef<HTMLImageElement>(null);
+
+    const pointFor = (e: React.PointerEvent) => {
+        const bounds = imageRef.current!.getBoundingClientRect();
+        return { x: clamp((e.clientX - bounds.left) / bounds.width), y: clamp((e.clientY - bounds.top) / bounds.height) };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (isBusy) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragStartRef.current = pointFor(e);
+        setCrop(null);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const start = dragStartRef.current;
+        if (!start) return;
+        const point = pointFor(e);
+        setCrop({
+            x: Math.min(start.x, point.x),
+            y: Math.min(start.y, point.y),
+            width: Math.abs(point.x - start.x),
+            height: Math.abs(point.y - start.y),
+        });
+    };
+
+    const handlePointerUp = () => {
+        dragStartRef.current = null;
+        setCrop(current => current && current.width >= MIN_CROP && current.height >= MIN_CROP ? current : null);
+    };
+
+    const run = async (work: () => Promise<void>) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await work();
+        } catch (err) {
+            console.error("Failed to adjust image:", err);
+            setError("Couldn't process this image. Try again.");
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const rotate = (rotation: 90 | 270) => run(async () => {
+        setWorking(await adjustImage(working, rotation));
+        setCrop(null);
+    });
+
+    const apply = () => run(async () => {
+        onApply(crop ? await adjustImage(working, 0, crop) : working);
+    });
+
+    const changed = crop !== null || working !== image;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex justify-center items-center p-4 animate-fade-in"
+            onClick={onClose}
+        >
+            <div
+                className="bg-gray-900 border border-amber-500/20 rounded-2xl shadow-2xl shadow-black/50 max-w-3xl w-full max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="sticky top-0 bg-gray-900/80 backdrop-blur-md p-6 z-10 border-b border-gray-700 flex-shrink-0">
+                    <h2 className="text-3xl font-extrabold text-amber-400">Crop & Rotate</h2>
+                    <p className="text-gray-400">Drag across the image to crop it to the product.</p>
+                    <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-amber-400 transition-colors">
+                        <CloseIcon className="w-8 h-8" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto custom-scrollbar">
+                    <div className="flex justify-center">
+                        <div
+                            className="relative inline-block overflow-hidden rounded-lg select-none touch-none cursor-crosshair"
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                        >
+                            <img ref={imageRef} src={storedImageUrl(working)} alt={image.name} draggable={false} className="block max-h-[55vh] w-auto" />
+                            {crop && (
+                                <div
+                                    className="absolute border-2 border-amber-400 pointer-events-none"
+                                    style={{
+                                        left: `${crop.x * 100}%`,
+                                        top: `${crop.y * 100}%`,
+                                        width: `${crop.width * 100}%`,
+                                        height: `${crop.height * 100}%`,
+                                        boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+                                    }}
+                                />
+                            )}
+                            {isBusy && (
+                                <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+                                    <Loader />
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        <button onClick={() => rotate(270)} disabled={isBusy} className="bg-gray-700 text-gray-200 font-bold py-1 px-3 rounded-lg hover:bg-gray-600 transition-colors text-sm disabled:opacity-50">
+                            ↺ Rotate left
+                        </button>
+                        <button onClick={() => rotate(90)} disabled={isBusy} className="bg-gray-700 text-gray-200 font-bold py-1 px-3 rounded-lg hover:bg-gray-600 transition-colors text-sm disabled:opacity-50">
+                            ↻ Rotate right
+                        </button>
+                        <button
+                            onClick={() => { setWorking(image); setCrop(null); }}
+                            disabled={isBusy || !changed}
+                            className="text-sm text-gray-400 hover:text-amber-400 transition-colors disabled:opacity-50"
+                        >
+                            Reset
+                        </button>
+                    </div>
+
+                    {error && <p className="text-sm text-red-300">{error}</p>}
+                    <div className="flex gap-3">
+                        <button
+                            onClick={apply}
+                            disabled={isBusy || !changed}
+                            className="bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out disabled:bg-gray-600 disabled:cursor-not-allowed"
+                        >
+                            Apply
+                        </button>
+                        <button onClick={onClose} className="bg-gray-700 text-gray-200 font-bold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors">
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import type { AssetStatus, Localization, MarketingContent, PlatformCopyPacks, VideoScript, VoiceoverTake } from '../types';
+import { LOCALES, SOURCE_LOCALE } from '../services/apiTypes';
+import { isOutOfDate, localeLabel, localizedScript } from '../services/localization';
+import { Loader } from './Loader';
+import { PlatformCopyTabs } from './PlatformCopyTabs';
+import { VoiceoverStudio } from './VoiceoverStudio';
+import { CloseIcon } from './icons';
+
+interface LocalizationPanelProps {
+    localizations: Localization[];
+    // The source copy and the script being edited; each locale shows its translation of them.
+    marketingContent: MarketingContent | null;
+    activeScript: VideoScript | null;
+    onAddLocale: (locale: string) => void;
+    onRemoveLocale: (locale: string) => void;
+    onLocalizeMarketing: (locale: string) => void;
+    onLocalizeScript: (locale: string, scriptId: string) => void;
+    onChangePlatformCopy: (locale: string, packs: PlatformCopyPacks) => void;
+    onAddVoiceoverTake: (take: VoiceoverTake, locale: string) => void;
+    onChooseVoiceoverTake: (scene: number, takeId: string, locale: string) => void;
+    onDeleteVoiceoverTake: (takeId: string, locale: string) => void;
+    onRenderVideo: (locale: string) => void;
+    canRenderVideo: boolean;
+}
+
+const TARGET_LOCALES = LOCALES.filter(option => option.id !== SOURCE_LOCALE);
+
+const TranslationState: React.FC<{status: AssetStatus; error?: string; what: string; onRetry: () => void}> = ({ status, error, what, onRetry }) => (
+    status === 'pending' ? (
+        <div className="flex items-center gap-3 text-gray-400 text-sm">
+            <Loader small={true} />
+            <p>Translating the {what}...</p>
+        </div>
+    ) : status === 'failed' ? (
+        <div className="flex items-center gap-3">
+            <p className="text-sm text-red-300">{error || 'Something went wrong.'}</p>
+            <button
+                onClick={onRetry}
+                className="flex-shrink-0 bg-amber-500 text-gray-900 font-bold py-1 px-4 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out text-sm"
+            >
+                Retry
+            </button>
+        </div>
+    ) : null
+);
+
+export const LocalizationPanel: React.FC<LocalizationPanelProps> = ({ localizations, marketingContent, activeScript, onAddLocale, onRemoveLocale, onLocalizeMarketing, onLocalizeScript, onChangePlatformCopy, onAddVoiceoverTake, onChooseVoiceoverTake, onDeleteVoiceoverTake, onRenderVideo, canRenderVideo }) => {
+    const [selectedLocale, setSelectedLocale] = useState<string | null>(null);
+    const [isVoiceoverVisible, setIsVoiceoverVisible] = useState(false);
+
+    const localization = localizations.find(candidate => candidate.locale === selectedLocale) ?? localizations[0] ?? null;
+    const available = TARGET_LOCALES.filter(option => !localizations.some(candidate => candidate.locale === option.id));
+
+    const handleAdd = (locale: string) => {
+        if (!locale) return;
+        onAddLocale(locale);
+        setSelectedLocale(locale);
+    };
+
+    const handleRemove = (locale: string) => {
+        if (!window.confirm(`Remove ${localeLabel(locale)} along with its translations and voiceover takes?`)) return;
+        onRemoveLocale(locale);
+    };
+
+    const marketing = localization?.marketing ?? null;
+    const scriptTranslation = localization && activeScript ? localization.scripts[activeScript.id] : undefined;
+    const script = activeScript && scriptTranslation?.voiceovers ? localizedScript(activeScript, scriptTranslation) : null;
+
+    return (
+        <div className="space-y-4 text-gray-300">
+            <div className="flex flex-wrap items-center gap-2">
+                <div role="tablist" aria-label="Language" className="flex flex-wrap gap-2">
+                    {localizations.map(({ locale }) => (
+                        <div
+                            key={locale}
+                            className={`flex items-center rounded-full border transition-colors ${locale === localization?.locale ? 'bg-amber-500 border-amber-500 text-gray-900 font-semibold' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-500/50'}`}
+                        >
+                            <button
+                                role="tab"
+                                aria-selected={locale === localization?.locale}
+                                onClick={() => setSelectedLocale(locale)}
+                                title={localeLabel(locale)}
+                                className="pl-3 pr-1 py-1 text-sm"
+                            >
+                                {locale}
+                            </button>
+                            <button
+                                onClick={() => handleRemove(locale)}
+                                aria-label={`Remove ${localeLabel(locale)}`}
+                                title="Remove language"
+                                className="pr-2 py-1 opacity-60 hover:opacity-100"
+                            >
+                                <CloseIcon className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                {available.length > 0 && (
+                    <select
+                        value=""
+                        onChange={(e) => handleAdd(e.target.value)}
+                        aria-label="Add a language"
+                        className="p-1 bg-gray-800 border border-gray-700 rounded-lg text-gray-300 text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                    >
+                        <option value="">+ Add language</option>
+                        {available.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                    </select>
+                )}
+            </div>
+
+            {!localization ? (
+                <p className="text-gray-400">
+                    Everything is written in {localeLabel(SOURCE_LOCALE)}. Add a language to get the captions, hashtags, post ideas and video scripts transcreated for another market, like Puerto Rico or Mexico.
+                </p>
+            ) : (
+                <div role="tabpanel" className="space-y-6">
+                    <section className="space-y-3">
+                        <div className="flex items-center justify-between gap-3">
+                            <h4 className="font-bold text-amber-400">Copy</h4>
+                            {marketing?.content && marketingContent && (
+                                <button
+                                    onClick={() => onLocalizeMarketing(localization.locale)}
+                                    disabled={marketing.status === 'pending'}
+                                    className="text-xs text-gray-400 hover:text-amber-400 transition-colors disabled:opacity-40"
+                                >
+                                    ↻ Translate again
+                                </button>
+                            )}
+                        </div>
+                        {!marketingContent && !marketing?.content && (
+                            <p className="text-sm text-gray-500">The copy is translated once it's written.</p>
+                        )}
+                        {marketing && (
+                            <TranslationState status={marketing.status} error={marketing.error} what="copy" onRetry={() => onLocalizeMarketing(localization.locale)} />
+                        )}
+                        {marketing?.content && (
+                            <div className="space-y-4">
+                                <ul className="list-disc list-inside space-y-1 text-sm">
+                                    {marketing.content.postIdeas.map((idea, i) => <li key={i}>{idea}</li>)}
+                                </ul>
+                                <div className="space-y-2">
+                                    {marketing.content.captions.map((caption, i) => (
+                                        <p key={i} className="p-3 bg-gray-800/50 rounded-lg border-l-4 border-amber-500 text-sm">{caption}</p>
+                                    ))}
+                                </div>
+                                <div className="flex flex-wrap gap-2">
+                                    {marketing.content.hashtags.map((tag, i) => (
+                                        <span key={i} className="px-3 py-1 bg-gray-700 text-amber-300 text-sm rounded-full">{tag}</span>
+                                    ))}
+                                </div>
+                                {marketing.content.platforms && (
+                                    <PlatformCopyTabs packs={marketing.content.platforms} onChange={packs => onChangePlatformCopy(localization.locale, packs)} />
+                                )}
+                            </div>
+                        )}
+                    </section>
+
+                    <section className="space-y-3 pt-4 border-t border-gray-700">
+                        <div className="flex items-center justify-between gap-3">
+                            <h4 className="font-bold text-amber-400">Script{script && `: ${script.title}`}</h4>
+                            {script && activeScript && (
+                                <button
+                                    onClick={() => onLocalizeScript(localization.locale, activeScript.id)}
+                                    disabled={scriptTranslation?.status === 'pending'}
+                                    className="text-xs text-gray-400 hover:text-amber-400 transition-colors disabled:opacity-40"
+                                >
+                                    ↻ Translate again
+                                </button>
+                            )}
+                        </div>
+                        {!activeScript && <p className="text-sm text-gray-500">Scripts are translated as they're written.</p>}
+                        {activeScript && isOutOfDate(activeScript, scriptTranslation) && (
+                            <p className="text-xs text-amber-300">The script has changed since it was translated.</p>
+                        )}
+                        {activeScript && scriptTranslation && (
+                            <TranslationState status={scriptTranslation.status} error={scriptTranslation.error} what="script" onRetry={() => onLocalizeScript(localization.locale, activeScript.id)} />
+                        )}
+                        {script && (
+                            <>
+                                <ol className="space-y-2">
+                                    {script.scenes.map((scene, i) => (
+                                        <li key={scene.scene} className="p-3 bg-gray-800/50 rounded-lg border-l-4 border-amber-500 text-sm">
+                                            <span className="font-semibold text-amber-400">Scene {i + 1}: </span>
+                                            <span className="italic">"{scene.voiceover}"</span>
+                                        </li>
+                                    ))}
+                                </ol>
+                                {isVoiceoverVisible && (
+                                    <VoiceoverStudio
+                                        key={localization.locale}
+                                        script={script}
+                                        voiceover={localization.voiceover}
+                                        locale={localization.locale}
+                                        onAddTake={take => onAddVoiceoverTake(take, localization.locale)}
+                                        onChooseTake={(scene, takeId) => onChooseVoiceoverTake(scene, takeId, localization.locale)}
+                                        onDeleteTake={takeId => onDeleteVoiceoverTake(takeId, localization.locale)}
+                                    />
+                                )}
+                                <div className="flex flex-col sm:flex-row flex-wrap gap-3">
+                                    <button
+                                        onClick={() => setIsVoiceoverVisible(visible => !visible)}
+                                        aria-expanded={isVoiceoverVisible}
+                                        className="w-full sm:w-auto bg-gray-700 text-gray-200 font-bold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors"
+                                    >
+                                        {isVoiceoverVisible ? 'Hide Voiceover Studio' : `🎙️ ${localization.locale} Voiceover`}
+                                    </button>
+                                    <button
+                                        onClick={() => onRenderVideo(localization.locale)}
+                                        disabled={!canRenderVideo}
+                                        className="w-full sm:w-auto bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out disabled:bg-gray-600 disabled:cursor-not-allowed"
+                                    >
+                                        🎞️ {localization.locale} Slideshow Video
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </section>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { CopyPlatform, PlatformCopyPacks } from '../types';
+import { COPY_PLATFORMS, type CopyFieldSpec } from '../services/apiTypes';
+import { DuplicateIcon } from './icons';
+
+interface PlatformCopyTabsProps {
+    packs: PlatformCopyPacks;
+    onChange: (packs: PlatformCopyPacks) => void;
+}
+
+const PLATFORMS = Object.keys(COPY_PLATFORMS) as CopyPlatform[];
+
+const fieldsOf = (platform: CopyPlatform) => Object.entries(COPY_PLATFORMS[platform].fields) as [string, CopyFieldSpec][];
+
+const valuesOf = (packs: PlatformCopyPacks, platform: CopyPlatform) => packs[platform] as Record<string, string>;
+
+const isOverLimit = (packs: PlatformCopyPacks, platform: CopyPlatform) =>
+    fieldsOf(platform).some(([field, spec]) => (valuesOf(packs, platform)[field] ?? '').length > spec.maxLength);
+
+// Cuts at the last word break inside the limit, unless that would drop most of the last line.
+const trimToLimit = (text: string, maxLength: number) => {
+    const cut = text.slice(0, maxLength);
+    const lastBreak = cut.search(/\s\S*$/);
+    return (lastBreak > maxLength * 0.8 ? cut.slice(0, lastBreak) : cut).trimEnd();
+};
+
+const inputClasses = "w-full p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300 text-sm";
+
+export const PlatformCopyTabs: React.FC<PlatformCopyTabsProps> = ({ packs, onChange }) => {
+    const [platform, setPlatform] = useState<CopyPlatform>('tiktok');
+    // The field whose text was just copied, as "platform.field".
+    const [copied, setCopied] = useState<string | null>(null);
+
+    const values = valuesOf(packs, platform);
+
+    const updateField = (field: string, text: string) =>
+        onChange({ ...packs, [platform]: { ...values, [field]: text } });
+
+    const copyField = (field: string) => {
+        const key = `${platform}.${field}`;
+        navigator.clipboard.writeText(values[field] ?? '').then(() => {
+            setCopied(key);
+            setTimeout(() => setCopied(current => current === key ? null : current), 2000);
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div role="tablist" aria-label="Platform" className="flex flex-wrap gap-2">
+                {PLATFORMS.map(id => (
+                    <button
+                        key={id}
+                        role="tab"
+                        aria-selected={platform === id}
+                        onClick={() => setPlatform(id)}
+                        className={`relative px-3 py-1 text-sm rounded-full border transition-colors ${platform === id ? 'bg-amber-500 border-amber-500 text-gray-900 font-semibold' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-500/50'}`}
+                    >
+                        {COPY_PLATFORMS[id].label}
+                        {isOverLimit(packs, id) && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-red-500" title="Over the character limit" />}
+                    </button>
+                ))}
+            </div>
+            <div role="tabpanel" className="space-y-4">
+                {fieldsOf(platform).map(([field, spec]) => {
+                    const text = values[field] ?? '';
+                    const isOver = text.length > spec.maxLength;
+                    return (
+                        <div key={field} className="space-y-1">
+                            <div className="flex items-center justify-between gap-3">
+                                <label htmlFor={`copy-${platform}-${field}`} className="text-xs font-semibold text-gray-400">{spec.label}</label>
+                                <div className="flex items-center gap-3">
+                                    <span className={`text-xs ${isOver ? 'text-red-300 font-semibold' : 'text-gray-500'}`}>
+                                        {text.length}/{spec.maxLength}
+                                    </span>
+                                    <button
+                                        onClick={() => copyField(field)}
+                                        aria-label={`Copy ${COPY_PLATFORMS[platform].label} ${spec.label.toLowerCase()}`}
+                                        title="Copy"
+                                        className="flex items-center gap-1 text-xs text-gray-400 hover:text-amber-400 transition-colors"
+                                    >
+                                        <DuplicateIcon className="w-4 h-4" />
+                                        {copied === `${platform}.${field}` && 'Copied!'}
+                                    </button>
+                                </div>
+                            </div>
+                            <textarea
+                                id={`copy-${platform}-${field}`}
+                                value={text}
+                                onChange={(e) => updateField(field, e.target.value)}
+                                rows={spec.maxLength > 200 ? 4 : 2}
+                                className={`${inputClasses} ${isOver ? 'border-red-500' : ''}`}
+                            />
+                            {isOver && (
+                                <div className="flex items-center justify-between gap-3">
+                                    <p className="text-xs text-red-300">
+                                        {text.length - spec.maxLength} characters over {COPY_PLATFORMS[platform].label}'s limit; it will be cut off.
+                                    </p>
+                                    <button
+                                        onClick={() => updateField(field, trimToLimit(text, spec.maxLength))}
+                                        className="flex-shrink-0 text-xs text-gray-400 hover:text-amber-400 transition-colors"
+                                    >
+                                        ✂ Trim to {spec.maxLength}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import type { ProductImage } from '../types';
+import { MAX_PRODUCT_IMAGES } from '../services/apiTypes';
+import { storedImageUrl } from '../services/projectStore';
+import { Loader } from './Loader';
+import { StarIcon, TrashIcon, PlusIcon, PencilIcon } from './icons';
+
+interface ProductImageTrayProps {
+    images: ProductImage[];
+    primaryId: string | null;
+    onSetPrimary: (id: string) => void;
+    onToggle: (id: string) => void;
+    onRemove: (id: string) => void;
+    // Opens crop & rotate for an image.
+    onAdjust: (id: string) => void;
+    onAddFiles: (files: File[]) => void;
+    isProcessing: boolean;
+    error: string | null;
+}
+
+export const ProductImageTray: React.FC<ProductImageTrayProps> = ({ images, primaryId, onSetPrimary, onToggle, onRemove, onAdjust, onAddFiles, isProcessing, error }) => {
+    const primary = images.find(image => image.id === primaryId) ?? null;
+    // The primary image always counts towards the limit.
+    const usedCount = images.filter(image => image.selected || image.id === primaryId).length;
+
+    const handleAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = '';
+        if (files.length > 0) onAddFiles(files);
+    };
+
+    return (
+        <div className="space-y-3">
+            {primary && (
+                <img src={storedImageUrl(primary)} alt="Primary product image" className="rounded-2xl w-full h-auto object-cover shadow-2xl shadow-black/50" />
+            )}
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-gray-300">Product images</span>
+                <span className="text-xs text-gray-500">{usedCount} of {MAX_PRODUCT_IMAGES} used</span>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+                {images.map(image => {
+                    const isPrimary = image.id === primaryId;
+                    const isUsed = isPrimary || image.selected;
+                    return (
+                        <div key={image.id} className="relative group">
+                            <button
+                                onClick={() => onToggle(image.id)}
+                                disabled={isPrimary || (!isUsed && usedCount >= MAX_PRODUCT_IMAGES)}
+                                aria-pressed={isUsed}
+                                aria-label={isUsed ? `Stop using ${image.name}` : `Use ${image.name}`}
+                                title={isPrimary ? 'Primary image' : isUsed ? 'Sent as an extra angle. Click to leave out.' : 'Click to send as an extra angle'}
+                                className={`block w-full rounded-md overflow-hidden border-2 transition-all disabled:cursor-default ${isPrimary ? 'border-amber-400' : isUsed ? 'border-amber-500/50' : 'border-transparent opacity-50 hover:opacity-80'}`}
+                            >
+                                <img src={storedImageUrl(image)} alt={image.name} className="w-full aspect-square object-cover" />
+                            </button>
+                            <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                                {!isPrimary && (
+                                    <button
+                                        onClick={() => onSetPrimary(image.id)}
+                                        aria-label={`Make ${image.name} the primary image`}
+                                        title="Make primary"
+                                        className="p-1 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-amber-500 transition-colors"
+                                    >
+                                        <StarIcon className="w-3 h-3" />
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => onAdjust(image.id)}
+                                    aria-label={`Crop or rotate ${image.name}`}
+                                    title="Crop & rotate"
+                                    className="p-1 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-amber-500 transition-colors"
+                                >
+                                    <PencilIcon className="w-3 h-3" />
+                                </button>
+                                <button
+                                    onClick={() => onRemove(image.id)}
+                                    aria-label={`Remove ${image.name}`}
+                                    title="Remove"
+                                    className="p-1 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-red-500 transition-colors"
+                                >
+                                    <TrashIcon className="w-3 h-3" />
+                                </button>
+                            </div>
+                            {isPrimary && <StarIcon className="absolute bottom-1 left-1 w-4 h-4 text-amber-400 fill-amber-400" />}
+                        </div>
+                    );
+                })}
+                <label className={`flex items-center justify-center aspect-square rounded-md border-2 border-dashed border-gray-600 text-gray-500 transition-colors ${isProcessing ? 'cursor-wait' : 'cursor-pointer hover:border-amber-500/50 hover:text-amber-400'}`}>
+                    {isProcessing ? <Loader small={true} /> : <PlusIcon className="w-6 h-6" />}
+                    <span className="sr-only">Add product images</span>
+                    <input type="file" accept="image/jpeg, image/png, image/webp, image/heic, image/heif, .heic, .heif, application/pdf" multiple disabled={isProcessing} className="sr-only" onChange={handleAdd} />
+                </label>
+            </div>
+            {error && <p className="text-sm text-red-300">{error}</p>}
+        </div>
+    );
+};
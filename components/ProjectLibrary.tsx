@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Project } from '../types';
+import { listProjects, renameProject, duplicateProject, deleteProject, storedImageUrl } from '../services/projectStore';
+import { Loader } from './Loader';
+import { FolderIcon, PlusIcon, PencilIcon, DuplicateIcon, TrashIcon } from './icons';
+
+interface ProjectLibraryProps {
+    currentUser: string;
+    currentProjectId: string | null;
+    onOpenProject: (project: Project) => void;
+    onNewProject: () => void;
+    onProjectDeleted: (id: string) => void;
+}
+
+const thumbnailFor = (project: Project): string | null => {
+    const variant = project.variants.find(v => v.status === 'succeeded');
+    if (variant) return variant.url;
+    const primary = project.images.find(image => image.id === project.primaryImageId) ?? project.images[0];
+    return primary ? storedImageUrl(primary) : null;
+};
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ currentUser, currentProjectId, onOpenProject, onNewProject, onProjectDeleted }) => {
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+
+    const refresh = useCallback(async () => {
+        try {
+            setProjects(await listProjects(currentUser));
+            setError(null);
+        } catch (err) {
+            console.error("Failed to load projects:", err);
+            setError("Couldn't load your projects. Your browser may be blocking storage for this site.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentUser]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const runAction = async (label: string, action: () => Promise<unknown>) => {
+        try {
+            await action();
+        } catch (err) {
+            console.error(`Failed to ${label} project:`, err);
+            setError(`Couldn't ${label} the project. Please try again.`);
+        }
+        await refresh();
+    };
+
+    const startRename = (project: Project) => {
+        setRenamingId(project.id);
+        setRenameValue(project.name);
+    };
+
+    const commitRename = (id: string) => {
+        const name = renameValue.trim();
+        setRenamingId(null);
+        if (name) {
+            runAction('rename', () => renameProject(id, name));
+        }
+    };
+
+    const handleDelete = (project: Project) => {
+        if (!window.confirm(`Delete "${project.name}"? This can't be undone.`)) return;
+        runAction('delete', async () => {
+            await deleteProject(project.id);
+            onProjectDeleted(project.id);
+        });
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-extrabold text-amber-400">Your Projects</h2>
+                    <p className="text-gray-400">Every campaign is saved automatically, so you can pick up where you left off.</p>
+                </div>
+                <button
+                    onClick={onNewProject}
+                    className="bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out flex items-center justify-center gap-2"
+                >
+                    <PlusIcon className="w-5 h-5" /> New Project
+                </button>
+            </div>
+
+            {error && <p className="p-3 bg-red-900/40 border border-red-700 rounded-lg text-red-200 text-sm">{error}</p>}
+
+            {isLoading ? (
+                <div className="flex justify-center py-16"><Loader /></div>
+            ) : projects.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-16 bg-black/30 rounded-2xl text-center">
+                    <FolderIcon className="w-12 h-12 text-gray-600" />
+                    <p className="mt-4 text-gray-400">No projects yet. Upload a product image to start your first campaign.</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {projects.map(project => {
+                        const thumbnail = thumbnailFor(project);
+                        const isCurrent = project.id === currentProjectId;
+                        return (
+                            <div
+                                key={project.id}
+                                className={`bg-black/50 rounded-2xl border overflow-hidden shadow-2xl shadow-black/30 flex flex-col ${isCurrent ? 'border-amber-400' : 'border-gray-700'}`}
+                            >
+                                <button onClick={() => onOpenProject(project)} className="block aspect-video bg-gray-800 overflow-hidden">
+                                    {thumbnail
+                                        ? <img src={thumbnail} alt={project.name} className="w-full h-full object-cover hover:scale-105 transition-transform duration-300" />
+                                        : <FolderIcon className="w-10 h-10 text-gray-600 mx-auto" />}
+                                </button>
+                                <div className="p-4 flex-grow flex flex-col gap-2">
+                                    {renamingId === project.id ? (
+                                        <input
+                                            autoFocus
+                                            value={renameValue}
+                                            onChange={(e) => setRenameValue(e.target.value)}
+                                            onBlur={() => commitRename(project.id)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') commitRename(project.id);
+                                                if (e.key === 'Escape') setRenamingId(null);
+                                            }}
+                                            className="w-full p-1 bg-gray-800 border border-amber-500 rounded text-gray-200"
+                                        />
+                                    ) : (
+                                        <h3 className="font-bold text-amber-300 truncate" title={project.name}>
+                                            {project.name}{isCurrent && <span className="ml-2 text-xs font-normal text-gray-400">(open)</span>}
+                                        </h3>
+                                    )}
+                                    {project.productDescription && (
+                                        <p className="text-sm text-gray-400 line-clamp-2">{project.productDescription}</p>
+                                    )}
+                                    <p className="text-xs text-gray-500 mt-auto">Updated {new Date(project.updatedAt).toLocaleString()}</p>
+                                    <div className="flex items-center gap-2 pt-2 border-t border-gray-700">
+                                        <button
+                                            onClick={() => onOpenProject(project)}
+                                            className="flex-grow bg-amber-600 text-white font-bold py-1 px-3 rounded-lg hover:bg-amber-500 transition-colors text-sm"
+                                        >
+                                            Open
+                                        </button>
+                                        <button onClick={() => startRename(project)} title="Rename" aria-label={`Rename ${project.name}`} className="p-2 text-gray-400 hover:text-amber-400 transition-colors">
+                                            <PencilIcon className="w-5 h-5" />
+                                        </button>
+                                        <button onClick={() => runAction('duplicate', () => duplicateProject(project.id))} title="Duplicate" aria-label={`Duplicate ${project.name}`} className="p-2 text-gray-400 hover:text-amber-400 transition-colors">
+                                            <DuplicateIcon className="w-5 h-5" />
+                                        </button>
+                                        <button onClick={() => handleDelete(project)} title="Delete" aria-label={`Delete ${project.name}`} className="p-2 text-gray-400 hover:text-red-400 transition-colors">
+                                            <TrashIcon className="w-5 h-5" />
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,17 +1,95 @@
 import React, { useState } from 'react';
-import type { ImageVariant, MarketingContent, VideoScript, GroundingSource } from '../types';
+import type { AssetStatus, AbTest, AdCreative, ComplianceState, CopyPlatform, VoiceoverState, VoiceoverTake, ScriptLength, ScriptPlatform, ScriptHook, SceneRewriteState, StoryboardFrame, Localization, HashtagWorkspace as HashtagWorkspaceState, HashtagEntry, HashtagSet, ImageVariant, VariantEditState, MarketingContent, PlatformCopyPacks, VideoScript, GroundingSource, ProjectVersion, FinalSet, BrandViolation } from '../types';
 import { Loader } from './Loader';
-import { HashtagIcon, LightbulbIcon, ScriptIcon, TextIcon, RocketIcon, LinkIcon, CloseIcon, DownloadIcon } from './icons';
+import { VersionHistory } from './VersionHistory';
+import { VariantEditor } from './VariantEditor';
+import { ExportDialog } from './ExportDialog';
+import { VoiceoverStudio } from './VoiceoverStudio';
+import { VideoScriptEditor } from './VideoScriptEditor';
+import { StoryboardStrip } from './StoryboardStrip';
+import { PlatformCopyTabs } from './PlatformCopyTabs';
+import { LocalizationPanel } from './LocalizationPanel';
+import { HashtagWorkspace } from './HashtagWorkspace';
+import { AbTestPlanner } from './AbTestPlanner';
+import { CompliancePanel } from './CompliancePanel';
+import { AD_PLACEMENTS } from '../services/adComposer';
+import { SCRIPT_LENGTHS, SCRIPT_PLATFORMS, SCRIPT_HOOKS, SOURCE_LOCALE } from '../services/apiTypes';
+import { nextSceneId } from '../services/videoScripts';
+import { complianceItems, type ComplianceItem } from '../services/compliance';
+import { HashtagIcon, LightbulbIcon, ScriptIcon, TextIcon, RocketIcon, LinkIcon, GlobeIcon, CloseIcon, DownloadIcon, BookmarkIcon, ClockIcon, CheckCircleIcon, PencilIcon, ShieldCheckIcon, TrashIcon } from './icons';
 
 interface ResultsDisplayProps {
     variants: ImageVariant[];
+    onRetryVariant: (style: string) => void;
+    // The selected variant gets the edit panel and is the one Rose edits by voice.
+    selectedVariant: string | null;
+    onSelectVariant: (style: string | null) => void;
+    variantEdits: Record<string, VariantEditState>;
+    onEditVariant: (style: string, instruction: string) => void;
+    onUndoEdit: (style: string) => void;
     marketingContent: MarketingContent | null;
     marketingSources: GroundingSource[];
-    videoScript: VideoScript | null;
-    onGenerateScript: () => void;
+    marketingStatus: AssetStatus | null;
+    marketingError: string | null;
+    onRetryMarketing: () => void;
+    onChangePlatformCopy: (packs: PlatformCopyPacks) => void;
+    hashtags: HashtagWorkspaceState;
+    onChangeHashtags: (tags: HashtagEntry[]) => void;
+    onResearchHashtags: () => void;
+    hashtagSets: HashtagSet[];
+    onChangeHashtagSets: (sets: HashtagSet[]) => void;
+    videoScripts: VideoScript[];
+    // The script being edited; the studios and storyboard work on it.
+    activeScript: VideoScript | null;
+    onSelectScript: (id: string) => void;
+    // Writes one script per angle.
+    onGenerateScripts: (angles: string[], hook: ScriptHook, length: ScriptLength, platform: ScriptPlatform) => void;
+    onRegenerateScript: (id: string) => void;
+    onDeleteScript: (id: string) => void;
+    onChangeScript: (script: VideoScript) => void;
+    sceneRewrites: Record<number, SceneRewriteState>;
+    onRewriteScene: (sceneId: number, instruction: string) => void;
+    storyboard: StoryboardFrame[];
+    onGenerateStoryboard: () => void;
+    onRegenerateFrame: (sceneId: number) => void;
     isGeneratingScript: boolean;
+    // Renders the active script, read in the given locale.
+    onRenderVideo: (locale: string) => void;
+    voiceover: VoiceoverState;
+    // Takes belong to the source voiceover unless a locale is given.
+    onAddVoiceoverTake: (take: VoiceoverTake, locale?: string) => void;
+    onChooseVoiceoverTake: (scene: number, takeId: string, locale?: string) => void;
+    onDeleteVoiceoverTake: (takeId: string, locale?: string) => void;
+    localizations: Localization[];
+    onAddLocale: (locale: string) => void;
+    onRemoveLocale: (locale: string) => void;
+    onLocalizeMarketing: (locale: string) => void;
+    onLocalizeScript: (locale: string, scriptId: string) => void;
+    onChangeLocalizedPlatformCopy: (locale: string, packs: PlatformCopyPacks) => void;
     onShowGuide: () => void;
     onPostToTikTok: () => void;
+    versions: ProjectVersion[];
+    currentVersion: ProjectVersion | null;
+    finals: FinalSet;
+    onPinImage: (versionId: string, variant: ImageVariant) => void;
+    onPinCaption: (versionId: string, caption: string) => void;
+    onUnpinImage: (id: string) => void;
+    onUnpinCaption: (id: string) => void;
+    brandKitName: string | null;
+    // Captions that use phrases the project's brand kit forbids.
+    captionViolations: BrandViolation[];
+    adCreatives: AdCreative[];
+    onOpenAdComposer: () => void;
+    onDeleteAd: (id: string) => void;
+    abTests: AbTest[];
+    onCreateAbTest: (test: AbTest) => void;
+    onChangeAbTest: (test: AbTest) => void;
+    onDeleteAbTest: (id: string) => void;
+    compliance: ComplianceState;
+    onChangeCompliancePlatforms: (platforms: CopyPlatform[] | null) => void;
+    onChangeComplianceAutoReview: (autoReview: boolean) => void;
+    onReviewCompliance: (items: ComplianceItem[]) => void;
+    onApplyComplianceRewrite: (key: string, text: string) => void;
 }
 
 const ResultCard: React.FC<{title: string; icon: React.ReactNode; children: React.ReactNode}> = ({ title, icon, children }) => (
@@ -25,17 +103,76 @@ const ResultCard: React.FC<{title: string; icon: React.ReactNode; children: Reac
 );
 
 
-export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ variants, marketingContent, marketingSources, videoScript, onGenerateScript, isGeneratingScript, onShowGuide, onPostToTikTok }) => {
+const AssetError: React.FC<{message?: string | null; onRetry: () => void}> = ({ message, onRetry }) => (
+    <div className="flex flex-col items-center justify-center gap-3 p-4 text-center">
+        <p className="text-sm text-red-300">{message || 'Something went wrong.'}</p>
+        <button
+            onClick={onRetry}
+            className="bg-amber-500 text-gray-900 font-bold py-1 px-4 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out text-sm"
+        >
+            Retry
+        </button>
+    </div>
+);
+
+
+export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ variants, onRetryVariant, selectedVariant, onSelectVariant, variantEdits, onEditVariant, onUndoEdit, marketingContent, marketingSources, marketingStatus, marketingError, onRetryMarketing, onChangePlatformCopy, hashtags, onChangeHashtags, onResearchHashtags, hashtagSets, onChangeHashtagSets, videoScripts, activeScript, onSelectScript, onGenerateScripts, onRegenerateScript, onDeleteScript, onChangeScript, sceneRewrites, onRewriteScene, storyboard, onGenerateStoryboard, onRegenerateFrame, isGeneratingScript, onRenderVideo, voiceover, onAddVoiceoverTake, onChooseVoiceoverTake, onDeleteVoiceoverTake, localizations, onAddLocale, onRemoveLocale, onLocalizeMarketing, onLocalizeScript, onChangeLocalizedPlatformCopy, onShowGuide, onPostToTikTok, versions, currentVersion, finals, onPinImage, onPinCaption, onUnpinImage, onUnpinCaption, brandKitName, captionViolations, adCreatives, onOpenAdComposer, onDeleteAd, abTests, onCreateAbTest, onChangeAbTest, onDeleteAbTest, compliance, onChangeCompliancePlatforms, onChangeComplianceAutoReview, onReviewCompliance, onApplyComplianceRewrite }) => {
   const [isPromptsVisible, setIsPromptsVisible] = useState(false);
+  const [isVoiceoverVisible, setIsVoiceoverVisible] = useState(false);
+  const [isStoryboardVisible, setIsStoryboardVisible] = useState(false);
+  const [scriptLength, setScriptLength] = useState<ScriptLength>(activeScript?.length ?? 30);
+  const [scriptPlatform, setScriptPlatform] = useState<ScriptPlatform>(activeScript?.platform ?? 'tiktok');
+  const [scriptHook, setScriptHook] = useState<ScriptHook>(activeScript?.hook ?? 'problem-solution');
+  // Angles are picked by position, since two post ideas can read the same; the text drops picks
+  // once a new run's copy puts a different idea in that position.
+  const [scriptAngles, setScriptAngles] = useState<{ index: number; text: string }[]>([]);
+
+  const pickedAngles = scriptAngles.filter(pick => marketingContent?.postIdeas[pick.index] === pick.text);
+  const isAnglePicked = (index: number) => pickedAngles.some(pick => pick.index === index);
+  const checkedCopy = complianceItems(marketingContent, videoScripts);
+
+  const toggleAngle = (index: number, text: string) =>
+    setScriptAngles(isAnglePicked(index) ? pickedAngles.filter(pick => pick.index !== index) : [...pickedAngles, { index, text }]);
+
+  const handleGenerateScripts = () => {
+    onGenerateScripts(pickedAngles.map(pick => pick.text), scriptHook, scriptLength, scriptPlatform);
+    setScriptAngles([]);
+  };
+
+  const handleRegenerateScript = (script: VideoScript) => {
+    if (!window.confirm(`Replace "${script.title}" with a new script for the same angle? Your edits to it will be lost.`)) return;
+    onRegenerateScript(script.id);
+  };
 
-  const handleDownload = (url: string, style: string) => {
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${style.toLowerCase().replace(/\s+/g, '-')}-variant.jpeg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleDeleteScript = (script: VideoScript) => {
+    if (!window.confirm(`Delete "${script.title}" along with its voiceover takes and storyboard?`)) return;
+    onDeleteScript(script.id);
   };
+
+  const optionClasses = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-full border transition-colors ${active ? 'bg-amber-500 border-amber-500 text-gray-900 font-semibold' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-500/50'}`;
+
+  const scriptOptions = (
+    <div className="flex flex-wrap gap-2">
+        {SCRIPT_LENGTHS.map(length => (
+            <button key={length} onClick={() => setScriptLength(length)} aria-pressed={scriptLength === length} className={optionClasses(scriptLength === length)}>
+                {length}s
+            </button>
+        ))}
+        <span className="w-px bg-gray-700 mx-1" />
+        {SCRIPT_PLATFORMS.map(platform => (
+            <button key={platform.id} onClick={() => setScriptPlatform(platform.id)} aria-pressed={scriptPlatform === platform.id} className={optionClasses(scriptPlatform === platform.id)}>
+                {platform.label}
+            </button>
+        ))}
+    </div>
+  );
+
+  const hookLabel = (hook: ScriptHook) => SCRIPT_HOOKS.find(option => option.id === hook)?.label ?? hook;
+
+  const canRenderVideo = variants.some(variant => variant.status === 'succeeded') || storyboard.some(frame => frame.status === 'succeeded');
+
+  const [exporting, setExporting] = useState<{ url: string; name: string; presetId?: string } | null>(null);
   
   return (
     <div className="space-y-8 animate-fade-in">
@@ -44,29 +181,99 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ variants, market
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                 {variants.map(variant => (
                     <div key={variant.style} className="relative group">
-                        <img src={variant.url} alt={`${variant.style} variant`} className="rounded-lg w-full h-auto object-cover" />
-                         <button
-                            onClick={() => handleDownload(variant.url, variant.style)}
-                            aria-label={`Download ${variant.style} image`}
-                            title={`Download ${variant.style} image`}
-                            className="absolute top-2 right-2 p-2 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-amber-500 transition-all duration-300 opacity-0 group-hover:opacity-100 focus:opacity-100"
-                        >
-                            <DownloadIcon className="w-5 h-5" />
-                        </button>
+                        {variant.status === 'succeeded' ? (
+                            <>
+                                <button
+                                    onClick={() => onSelectVariant(variant.style === selectedVariant ? null : variant.style)}
+                                    aria-pressed={variant.style === selectedVariant}
+                                    aria-label={`Select ${variant.style} image`}
+                                    className={`relative block w-full rounded-lg transition-all ${variant.style === selectedVariant ? 'ring-2 ring-amber-500 ring-offset-2 ring-offset-gray-900' : ''}`}
+                                >
+                                    <img src={variant.url} alt={`${variant.style} variant`} className="rounded-lg w-full h-auto object-cover" />
+                                    {variantEdits[variant.style]?.status === 'pending' && (
+                                        <div className="absolute inset-0 rounded-lg bg-black/60 flex items-center justify-center">
+                                            <Loader small={true} />
+                                        </div>
+                                    )}
+                                </button>
+                                <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-all duration-300">
+                                    <button
+                                        onClick={() => onSelectVariant(variant.style)}
+                                        aria-label={`Edit ${variant.style} image`}
+                                        title="Edit with an instruction"
+                                        className="p-2 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-amber-500 transition-all duration-300"
+                                    >
+                                        <PencilIcon className="w-5 h-5" />
+                                    </button>
+                                    {currentVersion && (
+                                        <button
+                                            onClick={() => onPinImage(currentVersion.id, variant)}
+                                            aria-label={`Pin ${variant.style} image`}
+                                            title="Pin to final set"
+                                            className="p-2 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-amber-500 transition-all duration-300"
+                                        >
+                                            <BookmarkIcon className="w-5 h-5" />
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => setExporting({ url: variant.url, name: variant.style })}
+                                        aria-label={`Export ${variant.style} image`}
+                                        title={`Export ${variant.style} image`}
+                                        className="p-2 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-amber-500 transition-all duration-300"
+                                    >
+                                        <DownloadIcon className="w-5 h-5" />
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <div className="aspect-square rounded-lg bg-gray-800/60 border border-gray-700 flex items-center justify-center">
+                                {variant.status === 'pending'
+                                    ? <Loader small={true} />
+                                    : <AssetError message={variant.error} onRetry={() => onRetryVariant(variant.style)} />}
+                            </div>
+                        )}
                         <div className="mt-2 text-center">
                             <h4 className="font-bold text-amber-400">{variant.style}</h4>
                             <p className="text-xs text-gray-400">{variant.description}</p>
                         </div>
+                        {variant.status === 'succeeded' && variant.style === selectedVariant && (
+                            <VariantEditor
+                                variant={variant}
+                                edit={variantEdits[variant.style]}
+                                onEdit={(instruction) => onEditVariant(variant.style, instruction)}
+                                onUndo={() => onUndoEdit(variant.style)}
+                            />
+                        )}
                     </div>
                 ))}
             </div>
         </ResultCard>
 
+        {/* Marketing copy still in flight, or failed */}
+        {!marketingContent && marketingStatus === 'pending' && (
+            <ResultCard title="TikTok Story Prompts" icon={<RocketIcon className="w-6 h-6" />}>
+                <div className="flex items-center gap-3 text-gray-400">
+                    <Loader small={true} />
+                    <p>Writing marketing angles, captions, and hashtags...</p>
+                </div>
+            </ResultCard>
+        )}
+        {!marketingContent && marketingStatus === 'failed' && (
+            <ResultCard title="TikTok Story Prompts" icon={<RocketIcon className="w-6 h-6" />}>
+                <AssetError message={marketingError} onRetry={onRetryMarketing} />
+            </ResultCard>
+        )}
+
         {/* TikTok Story Prompts */}
         {marketingContent && (
              <ResultCard title="TikTok Story Prompts" icon={<RocketIcon className="w-6 h-6" />}>
                 <div>
                     <p className="text-gray-400 mb-4">View AI-generated marketing angles, captions, and hashtags tailored for TikTok.</p>
+                    {captionViolations.length > 0 && (
+                        <p className="mb-4 p-3 bg-red-900/30 border border-red-700 rounded-lg text-sm text-red-200">
+                            {captionViolations.length} caption{captionViolations.length === 1 ? '' : 's'} use{captionViolations.length === 1 ? 's' : ''} phrases the {brandKitName} brand kit forbids. They're flagged in the prompts.
+                        </p>
+                    )}
                     <div className="flex flex-col sm:flex-row gap-4 items-center">
                         <button
                             onClick={() => setIsPromptsVisible(true)}
@@ -85,6 +292,28 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ variants, market
             </ResultCard>
         )}
         
+        {/* Platform Copy */}
+        {marketingContent?.platforms && (
+            <ResultCard title="Platform Copy" icon={<TextIcon className="w-6 h-6" />}>
+                <p className="text-gray-400 mb-4">Copy written for each channel and kept within its character limits. Edit it here before you paste it in.</p>
+                <PlatformCopyTabs packs={marketingContent.platforms} onChange={onChangePlatformCopy} />
+            </ResultCard>
+        )}
+
+        {/* Hashtag workspace */}
+        {(marketingContent || hashtags.tags.length > 0) && (
+            <ResultCard title="Hashtags" icon={<HashtagIcon className="w-6 h-6" />}>
+                <p className="text-gray-400 mb-4">Sort, lock and research your tags, then copy the best ones for each platform within its tag limit.</p>
+                <HashtagWorkspace
+                    workspace={hashtags}
+                    onChange={onChangeHashtags}
+                    onResearch={onResearchHashtags}
+                    sets={hashtagSets}
+                    onChangeSets={onChangeHashtagSets}
+                />
+            </ResultCard>
+        )}
+
         {/* Grounding Sources */}
         {marketingSources && marketingSources.length > 0 && (
             <ResultCard title="Sources" icon={<LinkIcon className="w-6 h-6" />}>
@@ -105,56 +334,277 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ variants, market
             </ResultCard>
         )}
         
-        {/* Video Ad Script */}
-        <ResultCard title="Video Ad Script" icon={<ScriptIcon className="w-6 h-6" />}>
-            {!videoScript ? (
-                <div>
-                    <p className="text-gray-400 mb-4">Generate a short video ad script to bring your marketing to life.</p>
+        {/* Video Ad Scripts */}
+        <ResultCard title="Video Ad Scripts" icon={<ScriptIcon className="w-6 h-6" />}>
+            <div className="space-y-4 text-gray-300">
+                {videoScripts.length > 0 && (
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {videoScripts.map(script => (
+                            <div
+                                key={script.id}
+                                className={`relative p-3 rounded-lg border transition-colors ${script.id === activeScript?.id ? 'border-amber-500 bg-amber-500/10' : 'border-gray-700 bg-gray-800/50 hover:border-amber-500/50'}`}
+                            >
+                                <button
+                                    onClick={() => onSelectScript(script.id)}
+                                    aria-pressed={script.id === activeScript?.id}
+                                    className="block w-full text-left space-y-1 pr-6"
+                                >
+                                    <p className="font-bold text-amber-400 truncate">{script.title}</p>
+                                    {script.angle && <p className="text-xs text-gray-400 line-clamp-2">{script.angle}</p>}
+                                    <p className="text-xs text-gray-500">
+                                        {[script.hook && hookLabel(script.hook), script.length && `${script.length}s`, SCRIPT_PLATFORMS.find(platform => platform.id === script.platform)?.label, `${script.scenes.length} scenes`].filter(Boolean).join(' · ')}
+                                    </p>
+                                </button>
+                                <button
+                                    onClick={() => handleDeleteScript(script)}
+                                    disabled={isGeneratingScript}
+                                    aria-label={`Delete ${script.title}`}
+                                    title="Delete script"
+                                    className="absolute top-2 right-2 p-1 text-gray-500 hover:text-red-400 transition-colors disabled:opacity-30"
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {activeScript && (
+                    <>
+                        <VideoScriptEditor script={activeScript} onChange={onChangeScript} nextSceneId={nextSceneId(videoScripts)} sceneRewrites={sceneRewrites} onRewriteScene={onRewriteScene} />
+                        {isStoryboardVisible && (
+                            <StoryboardStrip script={activeScript} frames={storyboard} onGenerate={onGenerateStoryboard} onRegenerateFrame={onRegenerateFrame} />
+                        )}
+                        {isVoiceoverVisible && (
+                            <VoiceoverStudio
+                                script={activeScript}
+                                voiceover={voiceover}
+                                locale={SOURCE_LOCALE}
+                                onAddTake={onAddVoiceoverTake}
+                                onChooseTake={onChooseVoiceoverTake}
+                                onDeleteTake={onDeleteVoiceoverTake}
+                            />
+                        )}
+                        <div className="flex flex-col sm:flex-row flex-wrap gap-3">
+                            <button
+                                onClick={() => setIsStoryboardVisible(visible => !visible)}
+                                aria-expanded={isStoryboardVisible}
+                                className="w-full sm:w-auto bg-gray-700 text-gray-200 font-bold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors"
+                            >
+                                {isStoryboardVisible ? 'Hide Storyboard' : '🖼️ Storyboard'}
+                            </button>
+                            <button
+                                onClick={() => setIsVoiceoverVisible(visible => !visible)}
+                                aria-expanded={isVoiceoverVisible}
+                                className="w-full sm:w-auto bg-gray-700 text-gray-200 font-bold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors"
+                            >
+                                {isVoiceoverVisible ? 'Hide Voiceover Studio' : '🎙️ Voiceover Studio'}
+                            </button>
+                            <button
+                                onClick={() => handleRegenerateScript(activeScript)}
+                                disabled={isGeneratingScript || !marketingContent}
+                                className="w-full sm:w-auto bg-gray-700 text-gray-200 font-bold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                🎬 Regenerate
+                            </button>
+                            <button
+                                onClick={() => onRenderVideo(SOURCE_LOCALE)}
+                                disabled={!canRenderVideo}
+                                className="w-full sm:w-auto bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out disabled:bg-gray-600 disabled:cursor-not-allowed"
+                            >
+                                🎞️ Make Slideshow Video
+                            </button>
+                        </div>
+                    </>
+                )}
+                <div className={`space-y-3 ${videoScripts.length > 0 ? 'pt-4 border-t border-gray-700' : ''}`}>
+                    <p className="text-gray-400">
+                        {!marketingContent
+                            ? 'Video scripts build on your marketing angles, so they unlock once the copy is ready.'
+                            : videoScripts.length > 0
+                                ? 'Write more scripts: pick angles to compare side by side.'
+                                : 'Pick one or more marketing angles. Each gets its own short video ad script.'}
+                    </p>
+                    {marketingContent && (
+                        <div className="space-y-2">
+                            {marketingContent.postIdeas.map((idea, i) => (
+                                <button
+                                    key={i}
+                                    onClick={() => toggleAngle(i, idea)}
+                                    aria-pressed={isAnglePicked(i)}
+                                    className={`block w-full text-left p-2 rounded-lg border text-sm transition-colors ${isAnglePicked(i) ? 'border-amber-500 bg-amber-500/10 text-gray-200' : 'border-gray-700 bg-gray-800/50 text-gray-400 hover:border-amber-500/50'}`}
+                                >
+                                    {isAnglePicked(i) ? '☑' : '☐'} {idea}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                        {SCRIPT_HOOKS.map(hook => (
+                            <button key={hook.id} onClick={() => setScriptHook(hook.id)} aria-pressed={scriptHook === hook.id} className={optionClasses(scriptHook === hook.id)}>
+                                {hook.label}
+                            </button>
+                        ))}
+                    </div>
+                    {scriptOptions}
                     <button
-                        onClick={onGenerateScript}
-                        disabled={isGeneratingScript}
+                        onClick={handleGenerateScripts}
+                        disabled={isGeneratingScript || !marketingContent || pickedAngles.length === 0}
                         className="w-full sm:w-auto bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                     >
-                        {isGeneratingScript ? <Loader small={true} /> : '🎬 Generate Script'}
+                        {isGeneratingScript
+                            ? <Loader small={true} />
+                            : `🎬 Write ${pickedAngles.length > 1 ? `${pickedAngles.length} Scripts` : 'Script'}`}
                     </button>
                 </div>
-            ) : (
-                <div className="space-y-4 text-gray-300">
-                    <h4 className="text-lg font-bold text-amber-400">{videoScript.title}</h4>
-                    {videoScript.scenes.map(scene => (
-                        <div key={scene.scene} className="p-4 bg-gray-800/50 rounded-lg border-l-4 border-amber-500">
-                           <div className="flex justify-between items-start gap-4">
-                                <div className="flex-grow">
-                                    <p className="font-bold text-amber-400">Scene {scene.scene}</p>
-                                    <p><span className="font-semibold text-gray-400">Visual:</span> {scene.visual}</p>
-                                    <p><span className="font-semibold text-gray-400">Voiceover:</span> <em className="text-gray-400">"{scene.voiceover}"</em></p>
+            </div>
+        </ResultCard>
+
+        {/* Ad-policy compliance */}
+        {checkedCopy.length > 0 && (
+            <ResultCard title="Ad Compliance" icon={<ShieldCheckIcon className="w-6 h-6" />}>
+                <p className="text-gray-400 mb-4">Post ideas, captions and voiceovers are checked for claims that get ads rejected on the platforms you pick.</p>
+                <CompliancePanel
+                    items={checkedCopy}
+                    compliance={compliance}
+                    onChangePlatforms={onChangeCompliancePlatforms}
+                    onChangeAutoReview={onChangeComplianceAutoReview}
+                    onReview={onReviewCompliance}
+                    onApplyRewrite={onApplyComplianceRewrite}
+                />
+            </ResultCard>
+        )}
+
+        {/* Languages */}
+        <ResultCard title="Languages" icon={<GlobeIcon className="w-6 h-6" />}>
+            <LocalizationPanel
+                localizations={localizations}
+                marketingContent={marketingContent}
+                activeScript={activeScript}
+                onAddLocale={onAddLocale}
+                onRemoveLocale={onRemoveLocale}
+                onLocalizeMarketing={onLocalizeMarketing}
+                onLocalizeScript={onLocalizeScript}
+                onChangePlatformCopy={onChangeLocalizedPlatformCopy}
+                onAddVoiceoverTake={onAddVoiceoverTake}
+                onChooseVoiceoverTake={onChooseVoiceoverTake}
+                onDeleteVoiceoverTake={onDeleteVoiceoverTake}
+                onRenderVideo={onRenderVideo}
+                canRenderVideo={canRenderVideo}
+            />
+        </ResultCard>
+
+        {/* Final set */}
+        {(finals.images.length > 0 || finals.captions.length > 0) && (
+            <ResultCard title="Final Picks" icon={<CheckCircleIcon className="w-6 h-6" />}>
+                <div className="space-y-4">
+                    {finals.images.length > 0 && (
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                            {finals.images.map(image => (
+                                <div key={image.id} className="relative group">
+                                    <img src={image.url} alt={`${image.style} pick`} className="rounded-lg w-full h-auto object-cover" />
+                                    <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-all duration-300">
+                                        <button
+                                            onClick={() => setExporting({ url: image.url, name: image.style })}
+                                            aria-label={`Export ${image.style} pick`}
+                                            className="p-1.5 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-amber-500 transition-colors"
+                                        >
+                                            <DownloadIcon className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => onUnpinImage(image.id)}
+                                            aria-label={`Unpin ${image.style} pick`}
+                                            className="p-1.5 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-red-500 transition-colors"
+                                        >
+                                            <CloseIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    <p className="text-xs text-center text-amber-400 mt-1">{image.style}</p>
                                 </div>
-                                <button
-                                    disabled
-                                    className="flex-shrink-0 bg-gray-700 text-gray-400 font-bold py-1 px-3 rounded-lg cursor-not-allowed opacity-60 text-xs whitespace-nowrap mt-1"
-                                >
-                                    (Generate Now) Coming soon
-                                </button>
-                            </div>
+                            ))}
+                        </div>
+                    )}
+                    {finals.captions.map(caption => (
+                        <div key={caption.id} className="flex items-start gap-2 p-3 bg-gray-800/50 rounded-lg border-l-4 border-amber-500 text-gray-300">
+                            <p className="flex-grow">{caption.text}</p>
+                            <button onClick={() => onUnpinCaption(caption.id)} aria-label="Unpin caption" className="text-gray-500 hover:text-red-400 transition-colors">
+                                <CloseIcon className="w-5 h-5" />
+                            </button>
                         </div>
                     ))}
                 </div>
-            )}
-        </ResultCard>
+            </ResultCard>
+        )}
+
+        {/* Version History */}
+        {versions.length > 0 && (
+            <ResultCard title="Version History" icon={<ClockIcon className="w-6 h-6" />}>
+                <VersionHistory
+                    versions={versions}
+                    current={currentVersion}
+                    finals={finals}
+                    onPinImage={onPinImage}
+                    onPinCaption={onPinCaption}
+                />
+            </ResultCard>
+        )}
 
-        {/* Generate Ads Placeholder */}
-        <ResultCard title="Generate Ads" icon={<RocketIcon className="w-6 h-6" />}>
-            <div>
-                <p className="text-gray-400 mb-4">Automatically generate and launch ad campaigns for platforms like Meta and TikTok.</p>
+        {/* Ad Creatives */}
+        <ResultCard title="Ad Creatives" icon={<RocketIcon className="w-6 h-6" />}>
+            <div className="space-y-4">
+                <p className="text-gray-400">Turn a visual into a finished ad with your headline, price and call to action, sized for each placement.</p>
+                {adCreatives.length > 0 && (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                        {adCreatives.map(ad => {
+                            const placement = AD_PLACEMENTS.find(candidate => candidate.id === ad.placementId);
+                            return (
+                                <div key={ad.id} className="relative group">
+                                    <img src={ad.url} alt={`${ad.style} ad: ${ad.headline}`} className="rounded-lg w-full h-auto" />
+                                    <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                                        <button
+                                            onClick={() => setExporting({ url: ad.url, name: `${ad.style} ad ${ad.placementId}`, presetId: 'original' })}
+                                            aria-label={`Export ${ad.style} ad`}
+                                            title="Export"
+                                            className="p-1.5 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-amber-500 transition-colors"
+                                        >
+                                            <DownloadIcon className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => onDeleteAd(ad.id)}
+                                            aria-label={`Delete ${ad.style} ad`}
+                                            title="Delete"
+                                            className="p-1.5 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-red-500 transition-colors"
+                                        >
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    <p className="mt-1 text-xs text-gray-400 truncate">{placement ? `${placement.platform} · ${placement.label}` : ad.placementId}</p>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
                 <button
-                    disabled
-                    className="w-full sm:w-auto bg-gray-700 text-gray-400 font-bold py-2 px-6 rounded-lg cursor-not-allowed opacity-60"
+                    onClick={onOpenAdComposer}
+                    disabled={!variants.some(variant => variant.status === 'succeeded')}
+                    className="w-full sm:w-auto bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out disabled:bg-gray-600 disabled:cursor-not-allowed"
                 >
-                    Generate Ads (COMING SOON)
+                    Open Ad Composer
                 </button>
             </div>
         </ResultCard>
 
+        {/* A/B Tests */}
+        <ResultCard title="A/B Tests" icon={<CheckCircleIcon className="w-6 h-6" />}>
+            <AbTestPlanner
+                tests={abTests}
+                variants={variants.filter(variant => variant.status === 'succeeded')}
+                captions={marketingContent?.captions ?? []}
+                onCreateTest={onCreateAbTest}
+                onChangeTest={onChangeAbTest}
+                onDeleteTest={onDeleteAbTest}
+            />
+        </ResultCard>
+
         {/* Guide Button */}
         <ResultCard title="Next Steps" icon={<RocketIcon className="w-6 h-6" />}>
              <div>
@@ -192,9 +642,29 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ variants, market
                   </ResultCard>
                   <ResultCard title="Captions" icon={<TextIcon className="w-6 h-6" />}>
                       <div className="space-y-4">
-                          {marketingContent.captions.map((caption, i) => (
-                              <p key={i} className="p-4 bg-gray-800/50 rounded-lg text-gray-300 border-l-4 border-amber-500">{caption}</p>
-                          ))}
+                          {marketingContent.captions.map((caption, i) => {
+                              const violation = captionViolations.find(v => v.captionIndex === i);
+                              return (
+                                  <div key={i} className={`flex items-start gap-3 p-4 bg-gray-800/50 rounded-lg text-gray-300 border-l-4 ${violation ? 'border-red-500' : 'border-amber-500'}`}>
+                                      <div className="flex-grow">
+                                          <p>{caption}</p>
+                                          {violation && (
+                                              <p className="mt-2 text-xs text-red-300">Off-brand: uses {violation.phrases.map(phrase => `"${phrase}"`).join(', ')}</p>
+                                          )}
+                                      </div>
+                                      {currentVersion && (
+                                          <button
+                                              onClick={() => onPinCaption(currentVersion.id, caption)}
+                                              aria-label="Pin caption"
+                                              title="Pin to final set"
+                                              className="flex-shrink-0 text-gray-500 hover:text-amber-400 transition-colors"
+                                          >
+                                              <BookmarkIcon className="w-5 h-5" />
+                                          </button>
+                                      )}
+                                  </div>
+                              );
+                          })}
                       </div>
                   </ResultCard>
                   <ResultCard title="Hashtags" icon={<HashtagIcon className="w-6 h-6" />}>
@@ -209,6 +679,7 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ variants, market
           </div>
         )}
 
+        {exporting && <ExportDialog url={exporting.url} name={exporting.name} initialPresetId={exporting.presetId} onClose={() => setExporting(null)} />}
     </div>
   );
-};
\ No newline at end of file
+};
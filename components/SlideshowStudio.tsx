@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageVariant, StoryboardFrame, VideoScript, VoiceoverState } from '../types';
+import { generateSpeech } from '../services/geminiService';
+import { describeApiError } from '../services/apiClient';
+import { isAbortError } from '../services/requestRunner';
+import { SPEECH_VOICES } from '../services/apiTypes';
+import { decodeSpeech, SPEECH_SAMPLE_RATE } from '../services/audioUtils';
+import { renderSlideshow, supportedVideoType, videoExtension } from '../services/slideshowVideo';
+import { downloadBlob, slugify } from '../services/imageExport';
+import { Loader } from './Loader';
+import { CloseIcon, DownloadIcon } from './icons';
+
+interface SlideshowStudioProps {
+    script: VideoScript;
+    // Succeeded variants only.
+    variants: ImageVariant[];
+    // Scenes with a chosen take from the voiceover studio use it instead of a fresh reading.
+    voiceover: VoiceoverState;
+    // Drawn frames are offered for their scene and used by default.
+    storyboard: StoryboardFrame[];
+    // Fresh readings use this locale's accent.
+    locale: string;
+    onClose: () => void;
+}
+
+type RenderPhase = 'idle' | 'voiceover' | 'recording';
+
+const DEFAULT_SCENE_SECONDS = 3;
+
+const inputClasses = "w-full p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300 text-sm";
+
+export const SlideshowStudio: React.FC<SlideshowStudioProps> = ({ script, variants, voiceover, storyboard, locale, onClose }) => {
+    const frameFor = (sceneId: number) => storyboard.find(frame => frame.scene === sceneId && frame.status === 'succeeded' && frame.url);
+    // The image shown in each scene: its storyboard frame if drawn, otherwise cycling through the visuals.
+    const [sceneImages, setSceneImages] = useState(() =>
+        script.scenes.map((scene, i) => frameFor(scene.scene)?.url ?? variants[i % variants.length]?.url ?? ''));
+    const [durations, setDurations] = useState(() => script.scenes.map(() => DEFAULT_SCENE_SECONDS));
+    const [showCaptions, setShowCaptions] = useState(true);
+    const [withVoiceover, setWithVoiceover] = useState(true);
+    const [voice, setVoice] = useState(SPEECH_VOICES[0]);
+    const [phase, setPhase] = useState<RenderPhase>('idle');
+    const [progress, setProgress] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const [video, setVideo] = useState<{ blob: Blob; url: string } | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const isSupported = supportedVideoType() !== null;
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+    useEffect(() => () => { if (video) URL.revokeObjectURL(video.url); }, [video]);
+
+    const handleRender = async () => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        const { signal } = controller;
+        setError(null);
+        setVideo(null);
+        setProgress(0);
+        try {
+            let voiceovers = script.scenes.map(() => null as AudioBuffer | null);
+            if (withVoiceover) {
+                setPhase('voiceover');
+                // Only used to create the buffers; the recorder plays them in its own context.
+                const audioContext = new OfflineAudioContext(1, 1, SPEECH_SAMPLE_RATE);
+                voiceovers = [];
+                for (const [i, scene] of script.scenes.entries()) {
+                    setProgress(i / script.scenes.length);
+                    const take = voiceover.takes.find(candidate => candidate.id === voiceover.chosen[scene.scene] && candidate.text === scene.voiceover);
+                    const audio = take?.audio ?? await generateSpeech(scene.voiceover, voice, '', 'natural', locale, { signal });
+                    voiceovers.push(decodeSpeech(audio, audioContext));
+                }
+            }
+            setPhase('recording');
+            setProgress(0);
+            const blob = await renderSlideshow(
+                script.scenes.map((scene, i) => ({
+                    imageUrl: sceneImages[i],
+                    caption: showCaptions ? scene.voiceover : '',
+                    duration: durations[i],
+                    voiceover: voiceovers[i],
+                })),
+                { onProgress: setProgress, signal },
+            );
+            if (signal.aborted) return;
+            setVideo({ blob, url: URL.createObjectURL(blob) });
+        } catch (err) {
+            if (isAbortError(err)) return;
+            console.error("Slideshow render failed:", err);
+            setError(describeApiError(err, "Couldn't render the video. Please try again."));
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setPhase('idle');
+            }
+        }
+    };
+
+    const handleCancel = () => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+        setPhase('idle');
+    };
+
+    const handleDownload = () => {
+        if (!video) return;
+        downloadBlob(video.blob, `${slugify(script.title, 'slideshow')}.${videoExtension(video.blob.type)}`);
+    };
+
+    const totalSeconds = durations.reduce((sum, duration) => sum + duration, 0);
+    const isRendering = phase !== 'idle';
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex justify-center items-center p-4 animate-fade-in"
+            onClick={onClose}
+        >
+            <div
+                className="bg-gray-900 border border-amber-500/20 rounded-2xl shadow-2xl shadow-black/50 max-w-5xl w-full max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="sticky top-0 bg-gray-900/80 backdrop-blur-md p-6 z-10 border-b border-gray-700 flex-shrink-0">
+                    <h2 className="text-3xl font-extrabold text-amber-400">Slideshow Video</h2>
+                    <p className="text-gray-400">Turn "{script.title}" into a vertical video with motion, captions and a voiceover.</p>
+                    <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-amber-400 transition-colors">
+                        <CloseIcon className="w-8 h-8" />
+                    </button>
+                </div>
+
+                <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6 overflow-y-auto custom-scrollbar">
+                    <div className="space-y-4">
+                        {script.scenes.map((scene, i) => (
+                            <div key={scene.scene} className="p-3 bg-gray-800/50 rounded-lg border-l-4 border-amber-500 space-y-2">
+                                <div className="flex items-center justify-between gap-3">
+                                    <p className="font-bold text-amber-400">Scene {i + 1}</p>
+                                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                                        <input
+                                            type="range"
+                                            min={2}
+                                            max={8}
+                                            step={0.5}
+                                            value={durations[i]}
+                                            disabled={isRendering}
+                                            onChange={(e) => setDurations(prev => prev.map((duration, j) => j === i ? Number(e.target.value) : duration))}
+                                            className="w-24 accent-amber-500"
+                                        />
+                                        <span className="w-8 text-right">{durations[i]}s</span>
+                                    </label>
+                                </div>
+                                <p className="text-sm text-gray-400 italic">"{scene.voiceover}"</p>
+                                <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+                                    {[
+                                        ...(frameFor(scene.scene) ? [{ label: 'Storyboard frame', url: frameFor(scene.scene)!.url! }] : []),
+                                        ...variants.map(variant => ({ label: variant.style, url: variant.url! })),
+                                    ].map(option => (
+                                        <button
+                                            key={option.label}
+                                            onClick={() => setSceneImages(prev => prev.map((url, j) => j === i ? option.url : url))}
+                                            disabled={isRendering}
+                                            aria-pressed={sceneImages[i] === option.url}
+                                            aria-label={`Use the ${option.label} image for scene ${i + 1}`}
+                                            title={option.label}
+                                            className={`flex-shrink-0 w-12 rounded-md overflow-hidden border-2 transition-all ${sceneImages[i] === option.url ? 'border-amber-400' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                                        >
+                                            <img src={option.url} alt={option.label} className="w-full aspect-[9/16] object-cover" />
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <label className="flex items-center gap-2 text-sm text-gray-300">
+                                <input type="checkbox" checked={showCaptions} disabled={isRendering} onChange={(e) => setShowCaptions(e.target.checked)} className="accent-amber-500" />
+                                Burn in captions from the voiceover lines
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-gray-300">
+                                <input type="checkbox" checked={withVoiceover} disabled={isRendering} onChange={(e) => setWithVoiceover(e.target.checked)} className="accent-amber-500" />
+                                Add an AI voiceover
+                            </label>
+                            {withVoiceover && (
+                                <select value={voice} disabled={isRendering} onChange={(e) => setVoice(e.target.value)} className={inputClasses}>
+                                    {SPEECH_VOICES.map(name => <option key={name} value={name}>{name}</option>)}
+                                </select>
+                            )}
+                            <p className="text-xs text-gray-500">
+                                About {totalSeconds}s at 1080×1920{withVoiceover && '; scenes stretch to fit their voiceover, and scenes with a Voiceover Studio take use it'}. The video records in real time, so keep this tab open until it's done.
+                            </p>
+                        </div>
+
+                        <div className="flex items-center justify-center min-h-[16rem] bg-gray-800/60 rounded-lg p-2">
+                            {video ? (
+                                <video src={video.url} controls className="max-h-[50vh] w-auto rounded" />
+                            ) : isRendering ? (
+                                <div className="w-full max-w-xs space-y-3 text-center">
+                                    <Loader />
+                                    <p className="text-sm text-gray-400">{phase === 'voiceover' ? 'Recording the voiceover…' : 'Rendering the video…'}</p>
+                                    <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                                        <div className="h-full bg-amber-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+                                    </div>
+                                </div>
+                            ) : error ? (
+                                <p className="text-sm text-red-300 text-center">{error}</p>
+                            ) : !isSupported ? (
+                                <p className="text-sm text-gray-400 text-center">This browser can't record video. Try a recent Chrome, Edge or Safari.</p>
+                            ) : (
+                                <p className="text-sm text-gray-400 text-center">Pick an image for each scene, then render.</p>
+                            )}
+                        </div>
+                        {video && (
+                            <p className="text-xs text-gray-500 text-center">
+                                {videoExtension(video.blob.type).toUpperCase()} · {(video.blob.size / (1024 * 1024)).toFixed(1)} MB
+                            </p>
+                        )}
+
+                        <div className="flex gap-2">
+                            {isRendering ? (
+                                <button
+                                    onClick={handleCancel}
+                                    className="flex-grow bg-gray-700 text-gray-200 font-bold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={handleRender}
+                                    disabled={!isSupported || sceneImages.some(url => !url)}
+                                    className="flex-grow bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out disabled:bg-gray-600 disabled:cursor-not-allowed"
+                                >
+                                    {video ? 'Render again' : '🎞️ Render video'}
+                                </button>
+                            )}
+                            <button
+                                onClick={handleDownload}
+                                disabled={!video}
+                                aria-label="Download video"
+                                title="Download"
+                                className="bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <DownloadIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
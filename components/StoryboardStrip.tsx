@@ -0,0 +1,69 @@
+import React from 'react';
+import type { StoryboardFrame, VideoScript } from '../types';
+import { Loader } from './Loader';
+
+interface StoryboardStripProps {
+    script: VideoScript;
+    frames: StoryboardFrame[];
+    // Draws frames for scenes that have none or whose visual has changed since.
+    onGenerate: () => void;
+    onRegenerateFrame: (sceneId: number) => void;
+}
+
+export const StoryboardStrip: React.FC<StoryboardStripProps> = ({ script, frames, onGenerate, onRegenerateFrame }) => {
+    const frameFor = (sceneId: number) => frames.find(frame => frame.scene === sceneId) ?? null;
+    const needsDrawing = script.scenes.filter(scene => {
+        const frame = frameFor(scene.scene);
+        return scene.visual.trim() && (!frame || frame.status === 'failed' || (frame.status === 'succeeded' && frame.visual !== scene.visual));
+    });
+    const isDrawing = frames.some(frame => frame.status === 'pending');
+
+    return (
+        <div className="space-y-3 p-4 bg-gray-900/60 rounded-lg border border-gray-700">
+            <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-2">
+                {script.scenes.map((scene, index) => {
+                    const frame = frameFor(scene.scene);
+                    const isStale = frame?.status === 'succeeded' && frame.visual !== scene.visual;
+                    return (
+                        <div key={scene.scene} className="flex-shrink-0 w-32 space-y-1">
+                            <div className="relative aspect-[9/16] rounded-md overflow-hidden bg-gray-800 border border-gray-700 flex items-center justify-center">
+                                {frame?.status === 'succeeded' && frame.url ? (
+                                    <img src={frame.url} alt={`Storyboard frame for scene ${index + 1}`} className={`w-full h-full object-cover ${isStale ? 'opacity-50' : ''}`} />
+                                ) : frame?.status === 'pending' ? (
+                                    <Loader small={true} />
+                                ) : frame?.status === 'failed' ? (
+                                    <p className="text-xs text-red-300 text-center p-2">{frame.error || 'Something went wrong.'}</p>
+                                ) : (
+                                    <p className="text-xs text-gray-500 text-center p-2">Not drawn yet</p>
+                                )}
+                                {isStale && <span className="absolute top-1 left-1 text-[10px] font-semibold bg-black/70 text-amber-300 rounded px-1">Out of date</span>}
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <span className="text-xs font-semibold text-amber-400">Scene {index + 1}</span>
+                                <button
+                                    onClick={() => onRegenerateFrame(scene.scene)}
+                                    disabled={frame?.status === 'pending' || !scene.visual.trim()}
+                                    aria-label={`Redraw the frame for scene ${index + 1}`}
+                                    title={frame ? 'Redraw' : 'Draw'}
+                                    className="text-xs text-gray-400 hover:text-amber-400 transition-colors disabled:opacity-40"
+                                >
+                                    {frame ? '↻ Redraw' : 'Draw'}
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-gray-500">Frames are drawn from your product photo and each scene's visual. The slideshow uses them when you make a video.</p>
+                <button
+                    onClick={onGenerate}
+                    disabled={isDrawing || needsDrawing.length === 0}
+                    className="flex-shrink-0 bg-amber-500 text-gray-900 font-bold py-1 px-4 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out text-sm disabled:bg-gray-600 disabled:cursor-not-allowed"
+                >
+                    {needsDrawing.length === 0 ? 'Up to date' : `Draw ${needsDrawing.length} frame${needsDrawing.length === 1 ? '' : 's'}`}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,275 @@
+import React, { useState, useRef } from 'react';
+import type { VisualStyle } from '../types';
+import { MAX_STYLE_PROMPT_CHARS } from '../services/apiTypes';
+import { createStyleId, validateStyle, exportStyles, importStyles } from '../services/styleLibrary';
+import { downscaleImage } from '../services/imageUtils';
+import { storedImageUrl } from '../services/projectStore';
+import { CloseIcon, ChevronDownIcon, PencilIcon, DuplicateIcon, TrashIcon, DownloadIcon, UploadIcon, PlusIcon } from './icons';
+
+interface StyleManagerProps {
+    styles: VisualStyle[];
+    onChange: (styles: VisualStyle[]) => void;
+    onClose: () => void;
+}
+
+// Reference images only steer the look, so a small copy is plenty.
+const REFERENCE_MAX_DIMENSION = 512;
+
+const blankStyle = (): VisualStyle => ({
+    id: createStyleId(),
+    name: '',
+    description: '',
+    prompt: 'First, perfectly isolate {product} from its original background. Then, ',
+    referenceImage: null,
+    enabled: true,
+    builtIn: false,
+});
+
+const downloadJson = (json: string, filename: string) => {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'style';
+
+export const StyleManager: React.FC<StyleManagerProps> = ({ styles, onChange, onClose }) => {
+    const [draft, setDraft] = useState<VisualStyle | null>(null);
+    const [draftError, setDraftError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const move = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= styles.length) return;
+        const next = [...styles];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    const update = (id: string, changes: Partial<VisualStyle>) => {
+        onChange(styles.map(style => style.id === id ? { ...style, ...changes } : style));
+    };
+
+    const startEdit = (style: VisualStyle) => {
+        setDraft({ ...style });
+        setDraftError(null);
+    };
+
+    const duplicate = (style: VisualStyle) => {
+        startEdit({ ...style, id: createStyleId(), name: `${style.name} copy`, builtIn: false, enabled: true });
+    };
+
+    const remove = (style: VisualStyle) => {
+        if (!window.confirm(`Delete the "${style.name}" style?`)) return;
+        onChange(styles.filter(other => other.id !== style.id));
+    };
+
+    const saveDraft = () => {
+        if (!draft) return;
+        const problem = validateStyle(draft, styles);
+        if (problem) {
+            setDraftError(problem);
+            return;
+        }
+        const cleaned = { ...draft, name: draft.name.trim(), description: draft.description.trim() };
+        const exists = styles.some(style => style.id === cleaned.id);
+        onChange(exists ? styles.map(style => style.id === cleaned.id ? cleaned : style) : [...styles, cleaned]);
+        setDraft(null);
+    };
+
+    const handleReferenceSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !draft) return;
+        try {
+            const referenceImage = await downscaleImage(file, REFERENCE_MAX_DIMENSION);
+            setDraft(current => current && { ...current, referenceImage });
+        } catch (error) {
+            console.error("Failed to read reference image:", error);
+            setDraftError("Couldn't read that image. Try a JPEG or PNG.");
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = importStyles(await file.text(), styles);
+            onChange([...styles, ...imported]);
+            setMessage(`Imported ${imported.length} style${imported.length === 1 ? '' : 's'}.`);
+        } catch (error) {
+            console.error("Failed to import styles:", error);
+            setMessage(error instanceof Error ? error.message : "Couldn't import that file.");
+        }
+    };
+
+    const customStyles = styles.filter(style => !style.builtIn);
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex justify-center items-center p-4 animate-fade-in"
+            onClick={onClose}
+        >
+            <div
+                className="bg-gray-900 border border-amber-500/20 rounded-2xl shadow-2xl shadow-black/50 max-w-3xl w-full max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="sticky top-0 bg-gray-900/80 backdrop-blur-md p-6 z-10 border-b border-gray-700 flex-shrink-0">
+                    <h2 className="text-3xl font-extrabold text-amber-400">Visual Styles</h2>
+                    <p className="text-gray-400">Create your own looks, choose which ones show up, and share them with your team.</p>
+                    <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-amber-400 transition-colors">
+                        <CloseIcon className="w-8 h-8" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto custom-scrollbar">
+                    {draft ? (
+                        <div className="space-y-4">
+                            <h3 className="text-xl font-bold text-amber-300">{styles.some(style => style.id === draft.id) ? 'Edit style' : 'New style'}</h3>
+                            <label className="block space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Name</span>
+                                <input
+                                    value={draft.name}
+                                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                    placeholder="e.g. Golden Hour"
+                                    className="w-full p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300"
+                                />
+                            </label>
+                            <label className="block space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Description</span>
+                                <input
+                                    value={draft.description}
+                                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                                    placeholder="Shown under the generated image"
+                                    className="w-full p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300"
+                                />
+                            </label>
+                            <label className="block space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Prompt</span>
+                                <textarea
+                                    value={draft.prompt}
+                                    onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                                    rows={6}
+                                    className="w-full p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300 text-sm"
+                                />
+                                <span className="flex justify-between text-xs text-gray-500">
+                                    <span>Use <code className="text-amber-300">{'{product}'}</code> where the product description should go.</span>
+                                    <span className={draft.prompt.length > MAX_STYLE_PROMPT_CHARS ? 'text-red-400' : ''}>{draft.prompt.length}/{MAX_STYLE_PROMPT_CHARS}</span>
+                                </span>
+                            </label>
+                            <div className="space-y-1">
+                                <span className="text-sm font-semibold text-gray-300">Reference image (optional)</span>
+                                <div className="flex items-center gap-4">
+                                    {draft.referenceImage && (
+                                        <img src={storedImageUrl(draft.referenceImage)} alt="Style reference" className="w-20 h-20 rounded-lg object-cover" />
+                                    )}
+                                    <label className="cursor-pointer bg-gray-700 text-gray-200 font-bold py-1 px-3 rounded-lg hover:bg-gray-600 transition-colors text-sm">
+                                        {draft.referenceImage ? 'Replace' : 'Add image'}
+                                        <input type="file" accept="image/jpeg,image/png,image/webp" className="sr-only" onChange={handleReferenceSelect} />
+                                    </label>
+                                    {draft.referenceImage && (
+                                        <button onClick={() => setDraft({ ...draft, referenceImage: null })} className="text-sm text-gray-400 hover:text-red-400 transition-colors">
+                                            Remove
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                            {draftError && <p className="text-sm text-red-300">{draftError}</p>}
+                            <div className="flex gap-3">
+                                <button onClick={saveDraft} className="bg-amber-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out">
+                                    Save style
+                                </button>
+                                <button onClick={() => setDraft(null)} className="bg-gray-700 text-gray-200 font-bold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors">
+                                    Cancel
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="flex flex-wrap gap-3">
+                                <button
+                                    onClick={() => startEdit(blankStyle())}
+                                    className="bg-amber-500 text-gray-900 font-bold py-2 px-4 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out flex items-center gap-2"
+                                >
+                                    <PlusIcon className="w-5 h-5" /> New style
+                                </button>
+                                <button
+                                    onClick={() => importInputRef.current?.click()}
+                                    className="bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-lg hover:bg-gray-600 transition-colors flex items-center gap-2"
+                                >
+                                    <UploadIcon className="w-5 h-5" /> Import
+                                </button>
+                                <input ref={importInputRef} type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} />
+                                <button
+                                    onClick={() => downloadJson(exportStyles(customStyles), 'thisisus-styles.json')}
+                                    disabled={customStyles.length === 0}
+                                    className="bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-lg hover:bg-gray-600 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <DownloadIcon className="w-5 h-5" /> Export my styles
+                                </button>
+                            </div>
+                            {message && <p className="text-sm text-amber-200">{message}</p>}
+
+                            <ul className="space-y-2">
+                                {styles.map((style, index) => (
+                                    <li key={style.id} className={`flex items-center gap-3 p-3 rounded-lg border ${style.enabled ? 'bg-gray-800/50 border-gray-700' : 'bg-gray-900 border-gray-800 opacity-60'}`}>
+                                        <div className="flex flex-col">
+                                            <button onClick={() => move(index, -1)} disabled={index === 0} aria-label={`Move ${style.name} up`} className="text-gray-400 hover:text-amber-400 disabled:opacity-30">
+                                                <ChevronDownIcon className="w-4 h-4 rotate-180" />
+                                            </button>
+                                            <button onClick={() => move(index, 1)} disabled={index === styles.length - 1} aria-label={`Move ${style.name} down`} className="text-gray-400 hover:text-amber-400 disabled:opacity-30">
+                                                <ChevronDownIcon className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                        <input
+                                            type="checkbox"
+                                            checked={style.enabled}
+                                            onChange={(e) => update(style.id, { enabled: e.target.checked })}
+                                            aria-label={`Enable ${style.name}`}
+                                            className="w-4 h-4 accent-amber-500"
+                                        />
+                                        {style.referenceImage && (
+                                            <img src={storedImageUrl(style.referenceImage)} alt="" className="w-10 h-10 rounded-md object-cover" />
+                                        )}
+                                        <div className="flex-grow min-w-0">
+                                            <p className="font-semibold text-amber-300">
+                                                {style.name}
+                                                {style.builtIn && <span className="ml-2 text-xs font-normal text-gray-500">Built-in</span>}
+                                            </p>
+                                            <p className="text-xs text-gray-400 truncate">{style.description}</p>
+                                        </div>
+                                        {!style.builtIn && (
+                                            <button onClick={() => startEdit(style)} title="Edit" aria-label={`Edit ${style.name}`} className="p-1 text-gray-400 hover:text-amber-400 transition-colors">
+                                                <PencilIcon className="w-5 h-5" />
+                                            </button>
+                                        )}
+                                        <button onClick={() => duplicate(style)} title="Duplicate" aria-label={`Duplicate ${style.name}`} className="p-1 text-gray-400 hover:text-amber-400 transition-colors">
+                                            <DuplicateIcon className="w-5 h-5" />
+                                        </button>
+                                        {!style.builtIn && (
+                                            <>
+                                                <button onClick={() => downloadJson(exportStyles([style]), `${slugify(style.name)}.style.json`)} title="Share" aria-label={`Share ${style.name}`} className="p-1 text-gray-400 hover:text-amber-400 transition-colors">
+                                                    <DownloadIcon className="w-5 h-5" />
+                                                </button>
+                                                <button onClick={() => remove(style)} title="Delete" aria-label={`Delete ${style.name}`} className="p-1 text-gray-400 hover:text-red-400 transition-colors">
+                                                    <TrashIcon className="w-5 h-5" />
+                                                </button>
+                                            </>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
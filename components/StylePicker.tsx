@@ -0,0 +1,46 @@
+import React from 'react';
+import type { VisualStyle } from '../types';
+
+interface StylePickerProps {
+    styles: VisualStyle[];
+    // null means every enabled style.
+    selectedIds: string[] | null;
+    onChange: (ids: string[]) => void;
+    onManage: () => void;
+}
+
+export const StylePicker: React.FC<StylePickerProps> = ({ styles, selectedIds, onChange, onManage }) => {
+    const available = styles.filter(style => style.enabled);
+    const selected = selectedIds ?? available.map(style => style.id);
+
+    const toggle = (id: string) => {
+        onChange(selected.includes(id) ? selected.filter(selectedId => selectedId !== id) : [...selected, id]);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-gray-300">Visual styles</span>
+                <button onClick={onManage} className="text-xs text-amber-400 hover:text-amber-300 hover:underline transition-colors">
+                    Manage styles
+                </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+                {available.map(style => (
+                    <button
+                        key={style.id}
+                        onClick={() => toggle(style.id)}
+                        title={style.description}
+                        aria-pressed={selected.includes(style.id)}
+                        className={`px-3 py-1 text-sm rounded-full border transition-colors ${selected.includes(style.id) ? 'bg-amber-500 border-amber-500 text-gray-900 font-semibold' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-500/50'}`}
+                    >
+                        {style.name}
+                    </button>
+                ))}
+            </div>
+            {!available.some(style => selected.includes(style.id)) && (
+                <p className="text-xs text-gray-500">No styles selected, so only the marketing copy will be generated.</p>
+            )}
+        </div>
+    );
+};
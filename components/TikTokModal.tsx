@@ -1,17 +1,27 @@
 import React, { useState } from 'react';
 import { CloseIcon, RocketIcon, CheckCircleIcon } from './icons';
-import type { ImageVariant, MarketingContent } from '../types';
+import type { HashtagEntry, ImageVariant, MarketingContent } from '../types';
+import { EXPORT_PRESETS, renderExport, downloadBlob, exportFilename } from '../services/imageExport';
+import { HASHTAG_LIMITS, tagsFor } from '../services/hashtags';
+
+const TIKTOK_PRESET = EXPORT_PRESETS.find(preset => preset.id === 'tiktok')!;
 
 interface TikTokModalProps {
   onClose: () => void;
   variants: ImageVariant[];
   marketingContent: MarketingContent | null;
+  // The hashtag workspace; its best tags for TikTok go with the caption.
+  hashtags: HashtagEntry[];
 }
 
-export const TikTokModal: React.FC<TikTokModalProps> = ({ onClose, variants, marketingContent }) => {
+export const TikTokModal: React.FC<TikTokModalProps> = ({ onClose, variants: allVariants, marketingContent, hashtags }) => {
+  // Only finished visuals can be posted; pending and failed styles are left out.
+  const variants = allVariants.filter(variant => variant.status === 'succeeded');
   const [selectedVariant, setSelectedVariant] = useState<ImageVariant | null>(null);
   const [selectedCaption, setSelectedCaption] = useState<string | null>(null);
   const [isCopied, setIsCopied] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const tiktokTags = tagsFor(hashtags, 'tiktok');
 
   if (!marketingContent || variants.length === 0) {
      // Render a fallback or loading state if content isn't ready
@@ -27,24 +37,27 @@ export const TikTokModal: React.FC<TikTokModalProps> = ({ onClose, variants, mar
     );
   }
 
-  const handlePreparePost = () => {
+  const handlePreparePost = async () => {
     if (!selectedVariant || !selectedCaption) return;
+    setExportError(null);
 
     // 1. Copy text to clipboard
-    const fullText = `${selectedCaption}\n\n${marketingContent.hashtags.join(' ')}`;
+    const fullText = `${selectedCaption}\n\n${tiktokTags.join(' ')}`;
     navigator.clipboard.writeText(fullText).then(() => {
       setIsCopied(true);
       setTimeout(() => setIsCopied(false), 2500);
     });
 
-    // 2. Download image
-    const link = document.createElement('a');
-    link.href = selectedVariant.url;
-    link.download = `${selectedVariant.style.toLowerCase().replace(/\s+/g, '-')}-tiktok.jpeg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    
+    // 2. Download the image cropped to TikTok's 9:16
+    try {
+      const blob = await renderExport(selectedVariant.url, TIKTOK_PRESET, { fit: 'crop', format: 'image/jpeg', quality: 0.92 });
+      downloadBlob(blob, exportFilename(selectedVariant.style, TIKTOK_PRESET, blob.type));
+    } catch (error) {
+      console.error("Failed to export image for TikTok:", error);
+      setExportError("Couldn't prepare the image. Try exporting it from the results instead.");
+      return;
+    }
+
     // 3. Open TikTok
     window.open('https://www.tiktok.com/upload', '_blank');
     
@@ -93,7 +106,7 @@ export const TikTokModal: React.FC<TikTokModalProps> = ({ onClose, variants, mar
             <div>
                 <h3 className="text-xl font-bold text-amber-300 mb-4">2. Choose a Caption</h3>
                 <div className="space-y-3">
-                    {marketingContent.captions.map((caption, index) => (
+                    {[...(marketingContent.platforms ? [marketingContent.platforms.tiktok.caption] : []), ...marketingContent.captions].map((caption, index) => (
                          <div 
                             key={index} 
                             className={`p-4 rounded-lg cursor-pointer border-2 transition-all duration-300 ${selectedCaption === caption ? 'bg-amber-500/10 border-amber-400' : 'bg-gray-800 border-gray-700 hover:border-amber-500/50'}`}
@@ -107,9 +120,9 @@ export const TikTokModal: React.FC<TikTokModalProps> = ({ onClose, variants, mar
 
             {/* Step 3: Hashtags */}
             <div>
-                <h3 className="text-xl font-bold text-amber-300 mb-4">3. Hashtags <span className="text-sm font-normal text-gray-400">(will be copied with your caption)</span></h3>
+                <h3 className="text-xl font-bold text-amber-300 mb-4">3. Hashtags <span className="text-sm font-normal text-gray-400">(the top {HASHTAG_LIMITS.tiktok} from your hashtag workspace, copied with your caption)</span></h3>
                 <div className="flex flex-wrap gap-2">
-                  {marketingContent.hashtags.map((tag, i) => (
+                  {tiktokTags.map((tag, i) => (
                       <span key={i} className="px-3 py-1 bg-gray-700 text-amber-300 text-sm rounded-full">{tag}</span>
                   ))}
               </div>
@@ -123,6 +136,7 @@ export const TikTokModal: React.FC<TikTokModalProps> = ({ onClose, variants, mar
                     <strong>Quick Tip:</strong> TikTok automatically turns your photo into a video post! We'll download the image for you to upload.
                 </p>
             </div>
+            {exportError && <p className="mb-3 text-sm text-red-300 text-center">{exportError}</p>}
             <button
                 onClick={handlePreparePost}
                 disabled={!isReady || isCopied}
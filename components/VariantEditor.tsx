@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import type { ImageVariant, VariantEditState } from '../types';
+import { MAX_EDIT_INSTRUCTION_CHARS } from '../services/apiTypes';
+
+interface VariantEditorProps {
+    variant: ImageVariant;
+    edit: VariantEditState | undefined;
+    onEdit: (instruction: string) => void;
+    onUndo: () => void;
+}
+
+const SUGGESTIONS = ['Warmer lighting', 'Put it on a marble counter', 'Remove the shadow'];
+
+export const VariantEditor: React.FC<VariantEditorProps> = ({ variant, edit, onEdit, onUndo }) => {
+    const [instruction, setInstruction] = useState('');
+    const isPending = edit?.status === 'pending';
+    const edits = variant.edits ?? [];
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!instruction.trim() || isPending) return;
+        onEdit(instruction.trim());
+        setInstruction('');
+    };
+
+    return (
+        <div className="mt-3 space-y-2 text-left">
+            <form onSubmit={submit} className="flex gap-2">
+                <input
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    maxLength={MAX_EDIT_INSTRUCTION_CHARS}
+                    placeholder="Describe a change..."
+                    aria-label={`Edit instruction for ${variant.style}`}
+                    className="flex-grow min-w-0 p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300 text-sm"
+                />
+                <button
+                    type="submit"
+                    disabled={!instruction.trim() || isPending}
+                    className="bg-amber-500 text-gray-900 font-bold py-1 px-3 rounded-lg hover:bg-amber-400 transition-colors text-sm disabled:bg-gray-600 disabled:cursor-not-allowed"
+                >
+                    Apply
+                </button>
+            </form>
+            {edits.length === 0 && !isPending && (
+                <div className="flex flex-wrap gap-1">
+                    {SUGGESTIONS.map(suggestion => (
+                        <button
+                            key={suggestion}
+                            onClick={() => setInstruction(suggestion)}
+                            className="px-2 py-0.5 text-xs rounded-full bg-gray-800 border border-gray-700 text-gray-400 hover:border-amber-500/50 transition-colors"
+                        >
+                            {suggestion}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {isPending && <p className="text-xs text-gray-400">Applying "{edit!.instruction}"...</p>}
+            {edit?.status === 'failed' && <p className="text-xs text-red-300">{edit.error}</p>}
+            {edits.length > 0 && (
+                <div className="flex items-start justify-between gap-2">
+                    <ol className="text-xs text-gray-400 list-decimal list-inside">
+                        {edits.map((applied, i) => <li key={i}>{applied.instruction}</li>)}
+                    </ol>
+                    <button
+                        onClick={onUndo}
+                        disabled={isPending}
+                        className="flex-shrink-0 text-xs text-amber-400 hover:text-amber-300 hover:underline transition-colors disabled:text-gray-600 disabled:no-underline disabled:cursor-not-allowed"
+                    >
+                        Undo
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
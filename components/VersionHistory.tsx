@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import type { FinalSet, ImageVariant, ProjectVersion } from '../types';
+import { BookmarkIcon } from './icons';
+
+interface VersionHistoryProps {
+    // Sealed runs, oldest first.
+    versions: ProjectVersion[];
+    // The run currently shown in the workspace, if any.
+    current: ProjectVersion | null;
+    finals: FinalSet;
+    onPinImage: (versionId: string, variant: ImageVariant) => void;
+    onPinCaption: (versionId: string, caption: string) => void;
+}
+
+const PinButton: React.FC<{pinned: boolean; label: string; onClick: () => void}> = ({ pinned, label, onClick }) => (
+    <button
+        onClick={onClick}
+        disabled={pinned}
+        aria-label={pinned ? `${label} is pinned` : `Pin ${label}`}
+        title={pinned ? 'Pinned to final set' : 'Pin to final set'}
+        className={`p-1.5 rounded-full transition-colors ${pinned ? 'bg-amber-500 text-gray-900 cursor-default' : 'bg-black/60 text-gray-300 hover:text-white hover:bg-amber-500'}`}
+    >
+        <BookmarkIcon className="w-4 h-4" />
+    </button>
+);
+
+const summarize = (version: ProjectVersion): string => {
+    const succeeded = version.variants.filter(v => v.status === 'succeeded').length;
+    return [
+        `${succeeded}/${version.variants.length} visuals`,
+        version.marketingContent ? 'copy' : 'no copy',
+        version.videoScripts.length === 1 ? '1 script' : `${version.videoScripts.length || 'no'} scripts`,
+    ].join(' · ');
+};
+
+const VersionColumn: React.FC<{
+    version: ProjectVersion;
+    finals: FinalSet;
+    onPinImage: VersionHistoryProps['onPinImage'];
+    onPinCaption: VersionHistoryProps['onPinCaption'];
+}> = ({ version, finals, onPinImage, onPinCaption }) => {
+    const visuals = version.variants.filter(v => v.status === 'succeeded');
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+                {visuals.length === 0 && <p className="col-span-2 text-sm text-gray-500">No visuals in this run.</p>}
+                {visuals.map(variant => (
+                    <div key={variant.style} className="relative">
+                        <img src={variant.url} alt={`${variant.style} variant`} className="rounded-lg w-full h-auto object-cover" />
+                        <div className="absolute top-1 right-1">
+                            <PinButton
+                                pinned={finals.images.some(image => image.versionId === version.id && image.style === variant.style)}
+                                label={`${variant.style} image`}
+                                onClick={() => onPinImage(version.id, variant)}
+                            />
+                        </div>
+                        <p className="text-xs text-center text-amber-400 mt-1">{variant.style}</p>
+                    </div>
+                ))}
+            </div>
+            {version.marketingContent && (
+                <div className="space-y-2">
+                    <h5 className="text-sm font-semibold text-gray-400">Captions</h5>
+                    {version.marketingContent.captions.map((caption, i) => (
+                        <div key={i} className="flex items-start gap-2 p-2 bg-gray-800/50 rounded-lg text-sm text-gray-300">
+                            <p className="flex-grow">{caption}</p>
+                            <PinButton
+                                pinned={finals.captions.some(pinned => pinned.versionId === version.id && pinned.text === caption)}
+                                label="caption"
+                                onClick={() => onPinCaption(version.id, caption)}
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+            {version.videoScripts.map(script => (
+                <p key={script.id} className="text-sm text-gray-400">
+                    <span className="font-semibold">Script:</span> {script.title} ({script.scenes.length} scenes)
+                </p>
+            ))}
+        </div>
+    );
+};
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, current, finals, onPinImage, onPinCaption }) => {
+    const [compareIds, setCompareIds] = useState<[string, string] | null>(null);
+
+    const all = current ? [...versions, current] : versions;
+    const labelFor = (version: ProjectVersion) => {
+        const label = `Run ${all.indexOf(version) + 1}`;
+        return version === current ? `${label} (current)` : label;
+    };
+    // Any run is compared against the latest one by default; the latest against the run before it.
+    const latest = all[all.length - 1];
+    const compared = compareIds && compareIds.map(id => all.find(version => version.id === id));
+
+    return (
+        <div className="space-y-6">
+            <ol className="space-y-2">
+                {[...all].reverse().map(version => (
+                    <li key={version.id} className="flex items-center gap-3 p-3 bg-gray-800/50 rounded-lg">
+                        <div className="flex -space-x-3 flex-shrink-0">
+                            {version.variants.filter(v => v.status === 'succeeded').slice(0, 3).map(variant => (
+                                <img key={variant.style} src={variant.url} alt="" className="w-10 h-10 rounded-md object-cover border-2 border-gray-900" />
+                            ))}
+                        </div>
+                        <div className="flex-grow min-w-0">
+                            <p className="font-semibold text-amber-300">{labelFor(version)}</p>
+                            <p className="text-xs text-gray-400">{new Date(version.startedAt).toLocaleString()} · {summarize(version)}</p>
+                        </div>
+                        <button
+                            onClick={() => setCompareIds([version.id, (version === latest ? all[all.length - 2] : latest).id])}
+                            disabled={all.length < 2}
+                            className="flex-shrink-0 bg-gray-700 text-gray-200 font-bold py-1 px-3 rounded-lg hover:bg-amber-500 hover:text-gray-900 transition-colors text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Compare
+                        </button>
+                    </li>
+                ))}
+            </ol>
+
+            {compared && compared[0] && compared[1] && (
+                <div className="border-t border-gray-700 pt-4">
+                    <div className="flex justify-between items-center mb-4">
+                        <h4 className="text-lg font-bold text-amber-400">Side-by-side</h4>
+                        <button onClick={() => setCompareIds(null)} className="text-sm text-gray-400 hover:text-amber-400 transition-colors">Close</button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        {compared.map((version, side) => (
+                            <div key={side} className="space-y-3">
+                                <select
+                                    value={version.id}
+                                    onChange={(e) => setCompareIds(ids => {
+                                        const next: [string, string] = [ids![0], ids![1]];
+                                        next[side] = e.target.value;
+                                        return next;
+                                    })}
+                                    className="w-full p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-300 text-sm"
+                                >
+                                    {all.map(option => <option key={option.id} value={option.id}>{labelFor(option)}</option>)}
+                                </select>
+                                <VersionColumn version={version} finals={finals} onPinImage={onPinImage} onPinCaption={onPinCaption} />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
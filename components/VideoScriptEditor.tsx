@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import type { VideoScript, VideoScriptScene, SceneRewriteState } from '../types';
+import { MAX_EDIT_INSTRUCTION_CHARS } from '../services/apiTypes';
+import { Loader } from './Loader';
+import { TrashIcon, PlusIcon } from './icons';
+
+interface VideoScriptEditorProps {
+    script: VideoScript;
+    onChange: (script: VideoScript) => void;
+    // The id for an added scene; ids are unique across the project's scripts.
+    nextSceneId: number;
+    // Keyed by scene id.
+    sceneRewrites: Record<number, SceneRewriteState>;
+    onRewriteScene: (sceneId: number, instruction: string) => void;
+}
+
+// Average speaking rate, for the read-time estimate.
+const WORDS_PER_SECOND = 2.5;
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+const inputClasses = "w-full p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300 text-sm";
+
+export const VideoScriptEditor: React.FC<VideoScriptEditorProps> = ({ script, onChange, nextSceneId, sceneRewrites, onRewriteScene }) => {
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+    // The scene whose rewrite box is open, and what's typed in it.
+    const [rewriting, setRewriting] = useState<{ sceneId: number; instruction: string } | null>(null);
+
+    const updateScene = (sceneId: number, changes: Partial<VideoScriptScene>) =>
+        onChange({ ...script, scenes: script.scenes.map(scene => scene.scene === sceneId ? { ...scene, ...changes } : scene) });
+
+    const removeScene = (sceneId: number) =>
+        onChange({ ...script, scenes: script.scenes.filter(scene => scene.scene !== sceneId) });
+
+    const addScene = () =>
+        onChange({ ...script, scenes: [...script.scenes, { scene: nextSceneId, visual: '', voiceover: '' }] });
+
+    const moveScene = (from: number, to: number) => {
+        if (from === to) return;
+        const scenes = [...script.scenes];
+        const [moved] = scenes.splice(from, 1);
+        scenes.splice(to, 0, moved);
+        onChange({ ...script, scenes });
+    };
+
+    const handleDragStart = (e: React.DragEvent<HTMLElement>, index: number) => {
+        setDragIndex(index);
+        e.dataTransfer.effectAllowed = 'move';
+        // Drag the whole scene card, not just the handle.
+        const card = e.currentTarget.closest('[data-scene-card]');
+        if (card) e.dataTransfer.setDragImage(card, 16, 16);
+    };
+
+    const handleDrop = (index: number) => {
+        if (dragIndex !== null) moveScene(dragIndex, index);
+        setDragIndex(null);
+        setDropIndex(null);
+    };
+
+    const handleRewrite = () => {
+        if (!rewriting?.instruction.trim()) return;
+        onRewriteScene(rewriting.sceneId, rewriting.instruction.trim());
+        setRewriting(null);
+    };
+
+    const readSeconds = Math.round(script.scenes.reduce((sum, scene) => sum + countWords(scene.voiceover), 0) / WORDS_PER_SECOND);
+
+    return (
+        <div className="space-y-4">
+            <input
+                value={script.title}
+                onChange={(e) => onChange({ ...script, title: e.target.value })}
+                aria-label="Script title"
+                className="w-full bg-transparent text-lg font-bold text-amber-400 border-b border-transparent hover:border-gray-700 focus:border-amber-500 focus:outline-none"
+            />
+            {script.scenes.map((scene, index) => {
+                const rewrite = sceneRewrites[scene.scene];
+                const isPending = rewrite?.status === 'pending';
+                return (
+                    <div
+                        key={scene.scene}
+                        data-scene-card
+                        onDragOver={(e) => { if (dragIndex !== null) { e.preventDefault(); setDropIndex(index); } }}
+                        onDrop={() => handleDrop(index)}
+                        className={`p-4 bg-gray-800/50 rounded-lg border-l-4 space-y-2 transition-all ${dropIndex === index && dragIndex !== index ? 'border-amber-300 ring-1 ring-amber-400/50' : 'border-amber-500'} ${dragIndex === index ? 'opacity-50' : ''}`}
+                    >
+                        <div className="flex items-center gap-2">
+                            <span
+                                draggable={!isPending}
+                                onDragStart={(e) => handleDragStart(e, index)}
+                                onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+                                title="Drag to reorder"
+                                aria-hidden="true"
+                                className="cursor-grab text-gray-500 hover:text-amber-400 select-none px-1"
+                            >
+                                ⠿
+                            </span>
+                            <p className="font-bold text-amber-400 flex-grow">Scene {index + 1}</p>
+                            <span className="text-xs text-gray-500">≈ {Math.round(countWords(scene.voiceover) / WORDS_PER_SECOND)}s</span>
+                            <button
+                                onClick={() => setRewriting(rewriting?.sceneId === scene.scene ? null : { sceneId: scene.scene, instruction: '' })}
+                                disabled={isPending}
+                                className="text-xs font-semibold text-amber-400 hover:text-amber-300 transition-colors disabled:opacity-50"
+                            >
+                                ✨ Rewrite
+                            </button>
+                            <button
+                                onClick={() => removeScene(scene.scene)}
+                                disabled={script.scenes.length <= 1 || isPending}
+                                aria-label={`Remove scene ${index + 1}`}
+                                title="Remove scene"
+                                className="p-1 text-gray-500 hover:text-red-400 transition-colors disabled:opacity-30"
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                        <div className="relative space-y-2">
+                            <label className="block space-y-1">
+                                <span className="text-xs font-semibold text-gray-400">Visual</span>
+                                <textarea value={scene.visual} onChange={(e) => updateScene(scene.scene, { visual: e.target.value })} disabled={isPending} rows={2} className={inputClasses} />
+                            </label>
+                            <label className="block space-y-1">
+                                <span className="text-xs font-semibold text-gray-400">Voiceover</span>
+                                <textarea value={scene.voiceover} onChange={(e) => updateScene(scene.scene, { voiceover: e.target.value })} disabled={isPending} rows={2} className={`${inputClasses} italic`} />
+                            </label>
+                            {isPending && (
+                                <div className="absolute inset-0 rounded-lg bg-black/50 flex items-center justify-center">
+                                    <Loader small={true} />
+                                </div>
+                            )}
+                        </div>
+                        {rewrite?.status === 'failed' && <p className="text-xs text-red-300">{rewrite.error}</p>}
+                        {rewriting?.sceneId === scene.scene && (
+                            <div className="flex gap-2">
+                                <input
+                                    value={rewriting.instruction}
+                                    onChange={(e) => setRewriting({ sceneId: scene.scene, instruction: e.target.value })}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') handleRewrite(); }}
+                                    maxLength={MAX_EDIT_INSTRUCTION_CHARS}
+                                    placeholder="e.g. make it funnier, mention free shipping"
+                                    autoFocus
+                                    className={inputClasses}
+                                />
+                                <button
+                                    onClick={handleRewrite}
+                                    disabled={!rewriting.instruction.trim()}
+                                    className="bg-amber-500 text-gray-900 font-bold py-1 px-4 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out text-sm disabled:bg-gray-600 disabled:cursor-not-allowed"
+                                >
+                                    Apply
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+            <div className="flex items-center justify-between gap-3">
+                <button
+                    onClick={addScene}
+                    className="flex items-center gap-1 text-sm font-semibold text-amber-400 hover:text-amber-300 transition-colors"
+                >
+                    <PlusIcon className="w-4 h-4" /> Add scene
+                </button>
+                <span className={`text-xs ${script.length && readSeconds > script.length ? 'text-red-300' : 'text-gray-500'}`}>
+                    ≈ {readSeconds}s of voiceover{script.length && ` · target ${script.length}s`}
+                </span>
+            </div>
+        </div>
+    );
+};
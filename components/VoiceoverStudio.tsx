@@ -0,0 +1,278 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { SpeechPace, VideoScript, VoiceoverState, VoiceoverTake } from '../types';
+import { generateSpeech } from '../services/geminiService';
+import { describeApiError } from '../services/apiClient';
+import { isAbortError } from '../services/requestRunner';
+import { SPEECH_VOICES, MAX_SPEECH_DIRECTION_CHARS } from '../services/apiTypes';
+import { decodeBase64, pcmDuration, concatPcm, pcmToWav } from '../services/audioUtils';
+import { downloadBlob, slugify } from '../services/imageExport';
+import { Loader } from './Loader';
+import { PlayIcon, StopIcon, DownloadIcon, TrashIcon, CheckCircleIcon } from './icons';
+
+interface VoiceoverStudioProps {
+    script: VideoScript;
+    voiceover: VoiceoverState;
+    // Takes are read with this locale's accent.
+    locale: string;
+    onAddTake: (take: VoiceoverTake) => void;
+    onChooseTake: (scene: number, takeId: string) => void;
+    onDeleteTake: (takeId: string) => void;
+}
+
+// Short-form ads land best between 15 and 30 seconds; scripts with a set length aim for its last quarter.
+const DEFAULT_TARGET_SECONDS: [number, number] = [15, 30];
+// Pause between scenes in the full track.
+const SCENE_GAP_SECONDS = 0.3;
+
+const PACES: { id: SpeechPace; label: string }[] = [
+    { id: 'slow', label: 'Slow' },
+    { id: 'natural', label: 'Natural' },
+    { id: 'fast', label: 'Fast' },
+];
+
+const DIRECTION_SUGGESTIONS = ['warmly', 'with excitement', 'calmly and confidently', 'like a friend sharing a secret'];
+
+const inputClasses = "w-full p-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-gray-300 text-sm";
+
+export const VoiceoverStudio: React.FC<VoiceoverStudioProps> = ({ script, voiceover, locale, onAddTake, onChooseTake, onDeleteTake }) => {
+    const [voice, setVoice] = useState(SPEECH_VOICES[0]);
+    const [direction, setDirection] = useState('');
+    const [pace, setPace] = useState<SpeechPace>('natural');
+    const [pending, setPending] = useState<Record<number, boolean>>({});
+    const [errors, setErrors] = useState<Record<number, string>>({});
+    // A take id, or 'track' for the full voiceover.
+    const [playing, setPlaying] = useState<string | null>(null);
+    const controllersRef = useRef(new Map<number, AbortController>());
+    const audioRef = useRef<{ element: HTMLAudioElement; url: string } | null>(null);
+
+    const stopPlayback = () => {
+        if (!audioRef.current) return;
+        audioRef.current.element.pause();
+        URL.revokeObjectURL(audioRef.current.url);
+        audioRef.current = null;
+        setPlaying(null);
+    };
+
+    useEffect(() => () => {
+        controllersRef.current.forEach(controller => controller.abort());
+        stopPlayback();
+    }, []);
+
+    // A chosen take recorded before its line was edited is out of date and left out of the track.
+    const chosenTakes = script.scenes.map(scene => voiceover.takes.find(take => take.id === voiceover.chosen[scene.scene] && take.text === scene.voiceover) ?? null);
+    const recordedTakes = chosenTakes.filter((take): take is VoiceoverTake => take !== null);
+    const totalSeconds = recordedTakes.reduce((sum, take) => sum + take.duration, 0) + SCENE_GAP_SECONDS * Math.max(recordedTakes.length - 1, 0);
+    const target: [number, number] = script.length ? [Math.round(script.length * 0.75), script.length] : DEFAULT_TARGET_SECONDS;
+    const isOverTarget = totalSeconds > target[1];
+    const isInTarget = totalSeconds >= target[0] && !isOverTarget;
+
+    const recordTake = async (scene: VideoScript['scenes'][number]) => {
+        controllersRef.current.get(scene.scene)?.abort();
+        const controller = new AbortController();
+        controllersRef.current.set(scene.scene, controller);
+        setPending(prev => ({ ...prev, [scene.scene]: true }));
+        setErrors(prev => {
+            const { [scene.scene]: _, ...rest } = prev;
+            return rest;
+        });
+        try {
+            const audio = await generateSpeech(scene.voiceover, voice, direction, pace, locale, { signal: controller.signal });
+            onAddTake({
+                id: crypto.randomUUID(),
+                scene: scene.scene,
+                text: scene.voiceover,
+                voice,
+                direction: direction.trim(),
+                pace,
+                audio,
+                duration: pcmDuration(decodeBase64(audio)),
+                createdAt: Date.now(),
+            });
+        } catch (error) {
+            if (isAbortError(error)) return;
+            console.error("Voiceover take failed:", error);
+            setErrors(prev => ({ ...prev, [scene.scene]: describeApiError(error, "Couldn't record this take.") }));
+        } finally {
+            if (controllersRef.current.get(scene.scene) === controller) {
+                controllersRef.current.delete(scene.scene);
+                setPending(prev => ({ ...prev, [scene.scene]: false }));
+            }
+        }
+    };
+
+    // One scene at a time, to stay well inside the speech quota.
+    const handleRecordAll = async () => {
+        for (const scene of script.scenes) {
+            await recordTake(scene);
+        }
+    };
+
+    const play = (id: string, wav: Blob) => {
+        stopPlayback();
+        const url = URL.createObjectURL(wav);
+        const element = new Audio(url);
+        element.onended = stopPlayback;
+        audioRef.current = { element, url };
+        setPlaying(id);
+        element.play().catch(error => {
+            console.error("Playback failed:", error);
+            stopPlayback();
+        });
+    };
+
+    const trackWav = () => pcmToWav(concatPcm(recordedTakes.map(take => decodeBase64(take.audio)), SCENE_GAP_SECONDS));
+    const takeWav = (take: VoiceoverTake) => pcmToWav(decodeBase64(take.audio));
+    const baseName = slugify(script.title, 'voiceover');
+
+    const optionClasses = (active: boolean) =>
+        `px-3 py-1 text-sm rounded-full border transition-colors ${active ? 'bg-amber-500 border-amber-500 text-gray-900 font-semibold' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-500/50'}`;
+    const iconButtonClasses = "p-1.5 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors";
+
+    return (
+        <div className="space-y-4 p-4 bg-gray-900/60 rounded-lg border border-gray-700">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="block space-y-1">
+                    <span className="text-sm font-semibold text-gray-300">Voice</span>
+                    <select value={voice} onChange={(e) => setVoice(e.target.value)} className={inputClasses}>
+                        {SPEECH_VOICES.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </label>
+                <div className="space-y-1">
+                    <span className="text-sm font-semibold text-gray-300">Pace</span>
+                    <div className="flex gap-2">
+                        {PACES.map(option => (
+                            <button key={option.id} onClick={() => setPace(option.id)} aria-pressed={pace === option.id} className={optionClasses(pace === option.id)}>
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+            <label className="block space-y-1">
+                <span className="text-sm font-semibold text-gray-300">Direction</span>
+                <input
+                    value={direction}
+                    onChange={(e) => setDirection(e.target.value)}
+                    maxLength={MAX_SPEECH_DIRECTION_CHARS}
+                    placeholder="e.g. with excitement, like a sports announcer"
+                    className={inputClasses}
+                />
+            </label>
+            <div className="flex flex-wrap gap-2 -mt-2">
+                {DIRECTION_SUGGESTIONS.map(suggestion => (
+                    <button key={suggestion} onClick={() => setDirection(suggestion)} className="text-xs text-amber-400 hover:text-amber-300 transition-colors">
+                        {suggestion}
+                    </button>
+                ))}
+            </div>
+
+            <div className="space-y-3">
+                {script.scenes.map((scene, position) => {
+                    const takes = voiceover.takes.filter(take => take.scene === scene.scene);
+                    return (
+                        <div key={scene.scene} className="space-y-2">
+                            <div className="flex items-center justify-between gap-3">
+                                <p className="text-sm font-semibold text-amber-400">Scene {position + 1}</p>
+                                <button
+                                    onClick={() => recordTake(scene)}
+                                    disabled={pending[scene.scene]}
+                                    className="bg-gray-700 text-gray-200 font-bold py-1 px-3 rounded-lg hover:bg-gray-600 transition-colors text-xs disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                                >
+                                    {pending[scene.scene] ? <Loader small={true} /> : takes.length > 0 ? 'New take' : 'Record'}
+                                </button>
+                            </div>
+                            {errors[scene.scene] && <p className="text-xs text-red-300">{errors[scene.scene]}</p>}
+                            {takes.map((take, i) => {
+                                const isChosen = voiceover.chosen[scene.scene] === take.id;
+                                const isOutOfDate = take.text !== scene.voiceover;
+                                return (
+                                    <div key={take.id} className={`flex items-center gap-2 px-2 py-1 rounded-md text-xs ${isChosen ? 'bg-amber-500/10 border border-amber-500/40' : 'bg-gray-800/60 border border-transparent'}`}>
+                                        <button
+                                            onClick={() => onChooseTake(scene.scene, take.id)}
+                                            aria-pressed={isChosen}
+                                            aria-label={`Use take ${i + 1} for scene ${position + 1}`}
+                                            title={isChosen ? (isOutOfDate ? 'Out of date, so left out of the full track' : 'Used in the full track') : 'Use this take'}
+                                            className={isChosen ? 'text-amber-400' : 'text-gray-500 hover:text-amber-400 transition-colors'}
+                                        >
+                                            <CheckCircleIcon className="w-5 h-5" />
+                                        </button>
+                                        <button
+                                            onClick={() => playing === take.id ? stopPlayback() : play(take.id, takeWav(take))}
+                                            aria-label={playing === take.id ? 'Stop' : `Play take ${i + 1}`}
+                                            className={iconButtonClasses}
+                                        >
+                                            {playing === take.id ? <StopIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                                        </button>
+                                        <span className="flex-grow text-gray-300 truncate">
+                                            Take {i + 1} · {take.voice} · {take.pace}{take.direction && ` · ${take.direction}`}
+                                            {isOutOfDate && <span className={isChosen ? 'text-red-300' : 'text-gray-500'}> · {isChosen ? 'out of date, record a new take' : 'older line'}</span>}
+                                        </span>
+                                        <span className="text-gray-500">{take.duration.toFixed(1)}s</span>
+                                        <button
+                                            onClick={() => downloadBlob(takeWav(take), `${baseName}-scene-${position + 1}-take-${i + 1}.wav`)}
+                                            aria-label={`Download take ${i + 1}`}
+                                            title="Download WAV"
+                                            className={iconButtonClasses}
+                                        >
+                                            <DownloadIcon className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => onDeleteTake(take.id)}
+                                            aria-label={`Delete take ${i + 1}`}
+                                            title="Delete"
+                                            className="p-1.5 rounded-full text-gray-400 hover:text-white hover:bg-red-500 transition-colors"
+                                        >
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="space-y-1">
+                <div className="flex justify-between text-xs text-gray-400">
+                    <span>
+                        {totalSeconds.toFixed(1)}s recorded
+                        {recordedTakes.length < script.scenes.length && ` · ${script.scenes.length - recordedTakes.length} scene(s) without a current take`}
+                    </span>
+                    <span>Target {target[0]}–{target[1]}s</span>
+                </div>
+                <div className="relative h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                        className={`h-full transition-all ${isOverTarget ? 'bg-red-500' : isInTarget ? 'bg-green-500' : 'bg-amber-500'}`}
+                        style={{ width: `${Math.min(totalSeconds / (target[1] * 1.2), 1) * 100}%` }}
+                    />
+                    <div className="absolute inset-y-0 border-x border-gray-300/60" style={{ left: `${target[0] / (target[1] * 1.2) * 100}%`, right: `${(1 - 1 / 1.2) * 100}%` }} />
+                </div>
+                {isOverTarget && <p className="text-xs text-red-300">That's longer than most viewers stay. Try a faster pace or trim a scene.</p>}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                <button
+                    onClick={handleRecordAll}
+                    disabled={Object.values(pending).some(Boolean)}
+                    className="bg-amber-500 text-gray-900 font-bold py-2 px-4 rounded-lg hover:bg-amber-400 transition-all duration-300 ease-in-out disabled:bg-gray-600 disabled:cursor-not-allowed text-sm"
+                >
+                    🎙️ Record all scenes
+                </button>
+                <button
+                    onClick={() => playing === 'track' ? stopPlayback() : play('track', trackWav())}
+                    disabled={recordedTakes.length === 0}
+                    className="bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm flex items-center gap-2"
+                >
+                    {playing === 'track' ? <StopIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />} Full track
+                </button>
+                <button
+                    onClick={() => downloadBlob(trackWav(), `${baseName}-voiceover.wav`)}
+                    disabled={recordedTakes.length === 0}
+                    className="bg-gray-700 text-gray-200 font-bold py-2 px-4 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm flex items-center gap-2"
+                >
+                    <DownloadIcon className="w-4 h-4" /> Full track WAV
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,16 +1,31 @@
-import type { ImageVariant } from './types';
+import type { VisualStyle } from './types';
 
-export const IMAGE_VARIANTS: Omit<ImageVariant, 'url'>[] = [
+export const BUILT_IN_STYLES: VisualStyle[] = [
   {
-    style: 'Cinematic',
-    description: 'Dramatic lighting and rich colors for a premium, movie-poster feel.'
+    id: 'builtin-cinematic',
+    name: 'Cinematic',
+    description: 'Dramatic lighting and rich colors for a premium, movie-poster feel.',
+    prompt: "First, perfectly isolate the main product from its original background. Then, place the isolated product into a new, visually stunning cinematic environment. Apply dramatic lighting, rich color grading, and a shallow depth of field to the entire scene to create a premium, movie-poster feel. The product should be the clear hero of the shot, seamlessly integrated into the new, highly appealing marketing background.",
+    referenceImage: null,
+    enabled: true,
+    builtIn: true,
   },
   {
-    style: 'Hyperreal',
-    description: 'Ultra-realistic details and textures that make the product look tangible.'
+    id: 'builtin-hyperreal',
+    name: 'Hyperreal',
+    description: 'Ultra-realistic details and textures that make the product look tangible.',
+    prompt: "First, perfectly isolate the main product from its original background. Then, place the isolated product on a new, visually appealing background that complements its features. Enhance the product to be hyperrealistic for a high-impact marketing campaign. Sharpen every detail, perfect the textures to make them look tangible, and use ultra-realistic lighting across the entire composition to create a sense of presence and quality. The background should enhance the product, not distract from it.",
+    referenceImage: null,
+    enabled: true,
+    builtIn: true,
   },
   {
-    style: 'Studio Pro',
-    description: 'Clean, elegant, and professional with perfect studio lighting.'
+    id: 'builtin-studio-pro',
+    name: 'Studio Pro',
+    description: 'Clean, elegant, and professional with perfect studio lighting.',
+    prompt: "First, perfectly isolate the main product from its original background. Then, recreate this image as a professional studio product shot. Place the isolated object against a clean, minimalist, and visually appealing studio background (like a soft gray, a seamless white infinity cove, or a textured surface that adds elegance). Apply perfect, diffused studio lighting to eliminate harsh shadows and highlight the product's form and features elegantly. The final image should look like a high-end professional advertisement.",
+    referenceImage: null,
+    enabled: true,
+    builtIn: true,
   },
-];
\ No newline at end of file
+];
@@ -0,0 +1,125 @@
+import type { Schema } from "@google/genai";
+import type { GroundingSource } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+export type ProviderName = 'gemini' | 'mock';
+
+// Identifies which app feature a request belongs to. Real providers ignore it;
+// the mock provider uses it to pick the matching fixture.
+export type ProviderTask =
+  | 'image-variant'
+  | 'image-edit'
+  | 'food-image'
+  | 'marketing'
+  | 'video-script'
+  | 'video-scene'
+  | 'storyboard-frame'
+  | 'localize-marketing'
+  | 'localize-script'
+  | 'hashtag-research'
+  | 'compliance-review'
+  | 'insight'
+  | 'profile'
+  | 'recipes';
+
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+// Every request accepts an AbortSignal, which providers forward to the underlying API call.
+interface BaseRequest {
+  signal?: AbortSignal;
+}
+
+export interface ImageRequest extends BaseRequest {
+  task: ProviderTask;
+  prompt: string;
+  images?: InlineImage[];
+}
+
+export interface TextRequest extends BaseRequest {
+  task: ProviderTask;
+  prompt: string;
+  images?: InlineImage[];
+  responseSchema?: Schema;
+  maxOutputTokens?: number;
+  temperature?: number;
+}
+
+export interface GroundedRequest extends BaseRequest {
+  task: ProviderTask;
+  prompt: string;
+  images?: InlineImage[];
+}
+
+export interface GroundedResponse {
+  text: string;
+  sources: GroundingSource[];
+}
+
+export interface SpeechRequest extends BaseRequest {
+  text: string;
+  voice: string;
+}
+
+export interface LiveTokenRequest extends BaseRequest {
+  model: string;
+}
+
+export interface AiProvider {
+  readonly name: ProviderName;
+  generateImage(request: ImageRequest): Promise<InlineImage>;
+  // Returns raw model text. When `responseSchema` is set the text is expected to be JSON.
+  generateText(request: TextRequest): Promise<string>;
+  generateGrounded(request: GroundedRequest): Promise<GroundedResponse>;
+  // Returns base64-encoded 24kHz mono 16-bit PCM.
+  generateSpeech(request: SpeechRequest): Promise<string>;
+  // Mints a short-lived, single-use token the browser can open a Live session with.
+  createLiveToken(request: LiveTokenRequest): Promise<string>;
+}
+
+export interface ProviderConfig {
+  providerName?: string;
+  apiKey?: string;
+}
+
+let activeProvider: AiProvider | null = null;
+
+const resolveProviderName = ({ providerName, apiKey }: ProviderConfig): ProviderName => {
+  if (providerName === 'gemini' || providerName === 'mock') {
+    return providerName;
+  }
+  if (providerName) {
+    console.warn(`Unknown AI_PROVIDER "${providerName}", falling back to automatic selection.`);
+  }
+  if (!apiKey) {
+    console.warn("GEMINI_API_KEY environment variable not set, using the local mock provider.");
+    return 'mock';
+  }
+  return 'gemini';
+};
+
+// Selects the provider from explicit config, e.g. the env Vite loaded from `.env.local`.
+export const configureProvider = (config: ProviderConfig): AiProvider => {
+  activeProvider = resolveProviderName(config) === 'gemini'
+    ? createGeminiProvider(config.apiKey)
+    : createMockProvider();
+  return activeProvider;
+};
+
+export const getProvider = (): AiProvider => {
+  if (!activeProvider) {
+    return configureProvider({
+      providerName: process.env.AI_PROVIDER,
+      apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY,
+    });
+  }
+  return activeProvider;
+};
+
+// Overrides the configured provider, e.g. to inject a mock in tests. Pass null to reset.
+export const setProvider = (provider: AiProvider | null): void => {
+  activeProvider = provider;
+};
@@ -0,0 +1,114 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createApiMiddleware, type ApiOptions } from './api';
+import { setProvider } from './aiProvider';
+import { createMockProvider } from './mockProvider';
+import {
+  API_ROUTES,
+  type ImageVariantResponse,
+  type LiveTokenResponse,
+  type MarketingResponse,
+  type SpeechResponse,
+  type VideoScriptResponse,
+} from '../services/apiTypes';
+
+// Smoke test of the /api routes against the mock provider: no key or network needed.
+
+const IMAGE = { base64: 'iVBORw0KGgo=', mimeType: 'image/png' };
+
+const servers: Server[] = [];
+
+const startApi = async (options: ApiOptions = {}): Promise<string> => {
+  const middleware = createApiMiddleware(options);
+  const server = createServer((req, res) => middleware(req, res, () => {
+    res.statusCode = 404;
+    res.end();
+  }));
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = async <T>(origin: string, route: string, body: unknown): Promise<{ status: number; payload: T }> => {
+  const response = await fetch(`${origin}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, payload: await response.json() as T };
+};
+
+let origin: string;
+
+before(async () => {
+  setProvider(createMockProvider());
+  origin = await startApi();
+});
+
+after(async () => {
+  setProvider(null);
+  await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+});
+
+test('generates an image variant', async () => {
+  const { status, payload } = await post<ImageVariantResponse>(origin, API_ROUTES.imageVariant, {
+    image: IMAGE,
+    style: { name: 'Studio', prompt: 'A clean studio shot of {product}.' },
+    productDescription: 'A ceramic mug',
+  });
+  assert.equal(status, 200);
+  assert.match(payload.url, /^data:image\//);
+  assert.equal(payload.prompt.includes('A ceramic mug'), true);
+});
+
+test('writes marketing copy that passes schema validation', async () => {
+  const { status, payload } = await post<MarketingResponse>(origin, API_ROUTES.marketing, { image: IMAGE, productDescription: 'A ceramic mug' });
+  assert.equal(status, 200);
+  assert.ok(payload.content.postIdeas.length > 0);
+  assert.ok(payload.content.captions.length > 0);
+  assert.ok(payload.sources.length > 0);
+});
+
+test('writes a video script', async () => {
+  const { status, payload } = await post<VideoScriptResponse>(origin, API_ROUTES.videoScript, {
+    image: IMAGE,
+    angle: 'Unboxing moment',
+    productDescription: 'A ceramic mug',
+  });
+  assert.equal(status, 200);
+  assert.ok(payload.scenes.length > 0);
+});
+
+test('reads text aloud as silent audio', async () => {
+  const { status, payload } = await post<SpeechResponse>(origin, API_ROUTES.speech, { text: 'Hello there', voice: 'Kore' });
+  assert.equal(status, 200);
+  assert.ok(payload.audio.length > 0);
+});
+
+test('mints a mock Live token', async () => {
+  const { status, payload } = await post<LiveTokenResponse>(origin, API_ROUTES.liveToken, {});
+  assert.equal(status, 200);
+  assert.equal(payload.mock, true);
+});
+
+test('rejects malformed requests with 400', async () => {
+  assert.equal((await post(origin, API_ROUTES.marketing, {})).status, 400);
+  assert.equal((await post(origin, API_ROUTES.imageVariant, { image: IMAGE, style: { name: 'Studio', prompt: 5 } })).status, 400);
+  assert.equal((await post(origin, API_ROUTES.marketing, [])).status, 400);
+});
+
+test('limits requests per client', async () => {
+  const limited = await startApi({ requestsPerWindow: 2 });
+  const statuses = [];
+  for (let i = 0; i < 3; i++) {
+    statuses.push((await post(limited, API_ROUTES.speech, { text: 'Hi', voice: 'Kore' })).status);
+  }
+  assert.deepEqual(statuses, [200, 200, 429]);
+});
+
+test('asks for the shared secret when one is set', async () => {
+  const secured = await startApi({ authorize: req => req.headers.authorization === 'Bearer s3cret' });
+  assert.equal((await post(secured, API_ROUTES.liveToken, {})).status, 401);
+});
@@ -0,0 +1,455 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import {
+  API_ROUTES,
+  MAX_STYLE_PROMPT_CHARS,
+  MAX_EDIT_INSTRUCTION_CHARS,
+  MAX_PRODUCT_IMAGES,
+  MAX_SPEECH_DIRECTION_CHARS,
+  SPEECH_VOICES,
+  SCRIPT_LENGTHS,
+  SCRIPT_PLATFORMS,
+  SCRIPT_HOOKS,
+  MAX_SCENE_VISUAL_CHARS,
+  LOCALES,
+  SOURCE_LOCALE,
+  MAX_RESEARCH_HASHTAGS,
+  MAX_REVIEW_ITEMS,
+  COPY_PLATFORMS,
+  type ImagePayload,
+  type BrandPayload,
+  type ImageVariantRequest,
+  type ImageVariantResponse,
+  type ImageEditRequest,
+  type ImageEditResponse,
+  type MarketingRequest,
+  type MarketingResponse,
+  type VideoScriptRequest,
+  type VideoScriptResponse,
+  type VideoSceneRequest,
+  type VideoSceneResponse,
+  type StoryboardFrameRequest,
+  type StoryboardFrameResponse,
+  type InsightRequest,
+  type InsightResponse,
+  type ProfileRequest,
+  type ProfileResponse,
+  type RecipesRequest,
+  type RecipesResponse,
+  type SpeechRequest,
+  type SpeechResponse,
+  type LocalizeMarketingRequest,
+  type LocalizeMarketingResponse,
+  type LocalizeScriptRequest,
+  type LocalizeScriptResponse,
+  type HashtagResearchRequest,
+  type HashtagResearchResponse,
+  type ComplianceReviewRequest,
+  type ComplianceReviewResponse,
+  type LiveTokenResponse,
+  type ApiErrorResponse,
+} from '../services/apiTypes';
+import type { VideoScript } from '../types';
+import {
+  generateImageVariant,
+  editImage,
+  generateMarketingContent,
+  generateVideoScript,
+  rewriteVideoScene,
+  generateStoryboardFrame,
+  generateProactiveInsight,
+  updateUserProfile,
+  generateCookingSuggestions,
+  generateSpeech,
+  localizeMarketingContent,
+  localizeVideoScript,
+  researchHashtags,
+  reviewCompliance,
+  createLiveToken,
+  LIVE_MODEL,
+} from './creativeService';
+import { getProvider } from './aiProvider';
+import { StructuredOutputError } from './structuredOutput';
+import { classifyError, type AiErrorKind } from '../services/requestRunner';
+
+// Uploaded product images arrive base64-encoded, so allow generous bodies.
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// `signal` aborts when the client disconnects, e.g. after the user hits Regenerate.
+type RouteHandler = (body: any, signal: AbortSignal) => Promise<unknown>;
+
+const isImagePayload = (image: unknown): boolean => {
+  const { base64, mimeType } = (image ?? {}) as Partial<ImagePayload>;
+  return typeof base64 === 'string' && base64.length > 0 && typeof mimeType === 'string' && mimeType.length > 0;
+};
+
+const checkImage = (image: unknown) => {
+  if (!isImagePayload(image)) {
+    throw new HttpError(400, "A product image is required.");
+  }
+};
+
+const checkReferences = (references: unknown = []) => {
+  if (!Array.isArray(references) || !references.every(isImagePayload)) {
+    throw new HttpError(400, "Reference images must be base64 images.");
+  }
+  if (references.length + 1 > MAX_PRODUCT_IMAGES) {
+    throw new HttpError(400, `Send at most ${MAX_PRODUCT_IMAGES} product images.`);
+  }
+};
+
+// Request fields are only typed on the client; check them before calling string methods.
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isTextList = (value: unknown): boolean => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Most routes take the product description and brand kit, and the prompts build on both.
+const checkSharedFields = ({ productDescription, brand }: { productDescription?: unknown; brand?: unknown }) => {
+  if (productDescription !== undefined && typeof productDescription !== 'string') {
+    throw new HttpError(400, "The product description must be text.");
+  }
+  if (brand === undefined || brand === null) return;
+  const { name, logo, palette, backgrounds, tone, mustUsePhrases, forbiddenPhrases, defaultHashtags } = brand as Partial<BrandPayload>;
+  if (typeof name !== 'string' || typeof backgrounds !== 'string' || typeof tone !== 'string'
+    || ![palette, mustUsePhrases, forbiddenPhrases, defaultHashtags].every(isTextList)
+    || (logo !== undefined && logo !== null && !isImagePayload(logo))) {
+    throw new HttpError(400, "The brand kit is malformed.");
+  }
+};
+
+// A script sent back for a rewrite or translation. Its options end up in the prompt, so only the
+// known ones are accepted.
+const checkScript = (script: unknown, message: string) => {
+  const { title, scenes, length, platform, hook } = (script ?? {}) as Partial<VideoScript>;
+  if (typeof title !== 'string' || !Array.isArray(scenes) || scenes.length === 0
+    || scenes.some(scene => typeof scene?.visual !== 'string' || typeof scene.voiceover !== 'string')) {
+    throw new HttpError(400, message);
+  }
+  if (length !== undefined && !SCRIPT_LENGTHS.includes(length)) {
+    throw new HttpError(400, `Video length must be one of ${SCRIPT_LENGTHS.join(', ')} seconds.`);
+  }
+  if (platform !== undefined && !SCRIPT_PLATFORMS.some(option => option.id === platform)) {
+    throw new HttpError(400, `Unknown platform "${platform}".`);
+  }
+  if (hook !== undefined && !SCRIPT_HOOKS.some(option => option.id === hook)) {
+    throw new HttpError(400, `Unknown hook style "${hook}".`);
+  }
+};
+
+const checkLocale = (locale: string) => {
+  if (!LOCALES.some(candidate => candidate.id === locale)) {
+    throw new HttpError(400, `Unknown locale "${locale}".`);
+  }
+};
+
+const checkTargetLocale = (locale: string) => {
+  checkLocale(locale);
+  if (locale === SOURCE_LOCALE) {
+    throw new HttpError(400, `The campaign is already written in ${SOURCE_LOCALE}.`);
+  }
+};
+
+// Counts requests per client in a sliding window; `allow` records the request when it fits.
+const createRateLimiter = (limit: number, windowMs: number) => {
+  const requests = new Map<string, number[]>();
+  return (client: string): boolean => {
+    const now = Date.now();
+    requests.forEach((times, key) => {
+      if (now - times[times.length - 1] >= windowMs) requests.delete(key);
+    });
+    const recent = (requests.get(client) ?? []).filter(requestedAt => now - requestedAt < windowMs);
+    if (recent.length >= limit) {
+      requests.set(client, recent);
+      return false;
+    }
+    requests.set(client, [...recent, now]);
+    return true;
+  };
+};
+
+const RATE_LIMIT_WINDOW_MS = 10 * 60_000;
+// Every route spends the operator's key, so each client gets a budget across all of them. A full
+// campaign run with scripts, frames and voiceovers stays well inside the default.
+const DEFAULT_REQUESTS_PER_WINDOW = 300;
+// Live sessions cost far more than a single call, so they get their own, tighter limit.
+const LIVE_TOKENS_PER_WINDOW = 10;
+
+const routes: Record<string, RouteHandler> = {
+  [API_ROUTES.imageVariant]: ({ image, references, style, productDescription, brand }: ImageVariantRequest, signal): Promise<ImageVariantResponse> => {
+    checkImage(image);
+    checkReferences(references);
+    if (!isText(style?.name) || !isText(style.prompt)) {
+      throw new HttpError(400, "A style name and prompt are required.");
+    }
+    if (style.prompt.length > MAX_STYLE_PROMPT_CHARS) {
+      throw new HttpError(400, `Style prompts must be at most ${MAX_STYLE_PROMPT_CHARS} characters.`);
+    }
+    if (style.referenceImage !== undefined && style.referenceImage !== null && !isImagePayload(style.referenceImage)) {
+      throw new HttpError(400, "Style reference images must be base64 images.");
+    }
+    return generateImageVariant(image.base64, image.mimeType, style, productDescription, brand, references, signal);
+  },
+  [API_ROUTES.imageEdit]: ({ image, instruction }: ImageEditRequest, signal): Promise<ImageEditResponse> => {
+    checkImage(image);
+    if (!isText(instruction)) {
+      throw new HttpError(400, "Describe the edit you want to make.");
+    }
+    if (instruction.length > MAX_EDIT_INSTRUCTION_CHARS) {
+      throw new HttpError(400, `Edit instructions must be at most ${MAX_EDIT_INSTRUCTION_CHARS} characters.`);
+    }
+    return editImage(image.base64, image.mimeType, instruction, signal);
+  },
+  [API_ROUTES.marketing]: ({ image, references, productDescription, brand }: MarketingRequest, signal): Promise<MarketingResponse> => {
+    checkImage(image);
+    checkReferences(references);
+    return generateMarketingContent(image.base64, image.mimeType, productDescription, brand, references, signal);
+  },
+  [API_ROUTES.videoScript]: ({ image, angle, productDescription, brand, length, platform, hook }: VideoScriptRequest, signal): Promise<VideoScriptResponse> => {
+    checkImage(image);
+    if (!isText(angle)) {
+      throw new HttpError(400, "Pick a marketing angle for the script.");
+    }
+    if (length !== undefined && !SCRIPT_LENGTHS.includes(length)) {
+      throw new HttpError(400, `Video length must be one of ${SCRIPT_LENGTHS.join(', ')} seconds.`);
+    }
+    if (platform !== undefined && !SCRIPT_PLATFORMS.some(option => option.id === platform)) {
+      throw new HttpError(400, `Unknown platform "${platform}".`);
+    }
+    if (hook !== undefined && !SCRIPT_HOOKS.some(option => option.id === hook)) {
+      throw new HttpError(400, `Unknown hook style "${hook}".`);
+    }
+    return generateVideoScript(image.base64, image.mimeType, angle, productDescription, brand, length, platform, hook, signal);
+  },
+  [API_ROUTES.videoScene]: ({ script, sceneIndex, instruction, productDescription, brand }: VideoSceneRequest, signal): Promise<VideoSceneResponse> => {
+    checkScript(script, "Pick a scene of the script to rewrite.");
+    if (!Number.isInteger(sceneIndex) || sceneIndex < 0 || sceneIndex >= script.scenes.length) {
+      throw new HttpError(400, "Pick a scene of the script to rewrite.");
+    }
+    if (!isText(instruction)) {
+      throw new HttpError(400, "Describe how the scene should change.");
+    }
+    if (instruction.length > MAX_EDIT_INSTRUCTION_CHARS) {
+      throw new HttpError(400, `Rewrite instructions must be at most ${MAX_EDIT_INSTRUCTION_CHARS} characters.`);
+    }
+    return rewriteVideoScene(script, sceneIndex, instruction, productDescription, brand, signal);
+  },
+  [API_ROUTES.storyboardFrame]: ({ image, references, visual, productDescription, brand }: StoryboardFrameRequest, signal): Promise<StoryboardFrameResponse> => {
+    checkImage(image);
+    checkReferences(references);
+    if (!isText(visual)) {
+      throw new HttpError(400, "Describe the scene's visual first.");
+    }
+    if (visual.length > MAX_SCENE_VISUAL_CHARS) {
+      throw new HttpError(400, `Scene visuals must be at most ${MAX_SCENE_VISUAL_CHARS} characters.`);
+    }
+    return generateStoryboardFrame(image.base64, image.mimeType, visual, productDescription, brand, references, signal);
+  },
+  [API_ROUTES.hashtagResearch]: ({ tags, productDescription, brand }: HashtagResearchRequest, signal): Promise<HashtagResearchResponse> => {
+    if (!Array.isArray(tags) || tags.length === 0 || tags.some(tag => typeof tag !== 'string' || !tag.trim())) {
+      throw new HttpError(400, "Add some hashtags to research.");
+    }
+    if (tags.length > MAX_RESEARCH_HASHTAGS) {
+      throw new HttpError(400, `Research at most ${MAX_RESEARCH_HASHTAGS} hashtags at a time.`);
+    }
+    return researchHashtags(tags, productDescription, brand, signal);
+  },
+  [API_ROUTES.complianceReview]: ({ items, platforms, productDescription, brand }: ComplianceReviewRequest, signal): Promise<ComplianceReviewResponse> => {
+    if (!Array.isArray(items) || items.length === 0 || items.some(item => typeof item?.text !== 'string' || !item.text.trim() || !Array.isArray(item.ruleFlags))) {
+      throw new HttpError(400, "Add some copy to review.");
+    }
+    if (items.length > MAX_REVIEW_ITEMS) {
+      throw new HttpError(400, `Review at most ${MAX_REVIEW_ITEMS} items at a time.`);
+    }
+    if (!Array.isArray(platforms) || platforms.length === 0 || platforms.some(platform => !Object.hasOwn(COPY_PLATFORMS, platform))) {
+      throw new HttpError(400, "Pick the platforms to check against.");
+    }
+    return reviewCompliance(items, platforms, productDescription, brand, signal);
+  },
+  [API_ROUTES.insight]: async (context: InsightRequest, signal): Promise<InsightResponse> => ({
+    text: await generateProactiveInsight(context, signal),
+  }),
+  [API_ROUTES.profile]: ({ conversationHistory, currentUserProfile }: ProfileRequest, signal): Promise<ProfileResponse> =>
+    updateUserProfile(conversationHistory, currentUserProfile, signal),
+  [API_ROUTES.recipes]: ({ query, excludeTitles }: RecipesRequest, signal): Promise<RecipesResponse> =>
+    generateCookingSuggestions(query, excludeTitles, signal),
+  [API_ROUTES.speech]: async ({ text, voice, direction, pace, locale }: SpeechRequest, signal): Promise<SpeechResponse> => {
+    if (!isText(text)) {
+      throw new HttpError(400, "There's no text to read.");
+    }
+    if (!SPEECH_VOICES.includes(voice)) {
+      throw new HttpError(400, `Unknown voice "${voice}".`);
+    }
+    if (direction !== undefined && typeof direction !== 'string') {
+      throw new HttpError(400, "Voice directions must be text.");
+    }
+    if (direction && direction.length > MAX_SPEECH_DIRECTION_CHARS) {
+      throw new HttpError(400, `Voice directions must be at most ${MAX_SPEECH_DIRECTION_CHARS} characters.`);
+    }
+    if (pace && !['slow', 'natural', 'fast'].includes(pace)) {
+      throw new HttpError(400, `Unknown pace "${pace}".`);
+    }
+    if (locale !== undefined) {
+      checkLocale(locale);
+    }
+    return { audio: await generateSpeech(text, voice, direction, pace, locale, signal) };
+  },
+  [API_ROUTES.localizeMarketing]: ({ content, locale, brand }: LocalizeMarketingRequest, signal): Promise<LocalizeMarketingResponse> => {
+    checkTargetLocale(locale);
+    if (!Array.isArray(content?.postIdeas) || !Array.isArray(content.captions) || !Array.isArray(content.hashtags)) {
+      throw new HttpError(400, "There's no marketing copy to translate.");
+    }
+    return localizeMarketingContent(content, locale, brand, signal);
+  },
+  [API_ROUTES.localizeScript]: ({ script, locale, brand }: LocalizeScriptRequest, signal): Promise<LocalizeScriptResponse> => {
+    checkTargetLocale(locale);
+    checkScript(script, "There's no script to translate.");
+    return localizeVideoScript(script, locale, brand, signal);
+  },
+  [API_ROUTES.liveToken]: async (_body, signal): Promise<LiveTokenResponse> => ({
+    token: await createLiveToken(signal),
+    model: LIVE_MODEL,
+    ...(getProvider().name === 'mock' && { mock: true }),
+  }),
+};
+
+const STATUS_BY_KIND: Record<AiErrorKind, number> = {
+  quota: 429,
+  safety: 422,
+  bad_output: 422,
+  network: 502,
+  timeout: 504,
+  // Client closed the request; nobody reads this response.
+  aborted: 499,
+  unknown: 500,
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request body too large."));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        reject(new HttpError(400, "Request body must be valid JSON."));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(payload));
+};
+
+export interface ApiOptions {
+  // Requests each client may make across all routes every 10 minutes; 0 turns the limit off.
+  requestsPerWindow?: number;
+  // Take the client address from X-Forwarded-For. Only set this behind a reverse proxy, since
+  // clients can send the header themselves.
+  trustProxy?: boolean;
+  // Decides whether a request may use the API, e.g. by checking a session from your own login.
+  authorize?: (req: IncomingMessage) => boolean | Promise<boolean>;
+}
+
+// Requires `Authorization: Bearer <secret>`, for a proxy or gateway that adds it after its own login.
+export const requireSecret = (secret: string) => {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return (req: IncomingMessage): boolean => {
+    const given = Buffer.from(req.headers.authorization ?? '');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  };
+};
+
+// Reads the options from the server environment: API_RATE_LIMIT, TRUST_PROXY and API_SECRET.
+export const apiOptionsFromEnv = (env: Record<string, string | undefined>): ApiOptions => ({
+  requestsPerWindow: env.API_RATE_LIMIT && Number.isFinite(Number(env.API_RATE_LIMIT)) ? Number(env.API_RATE_LIMIT) : undefined,
+  trustProxy: env.TRUST_PROXY === 'true' || env.TRUST_PROXY === '1',
+  authorize: env.API_SECRET ? requireSecret(env.API_SECRET) : undefined,
+});
+
+// Behind a proxy the socket address is the proxy's. The last X-Forwarded-For entry is the one
+// the proxy appended; earlier entries come from the client and can't be trusted.
+const clientAddress = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const header = Array.isArray(forwarded) ? forwarded.join(',') : forwarded;
+  const last = header?.split(',').map(entry => entry.trim()).filter(Boolean).pop();
+  return (trustProxy && last) || req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Connect-style middleware serving the typed /api routes. Requests for other paths are
+ * passed to `next`, so it can sit in front of Vite's dev server or the static file server.
+ */
+export const createApiMiddleware = ({ requestsPerWindow = DEFAULT_REQUESTS_PER_WINDOW, trustProxy = false, authorize }: ApiOptions = {}) => {
+  const allowRequest = createRateLimiter(requestsPerWindow, RATE_LIMIT_WINDOW_MS);
+  const allowLiveToken = createRateLimiter(LIVE_TOKENS_PER_WINDOW, RATE_LIMIT_WINDOW_MS);
+
+  return async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const path = (req.url || '').split('?')[0];
+    const handler = routes[path];
+    if (!handler) {
+      next();
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: "Method not allowed." } satisfies ApiErrorResponse);
+      return;
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
+    try {
+      if (authorize && !(await authorize(req))) {
+        throw new HttpError(401, "This server needs you to sign in first.");
+      }
+      const client = clientAddress(req, trustProxy);
+      if (requestsPerWindow > 0 && !allowRequest(client)) {
+        throw new HttpError(429, "Too many requests. Try again in a few minutes.");
+      }
+      if (path === API_ROUTES.liveToken && !allowLiveToken(client)) {
+        throw new HttpError(429, "Too many voice sessions started. Try again in a few minutes.");
+      }
+      const body = await readJsonBody(req);
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new HttpError(400, "Request body must be a JSON object.");
+      }
+      checkSharedFields(body);
+      sendJson(res, 200, await handler(body, controller.signal));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message } satisfies ApiErrorResponse);
+        return;
+      }
+      const classified = classifyError(error);
+      sendJson(res, STATUS_BY_KIND[classified.kind], {
+        error: classified.message,
+        kind: classified.kind,
+        ...(error instanceof StructuredOutputError && { fieldErrors: error.fieldErrors }),
+      } satisfies ApiErrorResponse);
+    }
+  };
+};
@@ -0,0 +1,41 @@
+import type { BrandPayload } from '../services/apiTypes';
+
+// Turns a brand kit into prompt sections. Each returns '' when there is no brand, so callers can
+// append the result unconditionally.
+
+const quoteList = (items: string[]) => items.map(item => `"${item}"`).join(', ');
+
+const section = (brand: BrandPayload, lines: (string | false)[]) => {
+  const rules = lines.filter(Boolean);
+  return rules.length === 0 ? '' : `\n\nBrand guidelines for "${brand.name}":\n- ${rules.join('\n- ')}`;
+};
+
+// For image prompts. When the brand has a logo it is sent as the last inline image.
+export const brandImageGuidelines = (brand?: BrandPayload | null): string => {
+  if (!brand) return '';
+  return section(brand, [
+    brand.palette.length > 0 && `Work the brand colors (${brand.palette.join(', ')}) into the background, props and lighting.`,
+    !!brand.backgrounds.trim() && `Preferred backgrounds: ${brand.backgrounds.trim()}`,
+    !!brand.logo && 'The last image is the brand logo. If it fits the composition, place it small and unobtrusive in a corner. Never cover or alter the product.',
+  ]);
+};
+
+// For captions, post ideas and scripts.
+export const brandCopyGuidelines = (brand?: BrandPayload | null): string => {
+  if (!brand) return '';
+  return section(brand, [
+    !!brand.tone.trim() && `Write in the brand's voice: ${brand.tone.trim()}`,
+    brand.mustUsePhrases.length > 0 && `Work these phrases in wherever they fit naturally: ${quoteList(brand.mustUsePhrases)}.`,
+    brand.forbiddenPhrases.length > 0 && `Never use these words or phrases, in any form: ${quoteList(brand.forbiddenPhrases)}.`,
+    brand.defaultHashtags.length > 0 && `Always include these hashtags: ${brand.defaultHashtags.join(' ')}.`,
+  ]);
+};
+
+const normalizeHashtag = (tag: string) => `#${tag.trim().replace(/^#+/, '')}`;
+
+// Puts the brand's default hashtags first, whether or not the model remembered them.
+export const withDefaultHashtags = (hashtags: string[], brand?: BrandPayload | null): string[] => {
+  if (!brand || brand.defaultHashtags.length === 0) return hashtags;
+  const merged = [...brand.defaultHashtags, ...hashtags].map(normalizeHashtag);
+  return merged.filter((tag, index) => merged.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index);
+};
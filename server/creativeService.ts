@@ -0,0 +1,612 @@
+import type { MarketingContent, HashtagScore, CopyPlatform, VideoScript, ScriptLength, ScriptPlatform, ScriptHook, GroundingSource, UserProfile, ConversationTurn, Recipe, SpeechPace } from '../types';
+import { COMPLIANCE_CATEGORIES, COPY_PLATFORMS, LOCALES, SOURCE_LOCALE, type ComplianceReviewItem, type ComplianceReviewResponse, type LocalizeScriptResponse, type BrandPayload, type ImagePayload, type InsightContext, type StylePayload, type VideoScriptResponse, type VideoSceneResponse } from '../services/apiTypes';
+import { AiRequestError, classifyError, runRequest } from '../services/requestRunner';
+import { getProvider } from './aiProvider';
+import { generateStructured } from './structuredOutput';
+import { brandImageGuidelines, brandCopyGuidelines, withDefaultHashtags } from './brandGuidelines';
+import { marketingContentSchema, marketingCopySchema, videoScriptSchema, videoSceneSchema, localizedScriptSchema, hashtagResearchSchema, complianceReviewSchema, recipeSuggestionsSchema, userProfileSchema } from './outputSchemas';
+
+// Server-side generation logic: prompts and response handling on top of the active AI provider.
+// The browser reaches these functions only through the API routes in ./api.ts.
+
+const IMAGE_TIMEOUT_MS = 90_000;
+const TEXT_TIMEOUT_MS = 45_000;
+const SPEECH_TIMEOUT_MS = 45_000;
+
+const renderStylePrompt = (style: StylePayload, productDescription: string): string => {
+  const prompt = style.prompt.split('{product}').join(productDescription.trim() || 'the product');
+  if (!style.referenceImage) return prompt;
+  return `${prompt}
+
+The image after the product photos is a style reference. Match its mood, color palette, lighting and composition, but keep the product from the product photos as the subject and do not copy anything else from the reference.`;
+};
+
+// Extra product angles are sent straight after the primary image.
+const referenceImagesNote = (references: ImagePayload[]): string => {
+  if (references.length === 0) return '';
+  return `\n\nThe first ${references.length + 1} images all show the same product. The first is the main shot; the others show it from other angles or in detail. Use them to get the product's shape, materials and details right.`;
+};
+
+const toInlineImages = (references: ImagePayload[]) =>
+  references.map(reference => ({ data: reference.base64, mimeType: reference.mimeType }));
+
+// Keeps classified failures (quota, safety, bad output with its field errors, ...) intact so the
+// client can react to them; anything unrecognised is reported with a generic message.
+const toServiceError = (error: unknown, message: string): AiRequestError => {
+    const classified = classifyError(error);
+    return classified.kind === 'unknown' ? new AiRequestError('unknown', message) : classified;
+};
+
+export const generateImageVariant = async (
+    base64Image: string,
+    mimeType: string,
+    style: StylePayload,
+    productDescription = '',
+    brand: BrandPayload | null = null,
+    references: ImagePayload[] = [],
+    signal?: AbortSignal
+): Promise<{ url: string, prompt: string }> => {
+  const prompt = renderStylePrompt(style, productDescription) + referenceImagesNote(references) + brandImageGuidelines(brand);
+  const images = [{ data: base64Image, mimeType }, ...toInlineImages(references)];
+  if (style.referenceImage) {
+    images.push({ data: style.referenceImage.base64, mimeType: style.referenceImage.mimeType });
+  }
+  if (brand?.logo) {
+    images.push({ data: brand.logo.base64, mimeType: brand.logo.mimeType });
+  }
+  try {
+    const image = await runRequest(
+      attemptSignal => getProvider().generateImage({
+        task: 'image-variant',
+        prompt,
+        images,
+        signal: attemptSignal,
+      }),
+      { signal, timeoutMs: IMAGE_TIMEOUT_MS, label: `${style.name} variant` },
+    );
+    return { url: `data:${image.mimeType};base64,${image.data}`, prompt };
+  } catch (error) {
+    console.error(`Error generating ${style.name} image variant:`, error);
+    throw toServiceError(error, `Failed to generate ${style.name} variant.`);
+  }
+};
+
+export const generateStoryboardFrame = async (
+    base64Image: string,
+    mimeType: string,
+    visual: string,
+    productDescription = '',
+    brand: BrandPayload | null = null,
+    references: ImagePayload[] = [],
+    signal?: AbortSignal
+): Promise<{ url: string, prompt: string }> => {
+  const prompt = `Draw one storyboard frame for a vertical (9:16) social video ad, as a realistic still from the finished video.
+Shot: ${visual.trim()}
+Product: "${productDescription || 'the product in the photo'}"
+
+Feature the exact product from the photo: keep its shape, labels, text and colors as they are. Leave space near the bottom for captions and don't add any text of your own.`
+    + referenceImagesNote(references) + brandImageGuidelines(brand);
+  try {
+    const image = await runRequest(
+      attemptSignal => getProvider().generateImage({
+        task: 'storyboard-frame',
+        prompt,
+        images: [{ data: base64Image, mimeType }, ...toInlineImages(references)],
+        signal: attemptSignal,
+      }),
+      { signal, timeoutMs: IMAGE_TIMEOUT_MS, label: 'storyboard frame' },
+    );
+    return { url: `data:${image.mimeType};base64,${image.data}`, prompt };
+  } catch (error) {
+    console.error("Error generating storyboard frame:", error);
+    throw toServiceError(error, "Failed to draw the storyboard frame.");
+  }
+};
+
+export const editImage = async (
+    base64Image: string,
+    mimeType: string,
+    instruction: string,
+    signal?: AbortSignal
+): Promise<{ url: string, prompt: string }> => {
+  const prompt = `Edit this marketing image by following the instruction below. Change only what the instruction asks for: keep the product itself (its shape, labels, text and colors) exactly as it is, and keep the rest of the composition unless the instruction says otherwise.
+
+Instruction: ${instruction.trim()}`;
+  try {
+    const image = await runRequest(
+      attemptSignal => getProvider().generateImage({
+        task: 'image-edit',
+        prompt,
+        images: [{ data: base64Image, mimeType }],
+        signal: attemptSignal,
+      }),
+      { signal, timeoutMs: IMAGE_TIMEOUT_MS, label: 'image edit' },
+    );
+    return { url: `data:${image.mimeType};base64,${image.data}`, prompt };
+  } catch (error) {
+    console.error("Error editing image:", error);
+    throw toServiceError(error, "Failed to apply the edit.");
+  }
+};
+
+// Grounded calls can't enforce the schema up front, so the limits are spelled out in the prompt.
+const COPY_LIMITS_NOTE = Object.entries(COPY_PLATFORMS)
+  .flatMap(([platform, { fields }]) => Object.entries(fields as Record<string, { maxLength: number }>)
+    .map(([field, { maxLength }]) => `platforms.${platform}.${field} at most ${maxLength}`))
+  .join('; ');
+
+export const generateMarketingContent = async (
+    base64Image: string,
+    mimeType: string,
+    productDescription: string,
+    brand: BrandPayload | null = null,
+    references: ImagePayload[] = [],
+    signal?: AbortSignal
+): Promise<{ content: MarketingContent, sources: GroundingSource[] }> => {
+  try {
+    const promptText = `Analyze the object in this image. If a product description is provided, use it to refine your analysis.
+Product Description: "${productDescription || 'Not provided. Analyze the image visually.'}"${referenceImagesNote(references)}
+
+You are a senior marketing strategist. Generate a creative suite of marketing content for this product. Leverage real-time search data to identify currently trending hashtags and viral post concepts related to the product. ${brand?.tone.trim() ? "Follow the brand voice below." : "Your tone should be professional, aspirational, and compelling."}${brandCopyGuidelines(brand)}
+
+Also write a copy pack for each platform, native to how people post there: a TikTok caption, an Instagram caption plus a first comment (usually the hashtags), Facebook ad primary text, headline and description, a Pinterest pin title and description, and an X post. Character limits, hashtags and emoji included: ${COPY_LIMITS_NOTE}.
+
+IMPORTANT: Provide the output as a valid JSON object adhering to this structure: { "postIdeas": ["idea1", "idea2", "idea3"], "captions": ["caption1", "caption2", "caption3"], "hashtags": ["hashtag1", "hashtag2", ...], "platforms": { "tiktok": { "caption": "..." }, "instagram": { "caption": "...", "firstComment": "..." }, "facebook": { "primaryText": "...", "headline": "...", "description": "..." }, "pinterest": { "title": "...", "description": "..." }, "x": { "post": "..." } } }. Ensure the final output is ONLY the JSON object and nothing else.`;
+
+    const { value: content, sources } = await generateStructured({
+        task: 'marketing',
+        prompt: promptText,
+        schema: marketingContentSchema,
+        images: [{ data: base64Image, mimeType }, ...toInlineImages(references)],
+        grounded: true,
+        signal,
+    });
+    
+    return { content: { ...content, hashtags: withDefaultHashtags(content.hashtags, brand) }, sources };
+
+  } catch (error) {
+    console.error("Error generating marketing content:", error);
+    throw toServiceError(error, "Failed to generate marketing content.");
+  }
+};
+
+export const researchHashtags = async (
+    tags: string[],
+    productDescription: string,
+    brand: BrandPayload | null = null,
+    signal?: AbortSignal
+): Promise<{ tags: HashtagScore[], sources: GroundingSource[] }> => {
+  try {
+    const brandNote = brand
+      ? `\nThe brand is "${brand.name}".${brand.defaultHashtags.length > 0 ? ` Its own hashtags are ${brand.defaultHashtags.join(' ')}.` : ''} Tags built on the brand or a campaign of it are branded.`
+      : '';
+    const promptText = `You are a social media strategist. Use real-time search data to size up each hashtag below for this product.
+Product Description: "${productDescription || 'Not provided.'}"${brandNote}
+
+For every tag, estimate how popular it currently is on TikTok, Instagram and the other big platforms, sort it into a bucket (broad, niche or branded), and say in one sentence why it fits this product or why it doesn't.
+
+Hashtags:
+${tags.join('\n')}
+
+Provide the output in a JSON format, with one entry per hashtag in the same order, keeping each tag exactly as written.`;
+
+    const { value, sources } = await generateStructured({
+      task: 'hashtag-research',
+      prompt: promptText,
+      schema: hashtagResearchSchema(tags.length),
+      grounded: true,
+      signal,
+    });
+    // Keep the user's spelling and order even if the model changed either.
+    const byTag = new Map(value.tags.map(score => [score.tag.toLowerCase(), score]));
+    return { tags: tags.map((tag, i) => ({ ...(byTag.get(tag.toLowerCase()) ?? value.tags[i]), tag })), sources };
+  } catch (error) {
+    console.error("Error researching hashtags:", error);
+    throw toServiceError(error, "Failed to research the hashtags.");
+  }
+};
+
+export const reviewCompliance = async (
+    items: ComplianceReviewItem[],
+    platforms: CopyPlatform[],
+    productDescription: string,
+    brand: BrandPayload | null = null,
+    signal?: AbortSignal
+): Promise<ComplianceReviewResponse> => {
+  try {
+    const platformNames = platforms.map(platform => COPY_PLATFORMS[platform].label).join(', ');
+    const promptText = `You are an ad-policy reviewer who knows the advertising policies of ${platformNames} well. Check each piece of ad copy below for claims that would get the ad rejected or restricted on any of those platforms:
+${COMPLIANCE_CATEGORIES.map(category => `- ${category.id}: ${category.description}`).join('\n')}
+Product Description: "${productDescription || 'Not provided.'}"${brandCopyGuidelines(brand)}
+
+Flag only real problems, quoting the offending words exactly. Some items were flagged by a keyword check first; confirm those flags or dismiss them if the wording is actually fine in context. For every item with a problem, write a compliant rewrite that keeps the meaning, tone and roughly the length; leave the rewrite empty for copy that already complies.
+
+Items:
+${items.map((item, i) => `${i + 1}. ${JSON.stringify(item.text)}${item.ruleFlags.length > 0 ? ` (keyword check: ${item.ruleFlags.join('; ')})` : ''}`).join('\n')}
+
+Provide the output in a JSON format, with one result per item in the same order.`;
+
+    const { value } = await generateStructured({
+      task: 'compliance-review',
+      prompt: promptText,
+      schema: complianceReviewSchema(items.length),
+      signal,
+    });
+    return value;
+  } catch (error) {
+    console.error("Error reviewing ad compliance:", error);
+    throw toServiceError(error, "Failed to review the copy.");
+  }
+};
+
+// Scene count range per target length; voiceovers run at roughly 2.5 words a second.
+const SCENE_COUNTS: Record<ScriptLength, [number, number]> = {
+  15: [2, 4],
+  30: [3, 6],
+  60: [5, 10],
+};
+const WORDS_PER_SECOND = 2.5;
+
+const PLATFORM_NOTES: Record<ScriptPlatform, string> = {
+  tiktok: 'TikTok: hook the viewer in the first second, keep it native and a little lo-fi, and write for on-screen captions.',
+  reels: 'Instagram Reels: polished, aesthetic visuals with music-led pacing and a clean end card.',
+  shorts: 'YouTube Shorts: make the value clear in the first seconds, lean slightly more informative, and end on a clear call to action.',
+};
+
+const HOOK_NOTES: Record<ScriptHook, string> = {
+  'problem-solution': 'Problem / solution: open on a relatable frustration the product fixes, then reveal the product as the answer and show the result.',
+  unboxing: 'Unboxing: a first-person unboxing that builds anticipation, reveals the product and lingers on the details that impress.',
+  testimonial: 'Testimonial: a happy customer speaks to camera in the first person about the difference the product made for them.',
+  ugc: 'UGC: looks like an organic post shot on a phone by a real customer; casual, handheld and unpolished, never like an ad.',
+};
+
+export const generateVideoScript = async (
+    base64Image: string,
+    mimeType: string,
+    angle: string,
+    productDescription: string,
+    brand: BrandPayload | null = null,
+    length: ScriptLength = 30,
+    platform: ScriptPlatform = 'tiktok',
+    hook: ScriptHook = 'problem-solution',
+    signal?: AbortSignal
+): Promise<VideoScriptResponse> => {
+  const [minScenes, maxScenes] = SCENE_COUNTS[length];
+  try {
+    const promptText = `Based on the product in the image, its description, and the marketing angle below, create a short and punchy ${length}-second video ad script with ${minScenes} to ${maxScenes} scenes.
+Product Description: "${productDescription || 'Not provided. Focus on the visual.'}"
+Marketing Angle: "${angle}"
+
+Build the whole script around this one angle. The script should be visually descriptive and include suggestions for a confident, inspiring voiceover. Keep the whole voiceover to about ${Math.round(length * WORDS_PER_SECOND)} words so it fits ${length} seconds.
+Hook style: ${HOOK_NOTES[hook]}
+Platform: ${PLATFORM_NOTES[platform]}${brandCopyGuidelines(brand)}
+
+Provide the output in a JSON format.`;
+
+    const { value } = await generateStructured({
+      task: 'video-script',
+      prompt: promptText,
+      schema: videoScriptSchema(maxScenes),
+      images: [{ data: base64Image, mimeType }],
+      signal,
+    });
+
+    return { ...value, length, platform, angle, hook };
+
+  } catch (error) {
+    console.error("Error generating video script:", error);
+    throw toServiceError(error, "Failed to generate video script.");
+  }
+};
+
+export const rewriteVideoScene = async (
+    script: VideoScript,
+    sceneIndex: number,
+    instruction: string,
+    productDescription: string,
+    brand: BrandPayload | null = null,
+    signal?: AbortSignal
+): Promise<VideoSceneResponse> => {
+  const length = script.length ?? 30;
+  const outline = script.scenes
+    .map((scene, i) => `Scene ${i + 1}${i === sceneIndex ? ' (REWRITE THIS ONE)' : ''}\nVisual: ${scene.visual}\nVoiceover: "${scene.voiceover}"`)
+    .join('\n\n');
+  try {
+    const promptText = `You are editing a ${length}-second video ad script titled "${script.title}".
+Product Description: "${productDescription || 'Not provided.'}"
+${script.hook ? `Hook style: ${HOOK_NOTES[script.hook]}\n` : ''}${script.platform ? `Platform: ${PLATFORM_NOTES[script.platform]}\n` : ''}
+The full script:
+${outline}
+
+Rewrite only scene ${sceneIndex + 1}, following this instruction: "${instruction}"
+Keep it flowing from the scene before and into the scene after, and keep its voiceover to about ${Math.round(length * WORDS_PER_SECOND / script.scenes.length)} words.${brandCopyGuidelines(brand)}
+
+Provide the output in a JSON format.`;
+
+    const { value } = await generateStructured({
+      task: 'video-scene',
+      prompt: promptText,
+      schema: videoSceneSchema,
+      signal,
+    });
+
+    return value;
+  } catch (error) {
+    console.error("Error rewriting video scene:", error);
+    throw toServiceError(error, "Failed to rewrite the scene.");
+  }
+};
+
+export const generateProactiveInsight = async (context: InsightContext, signal?: AbortSignal): Promise<string> => {
+  try {
+    let contextPrompt = "You are Rose, an AI marketing expert. Based on the user's current action, provide a short, proactive, insightful comment or a targeted question (1-2 sentences) to help them think creatively and guide them to the next step.\n\n";
+    
+    switch (context.trigger) {
+        case 'IMAGE_UPLOADED':
+            contextPrompt += `The user just uploaded a new image.\n\n`;
+            contextPrompt += `Your task: Acknowledge the image and prompt them to add a product description to improve the results. Example: "Great image! I'm ready to work my magic. For the best results, add a quick product description and any other angles before you hit generate."`;
+            break;
+        case 'MARKETING_GENERATED':
+            contextPrompt += `The user just generated these marketing angles: "${context.marketingContent?.postIdeas.join(', ')}".\n`;
+            contextPrompt += `Product description: "${context.productDescription || 'none'}"\n\n`;
+            contextPrompt += `Your task: Generate a helpful follow-up question about the results to encourage refinement. Example: "These marketing angles look promising! Which one resonates most with your target audience? We can generate a video script based on that."`;
+            break;
+        case 'VIDEO_SCRIPT_GENERATED':
+            contextPrompt += `The user just generated a video script titled: "${context.videoScript?.title}"${context.videoScript?.angle ? `, written for the angle "${context.videoScript.angle}"` : ''}.\n`;
+            contextPrompt += `The marketing angles were: "${context.marketingContent?.postIdeas.join(', ')}".\n\n`;
+            contextPrompt += `Your task: Generate a helpful follow-up question about the video script's tone. Example: "A perfect script for social media. For the voiceover, are we aiming for a confident and authoritative tone, or something more friendly and relatable?"`;
+            break;
+        default:
+             return "Let's get creative. What's our first step?";
+    }
+
+    const text = await runRequest(
+      attemptSignal => getProvider().generateText({
+        task: 'insight',
+        prompt: contextPrompt,
+        maxOutputTokens: 150,
+        temperature: 0.7,
+        signal: attemptSignal,
+      }),
+      { signal, timeoutMs: TEXT_TIMEOUT_MS, label: 'insight' },
+    );
+
+    if (text) {
+        return text.trim();
+    }
+    
+    console.warn("Proactive insight generation returned no text.");
+    return "Let's move on to the next step!";
+
+  } catch (error) {
+    console.error("Error generating proactive insight:", error);
+    return "The assets look great! What should we do next?";
+  }
+};
+
+
+export const updateUserProfile = async (
+  conversationHistory: ConversationTurn[],
+  currentUserProfile: UserProfile,
+  signal?: AbortSignal
+): Promise<UserProfile> => {
+  try {
+    const recentConversation = conversationHistory
+      .slice(-6) // Take last 3 user/assistant turns
+      .map(turn => `${turn.speaker === 'user' ? 'User' : 'Rose'}: ${turn.text}`)
+      .join('\n');
+
+    const prompt = `You are a profile analysis AI. Your task is to read a conversation and a user's existing profile, then extract new, concrete facts about the user to update their profile.
+- Only add new information or correct existing information.
+- Be concise. Extract key details like name, interests, goals, profession, location, etc.
+- If no new information is present, return the original profile.
+- The output must be ONLY the updated, valid JSON object.
+
+Existing Profile:
+${JSON.stringify(currentUserProfile, null, 2)}
+
+Recent Conversation:
+${recentConversation}
+
+Updated Profile:
+`;
+    const { value } = await generateStructured({
+        task: 'profile',
+        prompt,
+        schema: userProfileSchema,
+        signal,
+    });
+
+    // Merge so a response that omits known facts never erases them.
+    return { ...currentUserProfile, ...value };
+  } catch (error) {
+    console.error("Error updating user profile:", error);
+    return currentUserProfile; // Return original profile on error
+  }
+};
+
+const generateFoodImage = async (title: string, description: string, signal?: AbortSignal): Promise<string> => {
+    try {
+        const prompt = `Generate a highly appealing, professional food photography shot of "${title}". The dish should look delicious and be presented beautifully. Key elements from the description to capture are: "${description}". The style should be vibrant, with good lighting, and a shallow depth of field to make the food the hero. This is for a recipe website.`;
+
+        const image = await runRequest(
+            attemptSignal => getProvider().generateImage({ task: 'food-image', prompt, signal: attemptSignal }),
+            { signal, timeoutMs: IMAGE_TIMEOUT_MS, label: 'food image' },
+        );
+        return `data:${image.mimeType};base64,${image.data}`;
+    } catch (error) {
+        console.error(`Error generating food image for "${title}":`, error);
+        throw error;
+    }
+};
+
+export const generateCookingSuggestions = async (
+    query: string,
+    excludeTitles: string[] = [],
+    signal?: AbortSignal
+): Promise<{ suggestions: Recipe[], sources: GroundingSource[] }> => {
+    try {
+        let exclusionPrompt = '';
+        if (excludeTitles.length > 0) {
+            exclusionPrompt = `\n\nIMPORTANT: To ensure variety, do NOT suggest any of the following recipes that have already been shown to the user: ${excludeTitles.join(', ')}. Provide completely new and different suggestions.`;
+        }
+        
+        const prompt = `You are an expert chef and culinary assistant named "Rose". A user needs recipe suggestions.
+        
+User's Request: "${query}"
+
+You have access to Google Search for inspiration. Your task is to:
+1. Analyze the user's request and use Google Search to find relevant, popular, or unique ideas.
+2. Synthesize this information to create 3-5 distinct and creative recipe suggestions.
+3. For each recipe, provide a title, a brief compelling description, the estimated cook time (e.g., "Approx. 45 minutes"), a list of ingredients, and step-by-step instructions.
+4. All output, including titles, descriptions, ingredients, and instructions, must be in English. If you find a recipe in another language, translate it fully to English.${exclusionPrompt}
+5. IMPORTANT: Ensure the final response is ONLY a single, valid JSON object. The JSON object must conform to this structure: { "suggestions": [ { "title": "...", "description": "...", "cookTime": "...", "ingredients": [...], "instructions": [...] } ] }. Do not include any text or markdown formatting outside the JSON object.`;
+
+        const { value, sources } = await generateStructured({
+            task: 'recipes',
+            prompt,
+            schema: recipeSuggestionsSchema,
+            grounded: true,
+            signal,
+        });
+        const textSuggestions: Omit<Recipe, 'imageUrl'>[] = value.suggestions;
+
+        if (textSuggestions.length === 0) {
+            return { suggestions: [], sources: [] };
+        }
+
+        const suggestionsWithImages = await Promise.all(
+            textSuggestions.map(async (recipe) => {
+                try {
+                    const imageUrl = await generateFoodImage(recipe.title, recipe.description, signal);
+                    return { ...recipe, imageUrl };
+                } catch (imageError) {
+                    if (signal?.aborted) throw imageError;
+                    console.error(`Could not generate image for ${recipe.title}, using a placeholder.`, imageError);
+                    return { ...recipe, imageUrl: 'https://placehold.co/600x400/0a0a0a/fbbf24/png?text=Image+Not+Available' };
+                }
+            })
+        );
+        
+        return { suggestions: suggestionsWithImages, sources };
+
+    } catch (error) {
+        console.error("Error generating cooking suggestions:", error);
+        throw toServiceError(error, "Failed to generate cooking suggestions.");
+    }
+};
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+export const createLiveToken = async (signal?: AbortSignal): Promise<string> => {
+  try {
+    return await runRequest(
+      attemptSignal => getProvider().createLiveToken({ model: LIVE_MODEL, signal: attemptSignal }),
+      { signal, timeoutMs: TEXT_TIMEOUT_MS, label: 'live token' },
+    );
+  } catch (error) {
+    console.error("Error creating live session token:", error);
+    throw new Error("Failed to start a live session.");
+  }
+};
+
+const languageOf = (locale: string): string => LOCALES.find(option => option.id === locale)?.language ?? locale;
+
+const transcreationNote = (locale: string) =>
+  `You are a native ${languageOf(locale)} copywriter localizing an American product campaign for the ${locale} market. Transcreate rather than translate word for word: adapt idioms, humor, tone and cultural references so it reads as if it were written there. Keep brand and product names as they are.`;
+
+export const localizeMarketingContent = async (
+  content: MarketingContent,
+  locale: string,
+  brand: BrandPayload | null = null,
+  signal?: AbortSignal
+): Promise<MarketingContent> => {
+  try {
+    const { platforms } = content;
+    const promptText = `${transcreationNote(locale)}
+
+Localize this marketing copy into ${languageOf(locale)}. Keep the same number of post ideas, captions and hashtags. For hashtags, use ones people in that market actually search for, keeping the # sign; keep brand hashtags unchanged.
+${platforms ? `Keep every platform field within its character limit, hashtags and emoji included: ${COPY_LIMITS_NOTE}.
+` : ''}${brandCopyGuidelines(brand)}
+
+The copy:
+${JSON.stringify(content, null, 2)}
+
+Return the localized copy as a JSON object with exactly the same structure.`;
+
+    const { value } = await generateStructured({
+      task: 'localize-marketing',
+      prompt: promptText,
+      schema: platforms ? marketingContentSchema : marketingCopySchema,
+      signal,
+    });
+    return value;
+  } catch (error) {
+    console.error("Error localizing marketing content:", error);
+    throw toServiceError(error, "Failed to translate the marketing copy.");
+  }
+};
+
+export const localizeVideoScript = async (
+  script: VideoScript,
+  locale: string,
+  brand: BrandPayload | null = null,
+  signal?: AbortSignal
+): Promise<LocalizeScriptResponse> => {
+  const lines = script.scenes.map((scene, i) => `${i + 1}. ${JSON.stringify(scene.voiceover)}`).join('\n');
+  try {
+    const promptText = `${transcreationNote(locale)}
+
+Localize the title and voiceover of this ${script.length ?? 30}-second video ad into ${languageOf(locale)}. Each line must still fit its scene when read aloud, so keep it about as long as the original.${brandCopyGuidelines(brand)}
+
+Title: ${JSON.stringify(script.title)}
+Voiceover lines:
+${lines}
+
+Provide the output in a JSON format, with one voiceover line per scene in the same order.`;
+
+    const { value } = await generateStructured({
+      task: 'localize-script',
+      prompt: promptText,
+      schema: localizedScriptSchema(script.scenes.length),
+      signal,
+    });
+    return value;
+  } catch (error) {
+    console.error("Error localizing video script:", error);
+    throw toServiceError(error, "Failed to translate the script.");
+  }
+};
+
+const PACE_DIRECTIONS: Record<SpeechPace, string> = {
+  slow: 'at a slow, unhurried pace',
+  natural: '',
+  fast: 'at a brisk, energetic pace',
+};
+
+// The TTS model follows a leading "Say ... :" as direction and doesn't read it aloud.
+const speechPrompt = (text: string, direction: string, pace: SpeechPace, locale: string): string => {
+  const accent = locale === SOURCE_LOCALE ? '' : `in ${languageOf(locale)} with a native accent`;
+  const notes = [accent, direction.trim(), PACE_DIRECTIONS[pace]].filter(Boolean);
+  return notes.length > 0 ? `Say ${notes.join(', ')}: ${text}` : text;
+};
+
+export const generateSpeech = async (
+  text: string,
+  voice: string,
+  direction = '',
+  pace: SpeechPace = 'natural',
+  locale = SOURCE_LOCALE,
+  signal?: AbortSignal,
+): Promise<string> => {
+  const prompt = speechPrompt(text, direction, pace, locale);
+  try {
+    return await runRequest(
+      attemptSignal => getProvider().generateSpeech({ text: prompt, voice, signal: attemptSignal }),
+      { signal, timeoutMs: SPEECH_TIMEOUT_MS, label: 'speech' },
+    );
+  } catch (error) {
+    console.error("Error generating speech:", error);
+    throw toServiceError(error, "Failed to generate speech.");
+  }
+};
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { GoogleGenAI, Modality, type GenerateContentResponse } from "@google/genai";
+import type { GroundingSource } from '../types';
+import { AiRequestError } from '../services/requestRunner';
+import type { AiProvider, InlineImage } from './aiProvider';
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const TEXT_MODEL = 'gemini-2.5-pro';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+const toParts = (prompt: string, images: InlineImage[] = []) => [
+  ...images.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
+  { text: prompt },
+];
+
+const toGroundingSources = (groundingChunks: any[]): GroundingSource[] =>
+  groundingChunks
+    .map((chunk: any) => chunk?.web)
+    .filter((web: any) => web?.uri && web?.title)
+    .map((web: any) => ({ uri: web.uri, title: web.title }));
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// Surfaces safety blocks as a classified error instead of a generic "no data returned".
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason))) {
+    throw new AiRequestError('safety', `The request was blocked by the AI safety filters (${blockReason || finishReason}).`);
+  }
+};
+
+export const createGeminiProvider = (apiKey: string | undefined): AiProvider => {
+  let client: GoogleGenAI | null = null;
+
+  // The client is created on first use so that a missing key only fails the call, not the import.
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY environment variable not set");
+    }
+    if (!client) {
+      client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+
+    async generateImage({ prompt, images, signal }) {
+      const response = await getClient().models.generateContent({
+        model: IMAGE_MODEL,
+        contents: { parts: toParts(prompt, images) },
+        config: {
+          responseModalities: [Modality.IMAGE],
+          abortSignal: signal,
+        },
+      });
+      assertNotBlocked(response);
+
+      const firstPart = response.candidates?.[0]?.content?.parts?.[0];
+      if (firstPart?.inlineData?.data && firstPart.inlineData.mimeType) {
+        return { data: firstPart.inlineData.data, mimeType: firstPart.inlineData.mimeType };
+      }
+      throw new Error('No image data returned from API.');
+    },
+
+    async generateText({ prompt, images, responseSchema, maxOutputTokens, temperature, signal }) {
+      const response = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: images?.length ? { parts: toParts(prompt, images) } : prompt,
+        config: {
+          abortSignal: signal,
+          ...(responseSchema && { responseMimeType: "application/json", responseSchema }),
+          ...(maxOutputTokens !== undefined && { maxOutputTokens }),
+          ...(temperature !== undefined && { temperature }),
+        },
+      });
+      assertNotBlocked(response);
+      return response.text ?? '';
+    },
+
+    async generateGrounded({ prompt, images, signal }) {
+      const response = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: images?.length ? { parts: toParts(prompt, images) } : prompt,
+        config: {
+          tools: [{ googleSearch: {} }],
+          abortSignal: signal,
+        },
+      });
+      assertNotBlocked(response);
+      const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      return { text: response.text ?? '', sources: toGroundingSources(groundingChunks) };
+    },
+
+    async generateSpeech({ text, voice, signal }) {
+      const response = await getClient().models.generateContent({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: voice },
+            },
+          },
+          abortSignal: signal,
+        },
+      });
+      assertNotBlocked(response);
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (base64Audio) {
+        return base64Audio;
+      }
+      throw new Error("No audio data returned from TTS API.");
+    },
+
+    async createLiveToken({ model, signal }) {
+      const now = Date.now();
+      const token = await getClient().authTokens.create({
+        config: {
+          uses: 1,
+          expireTime: new Date(now + 30 * 60 * 1000).toISOString(),
+          newSessionExpireTime: new Date(now + 60 * 1000).toISOString(),
+          liveConnectConstraints: { model },
+          httpOptions: { apiVersion: 'v1alpha' },
+          abortSignal: signal,
+        },
+      });
+      if (!token.name) {
+        throw new Error("No token returned from auth token API.");
+      }
+      return token.name;
+    },
+  };
+};
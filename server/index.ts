@@ -0,0 +1,65 @@
+import { createServer } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { apiOptionsFromEnv, createApiMiddleware } from './api';
+import { configureProvider } from './aiProvider';
+
+// Production entry point: serves the built PWA from dist/ and the /api routes from one origin,
+// so the Gemini key stays in this process and never reaches the browser.
+
+const DIST_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'dist');
+const PORT = Number(process.env.PORT) || 3000;
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.webmanifest': 'application/manifest+json',
+};
+
+const resolveStaticFile = async (urlPath: string): Promise<string> => {
+  const requested = path.normalize(path.join(DIST_DIR, decodeURIComponent(urlPath)));
+  // A plain prefix check would let `/../dist-old/x` through to a sibling folder.
+  const relative = path.relative(DIST_DIR, requested);
+  if (relative && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative)) {
+    try {
+      if ((await stat(requested)).isFile()) {
+        return requested;
+      }
+    } catch {
+      // Fall through to the SPA entry point.
+    }
+  }
+  return path.join(DIST_DIR, 'index.html');
+};
+
+configureProvider({
+  providerName: process.env.AI_PROVIDER,
+  apiKey: process.env.GEMINI_API_KEY,
+});
+
+const api = createApiMiddleware(apiOptionsFromEnv(process.env));
+
+const server = createServer((req, res) => {
+  api(req, res, async () => {
+    try {
+      const filePath = await resolveStaticFile((req.url || '/').split('?')[0]);
+      const contents = await readFile(filePath);
+      res.setHeader('Content-Type', MIME_TYPES[path.extname(filePath)] || 'application/octet-stream');
+      res.end(contents);
+    } catch (error) {
+      console.error("Failed to serve static file:", error);
+      res.statusCode = 404;
+      res.end('Not found');
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`ThisIsUs server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,211 @@
+import type { AiProvider, InlineImage, ProviderTask } from './aiProvider';
+
+// Deterministic, offline stand-in for the Gemini provider. Every response is derived
+// only from the request, so demos and tests see the same output on every run.
+
+const MOCK_MARKETING = {
+  postIdeas: [
+    "Unboxing moment: reveal the product in slow motion with a satisfying sound cue.",
+    "Day-in-the-life: show how the product fits into a busy morning routine.",
+    "Before/after styling: the same outfit or space with and without the product.",
+  ],
+  captions: [
+    "Crafted for the moments that matter. ✨",
+    "Your new everyday essential has arrived.",
+    "Quality you can see, details you can feel.",
+  ],
+  hashtags: ["#ShopSmall", "#NewArrival", "#MadeWithLove", "#EverydayEssentials", "#TikTokMadeMeBuyIt"],
+  platforms: {
+    tiktok: { caption: "POV: you finally found the one ✨ #TikTokMadeMeBuyIt #NewArrival" },
+    instagram: {
+      caption: "Crafted for the moments that matter. ✨ Tap the link in bio to make it yours.",
+      firstComment: "#ShopSmall #NewArrival #MadeWithLove #EverydayEssentials",
+    },
+    facebook: {
+      primaryText: "Your new everyday essential has arrived. Quality you can see, details you can feel.",
+      headline: "Meet Your New Favorite",
+      description: "Free shipping today",
+    },
+    pinterest: {
+      title: "The Everyday Essential You'll Reach For Daily",
+      description: "Quality you can see and details you can feel. Save this for your next treat-yourself moment.",
+    },
+    x: { post: "Some things just make every day better. This is one of them. ✨ #NewArrival" },
+  },
+};
+
+const MOCK_VIDEO_SCRIPT = {
+  title: "Meet Your New Favorite",
+  scenes: [
+    { scene: 1, visual: "Close-up of the product on a sunlit table, camera slowly pushing in.", voiceover: "Some things just make every day better." },
+    { scene: 2, visual: "Hands picking up the product and using it in a real setting.", voiceover: "Designed to fit the way you actually live." },
+    { scene: 3, visual: "Product hero shot with the brand name and a call to action.", voiceover: "Get yours today, before everyone else does." },
+  ],
+};
+
+const MOCK_VIDEO_SCENE = {
+  visual: "Slow-motion shot of the product being unboxed, light catching its edges.",
+  voiceover: "This is the moment it all clicks.",
+};
+
+const MOCK_RECIPES = {
+  suggestions: [
+    {
+      title: "Mock Arroz con Gandules",
+      description: "A comforting one-pot rice dish with pigeon peas and sofrito.",
+      cookTime: "Approx. 45 minutes",
+      ingredients: ["2 cups medium-grain rice", "1 can pigeon peas", "3 tbsp sofrito", "1 packet sazón", "Olive oil", "Salt"],
+      instructions: ["Sauté the sofrito in olive oil.", "Add the pigeon peas, sazón and rice.", "Cover with water and simmer until tender."],
+    },
+    {
+      title: "Mock Garlic Butter Pasta",
+      description: "A quick weeknight pasta with garlic, butter and parmesan.",
+      cookTime: "Approx. 20 minutes",
+      ingredients: ["200g spaghetti", "4 cloves garlic", "3 tbsp butter", "Parmesan", "Parsley"],
+      instructions: ["Boil the pasta.", "Melt butter with garlic.", "Toss with pasta and parmesan."],
+    },
+  ],
+};
+
+const MOCK_LOCALIZED_MARKETING = {
+  postIdeas: [
+    "Momento unboxing: revela el producto en cámara lenta con un sonido satisfactorio.",
+    "Un día en la vida: muestra cómo el producto encaja en una mañana ajetreada.",
+    "Antes y después: el mismo look o espacio con y sin el producto.",
+  ],
+  captions: [
+    "Hecho para los momentos que importan. ✨",
+    "Tu nuevo básico de todos los días ya llegó.",
+    "Calidad que se ve, detalles que se sienten.",
+  ],
+  hashtags: ["#CompraLocal", "#NuevoLanzamiento", "#HechoConAmor", "#BásicosDelDía", "#TikTokMeLoHizoComprar"],
+  platforms: {
+    tiktok: { caption: "POV: por fin encontraste el indicado ✨ #TikTokMeLoHizoComprar #NuevoLanzamiento" },
+    instagram: {
+      caption: "Hecho para los momentos que importan. ✨ Toca el link en la bio y hazlo tuyo.",
+      firstComment: "#CompraLocal #NuevoLanzamiento #HechoConAmor #BásicosDelDía",
+    },
+    facebook: {
+      primaryText: "Tu nuevo básico de todos los días ya llegó. Calidad que se ve, detalles que se sienten.",
+      headline: "Conoce tu nuevo favorito",
+      description: "Envío gratis hoy",
+    },
+    pinterest: {
+      title: "El básico que vas a usar todos los días",
+      description: "Calidad que se ve y detalles que se sienten. Guárdalo para tu próximo gustito.",
+    },
+    x: { post: "Hay cosas que mejoran cada día. Esta es una de ellas. ✨ #NuevoLanzamiento" },
+  },
+};
+
+const MOCK_INSIGHT = "Looking good! Want me to turn one of these ideas into a short video script next?";
+
+// Half a second of silence at 24kHz, 16-bit mono: 24000 zero bytes.
+const SILENT_PCM_BASE64 = 'A'.repeat(32000);
+
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const createFixtureImage = (task: ProviderTask, prompt: string): InlineImage => {
+  const hue = hashString(prompt) % 360;
+  const label = task === 'food-image' ? 'Mock food photo'
+    : task === 'image-edit' ? 'Mock edited visual'
+    : task === 'storyboard-frame' ? 'Mock storyboard frame'
+    : 'Mock product visual';
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">`
+    + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+    + `<stop offset="0" stop-color="hsl(${hue},70%,45%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,20%)"/>`
+    + `</linearGradient></defs>`
+    + `<rect width="512" height="512" fill="url(#g)"/>`
+    + `<text x="256" y="256" font-family="sans-serif" font-size="32" fill="#fff" text-anchor="middle">${label}</text>`
+    + `</svg>`;
+  return { data: btoa(svg), mimeType: 'image/svg+xml' };
+};
+
+// The localize-script prompt lists the voiceover lines as `1. "…"`; the fixture answers one per line.
+const mockLocalizedScript = (prompt: string) => ({
+  title: "Conoce tu nuevo favorito",
+  voiceovers: [...prompt.matchAll(/^\d+\. "(.*)"$/gm)].map((_, i) => `Línea traducida ${i + 1}.`),
+});
+
+// The hashtag-research prompt lists one tag per line; scores are derived from each tag.
+const mockHashtagResearch = (prompt: string) => ({
+  tags: (prompt.match(/^#\S+$/gm) ?? []).map(tag => ({
+    tag,
+    bucket: tag.length > 14 ? 'niche' : 'broad',
+    popularity: (['high', 'medium', 'low'] as const)[hashString(tag) % 3],
+    rationale: `Mock rationale: ${tag} matches how shoppers search for this kind of product.`,
+  })),
+});
+
+// The compliance-review prompt numbers each item as a JSON string, `1. "…"`; items the keyword check flagged get a
+// flag and a rewrite, the rest pass.
+const mockComplianceReview = (prompt: string) => ({
+  items: [...prompt.matchAll(/^\d+\. ("(?:[^"\\]|\\.)*")( \(keyword check: .*\))?$/gm)].map(([, json, ruleFlags]) => {
+    const text: string = JSON.parse(json);
+    if (!ruleFlags) return { flags: [], rewrite: '' };
+    return {
+      flags: [{ category: 'guarantee', quote: text.split(' ').slice(0, 3).join(' '), explanation: 'Mock explanation: this wording promises a result the ad cannot back up.' }],
+      rewrite: `Mock compliant rewrite of: ${text}`,
+    };
+  }),
+});
+
+const fixtureJsonFor = (task: ProviderTask, prompt: string): unknown => {
+  switch (task) {
+    case 'marketing':
+      return MOCK_MARKETING;
+    case 'video-script':
+      return MOCK_VIDEO_SCRIPT;
+    case 'video-scene':
+      return MOCK_VIDEO_SCENE;
+    case 'recipes':
+      return MOCK_RECIPES;
+    case 'localize-marketing':
+      return MOCK_LOCALIZED_MARKETING;
+    case 'localize-script':
+      return mockLocalizedScript(prompt);
+    case 'hashtag-research':
+      return mockHashtagResearch(prompt);
+    case 'compliance-review':
+      return mockComplianceReview(prompt);
+    default:
+      return {};
+  }
+};
+
+export const createMockProvider = (): AiProvider => ({
+  name: 'mock',
+
+  async generateImage({ task, prompt }) {
+    return createFixtureImage(task, prompt);
+  },
+
+  async generateText({ task, prompt }) {
+    if (task === 'insight') {
+      return MOCK_INSIGHT;
+    }
+    return JSON.stringify(fixtureJsonFor(task, prompt));
+  },
+
+  async generateGrounded({ task, prompt }) {
+    return {
+      text: "```json\n" + JSON.stringify(fixtureJsonFor(task, prompt), null, 2) + "\n```",
+      sources: [{ uri: 'https://example.com/mock-source', title: 'Mock search result' }],
+    };
+  },
+
+  async generateSpeech() {
+    return SILENT_PCM_BASE64;
+  },
+
+  // The client sees `mock: true` on the token response and never sends this to Gemini.
+  async createLiveToken() {
+    return 'mock-live-token';
+  },
+});
@@ -0,0 +1,119 @@
+import { array, number, object, oneOf, string } from './schema';
+import { COMPLIANCE_CATEGORIES, COPY_PLATFORMS, HASHTAG_BUCKETS, HASHTAG_POPULARITIES, type CopyFieldSpec } from '../services/apiTypes';
+
+// Runtime schemas for every JSON-returning model call. Keep these in step with types.ts.
+
+const marketingCopyFields = {
+  postIdeas: array(string({ minLength: 1 }), { minItems: 1, description: 'Distinct marketing angles or viral post concepts.' }),
+  captions: array(string({ minLength: 1 }), { minItems: 1, description: 'Ready-to-post social media captions.' }),
+  hashtags: array(string({ minLength: 1 }), { minItems: 1, description: 'Trending, relevant hashtags including the # sign.' }),
+};
+
+// Copy generated before platform packs existed, when it's translated.
+export const marketingCopySchema = object(marketingCopyFields);
+
+// Limits are asked for rather than enforced: copy that runs over is flagged in the editor for the
+// user to trim, instead of failing the whole run.
+const copyField = (spec: CopyFieldSpec, description?: string) =>
+  string({ minLength: 1, description: `${description ? `${description} ` : ''}At most ${spec.maxLength} characters.` });
+
+export const marketingContentSchema = object({
+  ...marketingCopyFields,
+  platforms: object({
+    tiktok: object({
+      caption: copyField(COPY_PLATFORMS.tiktok.fields.caption),
+    }),
+    instagram: object({
+      caption: copyField(COPY_PLATFORMS.instagram.fields.caption),
+      firstComment: copyField(COPY_PLATFORMS.instagram.fields.firstComment, 'Posted right after the caption; usually the hashtags.'),
+    }),
+    facebook: object({
+      primaryText: copyField(COPY_PLATFORMS.facebook.fields.primaryText),
+      headline: copyField(COPY_PLATFORMS.facebook.fields.headline),
+      description: copyField(COPY_PLATFORMS.facebook.fields.description),
+    }),
+    pinterest: object({
+      title: copyField(COPY_PLATFORMS.pinterest.fields.title),
+      description: copyField(COPY_PLATFORMS.pinterest.fields.description),
+    }),
+    x: object({
+      post: copyField(COPY_PLATFORMS.x.fields.post),
+    }),
+  }, { description: 'Ready-to-paste copy for each platform, within its character limits.' }),
+}, { optional: ['platforms'] });
+
+const videoSceneFields = {
+  visual: string({ minLength: 1, description: 'A description of the visuals for this scene.' }),
+  voiceover: string({ description: 'The voiceover script for this scene.' }),
+};
+
+// Longer videos get room for more scenes.
+export const videoScriptSchema = (maxScenes: number) => object({
+  title: string({ minLength: 1, description: 'A catchy title for the video ad.' }),
+  scenes: array(
+    object({
+      scene: number({ description: 'The scene number.' }),
+      ...videoSceneFields,
+    }),
+    { minItems: 2, maxItems: maxScenes, description: `The scenes of the video script, between 2 and ${maxScenes} scenes.` },
+  ),
+});
+
+export const videoSceneSchema = object(videoSceneFields);
+
+// One translated line per scene, in order.
+export const localizedScriptSchema = (sceneCount: number) => object({
+  title: string({ minLength: 1 }),
+  voiceovers: array(string(), { minItems: sceneCount, maxItems: sceneCount, description: `Exactly ${sceneCount} voiceover lines, one per scene, in order.` }),
+});
+
+// One score per researched tag.
+export const hashtagResearchSchema = (tagCount: number) => object({
+  tags: array(
+    object({
+      tag: string({ minLength: 1, description: 'The tag exactly as given, including the # sign.' }),
+      bucket: oneOf(HASHTAG_BUCKETS.map(bucket => bucket.id), { description: 'broad: big, high-volume tags; niche: smaller communities that fit closely; branded: the brand\'s own tags.' }),
+      popularity: oneOf(HASHTAG_POPULARITIES, { description: 'Estimated current usage of the tag on social platforms.' }),
+      rationale: string({ minLength: 1, description: 'One sentence on why the tag fits this product, or why it does not.' }),
+    }),
+    { minItems: tagCount, maxItems: tagCount, description: `Exactly ${tagCount} scores, one per tag, in the order given.` },
+  ),
+});
+
+export const complianceReviewSchema = (itemCount: number) => object({
+  items: array(
+    object({
+      flags: array(
+        object({
+          category: oneOf(COMPLIANCE_CATEGORIES.map(category => category.id), { description: COMPLIANCE_CATEGORIES.map(category => `${category.id}: ${category.description}`).join(' ') }),
+          quote: string({ minLength: 1, description: 'The offending words, copied exactly from the text.' }),
+          explanation: string({ minLength: 1, description: 'One sentence on why the platform would reject it.' }),
+        }),
+        { description: 'Empty when the copy complies.' },
+      ),
+      rewrite: string({ description: 'The copy rewritten to comply, or an empty string when it already complies.' }),
+    }),
+    { minItems: itemCount, maxItems: itemCount, description: `Exactly ${itemCount} results, one per item, in the order given.` },
+  ),
+});
+
+export const recipeSuggestionsSchema = object({
+  suggestions: array(
+    object({
+      title: string({ minLength: 1 }),
+      description: string(),
+      cookTime: string(),
+      ingredients: array(string(), { minItems: 1 }),
+      instructions: array(string(), { minItems: 1 }),
+    }),
+  ),
+});
+
+export const userProfileSchema = object(
+  {
+    name: string(),
+    interests: array(string()),
+    goals: array(string()),
+  },
+  { optional: ['name', 'interests', 'goals'], passthrough: true },
+);
@@ -0,0 +1,158 @@
+import { Type, type Schema } from "@google/genai";
+import type { FieldError } from '../services/apiTypes';
+
+// A minimal runtime schema DSL. Each schema validates unknown model output into a typed value
+// with field-level errors, and renders itself as a Gemini `responseSchema`.
+
+// `value` is only meaningful when `ok` is true.
+export interface ValidationResult<T> {
+  ok: boolean;
+  value?: T;
+  errors: FieldError[];
+}
+
+export interface OutputSchema<T> {
+  validate(value: unknown, path?: string): ValidationResult<T>;
+  toResponseSchema(): Schema;
+}
+
+export type Infer<S> = S extends OutputSchema<infer T> ? T : never;
+
+interface BaseOptions {
+  description?: string;
+}
+
+const fail = (path: string, message: string): ValidationResult<never> => ({
+  ok: false,
+  errors: [{ path: path || '(root)', message }],
+});
+
+const pass = <T>(value: T): ValidationResult<T> => ({ ok: true, value, errors: [] });
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+export const string = (options: BaseOptions & { minLength?: number; maxLength?: number } = {}): OutputSchema<string> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'string') {
+      return fail(path, `Expected a string but got ${describe(value)}.`);
+    }
+    if (options.minLength !== undefined && value.trim().length < options.minLength) {
+      return fail(path, options.minLength === 1 ? 'Must not be empty.' : `Must be at least ${options.minLength} characters.`);
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      return fail(path, `Must be at most ${options.maxLength} characters (got ${value.length}).`);
+    }
+    return pass(value);
+  },
+  toResponseSchema: () => ({ type: Type.STRING, description: options.description }),
+});
+
+// A string from a fixed list. Models sometimes change the case, so matching ignores it.
+export const oneOf = <T extends string>(values: readonly T[], options: BaseOptions = {}): OutputSchema<T> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'string') {
+      return fail(path, `Expected a string but got ${describe(value)}.`);
+    }
+    const match = values.find(candidate => candidate === value.trim().toLowerCase());
+    if (match === undefined) {
+      return fail(path, `Must be one of ${values.join(', ')} (got "${value}").`);
+    }
+    return pass(match);
+  },
+  toResponseSchema: () => ({ type: Type.STRING, format: 'enum', enum: [...values], description: options.description }),
+});
+
+export const number = (options: BaseOptions = {}): OutputSchema<number> => ({
+  validate(value, path = '') {
+    // Models occasionally quote numbers; accept numeric strings.
+    const coerced = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof coerced !== 'number' || Number.isNaN(coerced)) {
+      return fail(path, `Expected a number but got ${describe(value)}.`);
+    }
+    return pass(coerced);
+  },
+  toResponseSchema: () => ({ type: Type.NUMBER, description: options.description }),
+});
+
+export const array = <T>(
+  items: OutputSchema<T>,
+  options: BaseOptions & { minItems?: number; maxItems?: number } = {},
+): OutputSchema<T[]> => ({
+  validate(value, path = '') {
+    if (!Array.isArray(value)) {
+      return fail(path, `Expected a list but got ${describe(value)}.`);
+    }
+    if (options.minItems !== undefined && value.length < options.minItems) {
+      return fail(path, `Must have at least ${options.minItems} item(s) (got ${value.length}).`);
+    }
+    if (options.maxItems !== undefined && value.length > options.maxItems) {
+      return fail(path, `Must have at most ${options.maxItems} item(s) (got ${value.length}).`);
+    }
+    const errors: FieldError[] = [];
+    const result: T[] = [];
+    value.forEach((item, index) => {
+      const itemResult = items.validate(item, `${path}[${index}]`);
+      if (itemResult.ok) {
+        result.push(itemResult.value);
+      } else {
+        errors.push(...itemResult.errors);
+      }
+    });
+    return errors.length > 0 ? { ok: false, errors } : pass(result);
+  },
+  toResponseSchema: () => ({
+    type: Type.ARRAY,
+    description: options.description,
+    items: items.toResponseSchema(),
+    ...(options.minItems !== undefined && { minItems: String(options.minItems) }),
+    ...(options.maxItems !== undefined && { maxItems: String(options.maxItems) }),
+  }),
+});
+
+type Shape = Record<string, OutputSchema<any>>;
+
+type ObjectValue<S extends Shape, O extends keyof S> =
+  { [K in Exclude<keyof S, O>]: Infer<S[K]> } & { [K in O]?: Infer<S[K]> };
+
+export const object = <S extends Shape, O extends keyof S = never>(
+  shape: S,
+  options: BaseOptions & {
+    optional?: O[];
+    // Keep keys that are not in the shape instead of dropping them.
+    passthrough?: boolean;
+  } = {},
+): OutputSchema<ObjectValue<S, O>> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(path, `Expected an object but got ${describe(value)}.`);
+    }
+    const input = value as Record<string, unknown>;
+    const optional = new Set<keyof S>(options.optional ?? []);
+    const errors: FieldError[] = [];
+    const result: Record<string, unknown> = options.passthrough ? { ...input } : {};
+
+    for (const key of Object.keys(shape)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (input[key] === undefined || input[key] === null) {
+        if (!optional.has(key)) {
+          errors.push({ path: fieldPath, message: 'Missing required field.' });
+        }
+        continue;
+      }
+      const fieldResult = shape[key].validate(input[key], fieldPath);
+      if (fieldResult.ok) {
+        result[key] = fieldResult.value;
+      } else {
+        errors.push(...fieldResult.errors);
+      }
+    }
+    return errors.length > 0 ? { ok: false, errors } : pass(result as ObjectValue<S, O>);
+  },
+  toResponseSchema: () => ({
+    type: Type.OBJECT,
+    description: options.description,
+    properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, field.toResponseSchema()])),
+    required: Object.keys(shape).filter(key => !(options.optional ?? []).includes(key as O)),
+  }),
+});
@@ -0,0 +1,121 @@
+import type { FieldError } from '../services/apiTypes';
+import type { GroundingSource } from '../types';
+import { AiRequestError, runRequest } from '../services/requestRunner';
+import { getProvider, type InlineImage, type ProviderTask } from './aiProvider';
+import type { OutputSchema, ValidationResult } from './schema';
+
+const TEXT_TIMEOUT_MS = 60_000;
+// Search grounding adds a round of web lookups before the model answers.
+const GROUNDED_TIMEOUT_MS = 90_000;
+
+// Thrown when model output still fails its schema after the repair round-trip.
+export class StructuredOutputError extends AiRequestError {
+  constructor(message: string, public fieldErrors: FieldError[]) {
+    super('bad_output', message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+interface StructuredRequest<T> {
+  task: ProviderTask;
+  prompt: string;
+  schema: OutputSchema<T>;
+  images?: InlineImage[];
+  // Grounded (search) calls cannot use a response schema, so JSON is extracted from free text.
+  grounded?: boolean;
+  signal?: AbortSignal;
+}
+
+interface StructuredResult<T> {
+  value: T;
+  sources: GroundingSource[];
+}
+
+// Pulls a JSON document out of model text: a fenced block if there is one, otherwise the
+// outermost {...} span, so stray prose before or after the object is tolerated.
+export const extractJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/i);
+  let candidate = fenced ? fenced[1] : text;
+  if (!fenced) {
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      candidate = candidate.slice(start, end + 1);
+    }
+  }
+  return JSON.parse(candidate.trim());
+};
+
+const parseAndValidate = <T>(text: string, schema: OutputSchema<T>): ValidationResult<T> => {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(text);
+  } catch {
+    return { ok: false, errors: [{ path: '(root)', message: 'Response was not valid JSON.' }] };
+  }
+  return schema.validate(parsed);
+};
+
+const buildRepairPrompt = (originalPrompt: string, badOutput: string, errors: FieldError[]) =>
+  `You previously answered the request below, but your JSON output did not match the required schema.
+
+Original request:
+"""
+${originalPrompt}
+"""
+
+Your previous output:
+"""
+${badOutput}
+"""
+
+Validation errors:
+${errors.map(error => `- ${error.path}: ${error.message}`).join('\n')}
+
+Return ONLY the corrected JSON object. Keep all valid content, fix every listed error, and do not add commentary.`;
+
+/**
+ * Runs a JSON-returning model call, validates the result against `schema`, and on failure asks
+ * the model once to repair its own output before giving up with a StructuredOutputError.
+ */
+export const generateStructured = async <T>({ task, prompt, schema, images, grounded, signal }: StructuredRequest<T>): Promise<StructuredResult<T>> => {
+  const provider = getProvider();
+
+  let text: string;
+  let sources: GroundingSource[] = [];
+  if (grounded) {
+    ({ text, sources } = await runRequest(
+      attemptSignal => provider.generateGrounded({ task, prompt, images, signal: attemptSignal }),
+      { signal, timeoutMs: GROUNDED_TIMEOUT_MS, label: task },
+    ));
+  } else {
+    text = await runRequest(
+      attemptSignal => provider.generateText({ task, prompt, images, responseSchema: schema.toResponseSchema(), signal: attemptSignal }),
+      { signal, timeoutMs: TEXT_TIMEOUT_MS, label: task },
+    );
+  }
+
+  const firstAttempt = parseAndValidate(text, schema);
+  if (firstAttempt.ok) {
+    return { value: firstAttempt.value, sources };
+  }
+
+  console.warn(`Structured output for "${task}" failed validation, attempting repair:`, firstAttempt.errors);
+  const repairedText = await runRequest(
+    attemptSignal => provider.generateText({
+      task,
+      prompt: buildRepairPrompt(prompt, text, firstAttempt.errors),
+      responseSchema: schema.toResponseSchema(),
+      signal: attemptSignal,
+    }),
+    { signal, timeoutMs: TEXT_TIMEOUT_MS, label: `${task} repair` },
+  );
+
+  const secondAttempt = parseAndValidate(repairedText, schema);
+  if (secondAttempt.ok) {
+    return { value: secondAttempt.value, sources };
+  }
+
+  console.error("Raw response text after repair:", repairedText);
+  throw new StructuredOutputError("The AI response did not match the expected format.", secondAttempt.errors);
+};
@@ -0,0 +1,234 @@
+import type { AbTest, AbTestCell, AbTestGoal, AbTestMetrics } from '../types';
+import { parseDataUrl } from './imageUtils';
+import { extensionFor, slugify } from './imageExport';
+
+// Planning, scoring and file exchange for A/B tests of visuals × captions. Results come from the
+// ad platform, typed in or imported as CSV.
+
+export const MAX_AB_CELLS = 12;
+
+const CELL_LABELS = 'ABCDEFGHIJKL';
+
+const SIGNIFICANCE_LEVEL = 0.05;
+
+const METRIC_FIELDS: (keyof AbTestMetrics)[] = ['impressions', 'clicks', 'spend', 'sales'];
+
+export const GOAL_LABELS: Record<AbTestGoal, string> = {
+  clicks: 'click-through rate',
+  sales: 'sales per impression',
+};
+
+// One cell per visual and caption pair, labelled in order.
+export const planCells = (visuals: { style: string; url: string }[], captions: string[]): AbTestCell[] =>
+  visuals
+    .flatMap(visual => captions.map(caption => ({ visual, caption })))
+    .slice(0, MAX_AB_CELLS)
+    .map(({ visual, caption }, i) => ({
+      id: crypto.randomUUID(),
+      label: CELL_LABELS[i],
+      style: visual.style,
+      imageUrl: visual.url,
+      caption,
+      metrics: null,
+    }));
+
+// Returns a problem with the numbers as the user would read it, or null if they add up.
+export const metricsProblem = (metrics: AbTestMetrics): string | null => {
+  if (METRIC_FIELDS.some(field => !Number.isFinite(metrics[field]) || metrics[field] < 0)) return "Numbers can't be negative.";
+  if (metrics.clicks > metrics.impressions) return "Clicks can't be more than impressions.";
+  if (metrics.sales > metrics.impressions) return "Sales can't be more than impressions.";
+  return null;
+};
+
+export interface CellStats {
+  cell: AbTestCell;
+  ctr: number | null;
+  // Spend per sale.
+  cpa: number | null;
+  // The goal's rate, which decides the winner.
+  rate: number | null;
+}
+
+export const cellStats = (cell: AbTestCell, goal: AbTestGoal): CellStats => {
+  const metrics = cell.metrics;
+  if (!metrics || metricsProblem(metrics) || metrics.impressions === 0) {
+    return { cell, ctr: null, cpa: metrics && metrics.sales > 0 ? metrics.spend / metrics.sales : null, rate: null };
+  }
+  return {
+    cell,
+    ctr: metrics.clicks / metrics.impressions,
+    cpa: metrics.sales > 0 ? metrics.spend / metrics.sales : null,
+    rate: (goal === 'clicks' ? metrics.clicks : metrics.sales) / metrics.impressions,
+  };
+};
+
+// Abramowitz and Stegun 7.1.26; accurate to about 1e-7, plenty for a p-value.
+const erf = (x: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return x >= 0 ? y : -y;
+};
+
+const normalCdf = (z: number): number => 0.5 * (1 + erf(z / Math.SQRT2));
+
+// Two-sided p-value of a two-proportion z-test, or null when there's nothing to compare.
+export const twoProportionPValue = (successesA: number, trialsA: number, successesB: number, trialsB: number): number | null => {
+  if (trialsA === 0 || trialsB === 0) return null;
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+  if (standardError === 0) return null;
+  const z = Math.abs(successesA / trialsA - successesB / trialsB) / standardError;
+  return 2 * (1 - normalCdf(z));
+};
+
+export const formatRate = (rate: number | null): string => rate === null ? '—' : `${(rate * 100).toFixed(2)}%`;
+
+export const formatMoney = (amount: number | null): string => amount === null ? '—' : amount.toFixed(2);
+
+const formatPValue = (pValue: number): string => pValue < 0.001 ? 'p < 0.001' : `p = ${pValue.toFixed(3)}`;
+
+export interface TestSummary {
+  stats: CellStats[];
+  leader: AbTestCell | null;
+  runnerUp: AbTestCell | null;
+  // Leader against runner-up.
+  pValue: number | null;
+  // The leader, once its lead is significant.
+  winner: AbTestCell | null;
+  verdict: string;
+}
+
+// The leader is tested against the runner-up only; with many cells, treat a narrow win with care.
+export const summarizeTest = (test: AbTest): TestSummary => {
+  const stats = test.cells.map(cell => cellStats(cell, test.goal));
+  const ranked = stats.filter(stat => stat.rate !== null).sort((a, b) => b.rate! - a.rate!);
+  if (ranked.length < 2) {
+    return { stats, leader: null, runnerUp: null, pValue: null, winner: null, verdict: 'Enter results for at least two cells to compare them.' };
+  }
+  const [leader, runnerUp] = ranked;
+  const successes = (metrics: AbTestMetrics) => test.goal === 'clicks' ? metrics.clicks : metrics.sales;
+  const pValue = twoProportionPValue(
+    successes(leader.cell.metrics!), leader.cell.metrics!.impressions,
+    successes(runnerUp.cell.metrics!), runnerUp.cell.metrics!.impressions,
+  );
+  const winner = pValue !== null && pValue < SIGNIFICANCE_LEVEL ? leader.cell : null;
+  const comparison = `${formatRate(leader.rate)} vs ${formatRate(runnerUp.rate)} for cell ${runnerUp.cell.label}`;
+  const verdict = winner
+    ? `Cell ${winner.label} (${winner.style}) wins on ${GOAL_LABELS[test.goal]}: ${comparison}, a significant gap (${formatPValue(pValue!)}).`
+    : `No clear winner yet. Cell ${leader.cell.label} leads on ${GOAL_LABELS[test.goal]} (${comparison}), but ${pValue === null ? "there's no difference to test" : `the gap isn't significant (${formatPValue(pValue)})`}; keep the test running.`;
+  return { stats, leader: leader.cell, runnerUp: runnerUp.cell, pValue, winner, verdict };
+};
+
+// One line per test for Rose.
+export const describeAbTest = (test: AbTest): string => {
+  const { stats, verdict } = summarizeTest(test);
+  const cells = stats.map(({ cell, ctr, cpa }) =>
+    `cell ${cell.label}: ${cell.style} visual with "${cell.caption}"${cell.metrics ? `, CTR ${formatRate(ctr)}, CPA ${formatMoney(cpa)}` : ', no results yet'}`);
+  return `"${test.name}" (judged on ${GOAL_LABELS[test.goal]}): ${cells.join('; ')}. ${verdict}`;
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Handles quoted fields, escaped quotes and CRLF line endings.
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+// Column names as ad managers export them, lower-cased with spaces and punctuation removed.
+const HEADER_ALIASES: Record<keyof AbTestMetrics | 'cell', string[]> = {
+  cell: ['cell', 'label', 'variant', 'adname', 'ad'],
+  impressions: ['impressions', 'impr'],
+  clicks: ['clicks', 'linkclicks', 'clicksall'],
+  spend: ['spend', 'amountspent', 'cost', 'amountspentusd'],
+  sales: ['sales', 'purchases', 'conversions', 'orders', 'results'],
+};
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const parseNumber = (text: string): number => Number(text.replace(/[$€£,\s]/g, '') || '0');
+
+// Rows are matched to cells by a cell column ("A" or "Cell A"), or by order when there's none.
+export const parseResultsCsv = (text: string, cells: AbTestCell[]): { metrics: Record<string, AbTestMetrics> } | { error: string } => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header || rows.length === 0) return { error: 'The file has no rows of results.' };
+  const keys = header.map(headerKey);
+  const column = (field: keyof typeof HEADER_ALIASES) => keys.findIndex(key => HEADER_ALIASES[field].includes(key));
+  const missing = METRIC_FIELDS.filter(field => column(field) < 0);
+  if (missing.length > 0) return { error: `The file needs ${missing.join(', ')} column${missing.length === 1 ? '' : 's'}.` };
+  const cellColumn = column('cell');
+  if (cellColumn < 0 && rows.length !== cells.length) {
+    return { error: `Add a "cell" column, or list exactly ${cells.length} rows in cell order.` };
+  }
+
+  const metrics: Record<string, AbTestMetrics> = {};
+  for (const [i, row] of rows.entries()) {
+    const line = i + 2;
+    // Cells without results yet.
+    if (METRIC_FIELDS.every(field => !(row[column(field)] ?? '').trim())) continue;
+    const label = cellColumn < 0 ? cells[i].label : (row[cellColumn] ?? '').trim().replace(/^cell\s*/i, '');
+    const cell = cells.find(candidate => candidate.label.toLowerCase() === label.toLowerCase());
+    if (!cell) return { error: `Line ${line}: there's no cell "${label}" in this test.` };
+    const values = Object.fromEntries(METRIC_FIELDS.map(field => [field, parseNumber(row[column(field)] ?? '')])) as unknown as AbTestMetrics;
+    if (METRIC_FIELDS.some(field => Number.isNaN(values[field]))) return { error: `Line ${line}: every result must be a number.` };
+    const problem = metricsProblem(values);
+    if (problem) return { error: `Line ${line}: ${problem}` };
+    metrics[cell.id] = values;
+  }
+  return { metrics };
+};
+
+// The creatives to upload plus a results sheet to fill in and import afterwards.
+export const buildAbTestZip = async (test: AbTest): Promise<Blob> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  const files = test.cells.map(cell => {
+    const { base64, mimeType } = parseDataUrl(cell.imageUrl);
+    const file = `cells/${cell.label}-${slugify(cell.style, 'variant')}.${extensionFor(mimeType)}`;
+    zip.file(file, base64, { base64: true });
+    zip.file(`cells/${cell.label}-caption.txt`, cell.caption + '\n');
+    return file;
+  });
+  const sheet = [
+    ['cell', 'image', 'caption', ...METRIC_FIELDS],
+    ...test.cells.map((cell, i) => [cell.label, files[i], cell.caption, ...METRIC_FIELDS.map(field => cell.metrics?.[field] ?? '')]),
+  ];
+  zip.file('results.csv', sheet.map(row => row.map(csvField).join(',')).join('\n') + '\n');
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,318 @@
+import type { AdTemplateId, StoredImage } from '../types';
+import { EXPORT_PRESETS, loadImage, drawFitted, type ExportPreset } from './imageExport';
+import { storedImageUrl } from './projectStore';
+
+// Renders ad creatives: a generated visual with headline, caption, price badge, CTA and logo laid
+// out by a template, inside the area each placement's app UI leaves uncovered.
+
+export const AD_TEMPLATES: { id: AdTemplateId; name: string; description: string }[] = [
+  { id: 'spotlight', name: 'Spotlight', description: 'Dark fade at the bottom with the headline over it and a price badge up top.' },
+  { id: 'banner', name: 'Banner', description: 'Brand-colored headline band on top and a full-width call to action.' },
+  { id: 'minimal', name: 'Minimal', description: 'Centered text straight on the image; lets the visual do the work.' },
+];
+
+// Ads only make sense at a fixed size, so "Original size" is left out.
+export const AD_PLACEMENTS: ExportPreset[] = EXPORT_PRESETS.filter(preset => preset.width !== null);
+
+interface Insets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Fractions of the frame covered by each app's own buttons and captions.
+const SAFE_AREAS: Record<string, Insets> = {
+  tiktok: { top: 0.08, right: 0.16, bottom: 0.22, left: 0.05 },
+  stories: { top: 0.14, right: 0.05, bottom: 0.2, left: 0.05 },
+};
+const DEFAULT_SAFE_AREA: Insets = { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 };
+
+export interface AdContent {
+  headline: string;
+  caption: string;
+  price: string;
+  cta: string;
+  logo: StoredImage | null;
+  // Badge, band and button color, usually the brand's first palette color.
+  accent: string;
+}
+
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+
+// Dark text on light accents, white text on dark ones.
+const textOn = (hex: string): string => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return '#ffffff';
+  const [r, g, b] = match.slice(1).map(channel => parseInt(channel, 16));
+  return 0.299 * r + 0.587 * g + 0.114 * b > 150 ? '#111827' : '#ffffff';
+};
+
+export const wrapLines = (context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Shrinks the font until the text wraps into `maxLines`; anything still left over is cut with an ellipsis.
+const fitText = (
+  context: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+  maxLines: number,
+  size: number,
+  minSize: number,
+  weight = 'bold',
+): { lines: string[]; size: number } => {
+  let lines: string[] = [];
+  for (; size >= minSize; size *= 0.9) {
+    context.font = `${weight} ${size}px ${FONT_FAMILY}`;
+    lines = wrapLines(context, text, maxWidth);
+    if (lines.length <= maxLines) return { lines, size };
+  }
+  size = minSize;
+  context.font = `${weight} ${size}px ${FONT_FAMILY}`;
+  lines = wrapLines(context, text, maxWidth).slice(0, maxLines);
+  lines[maxLines - 1] = `${lines[maxLines - 1]}…`;
+  return { lines, size };
+};
+
+const drawLines = (
+  context: CanvasRenderingContext2D,
+  { lines, size }: { lines: string[]; size: number },
+  x: number,
+  y: number,
+  align: CanvasTextAlign,
+  weight = 'bold',
+) => {
+  context.font = `${weight} ${size}px ${FONT_FAMILY}`;
+  context.textAlign = align;
+  context.textBaseline = 'top';
+  lines.forEach((line, i) => context.fillText(line, x, y + i * size * 1.15));
+};
+
+const blockHeight = ({ lines, size }: { lines: string[]; size: number }) => lines.length * size * 1.15;
+
+const roundedRect = (context: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+  context.beginPath();
+  context.roundRect(x, y, width, height, radius);
+  context.fill();
+};
+
+// A pill-shaped button; returns its width.
+const drawPill = (context: CanvasRenderingContext2D, text: string, x: number, y: number, height: number, fill: string, align: 'left' | 'center' = 'left'): number => {
+  context.font = `bold ${height * 0.45}px ${FONT_FAMILY}`;
+  const width = context.measureText(text).width + height * 1.2;
+  const left = align === 'center' ? x - width / 2 : x;
+  context.fillStyle = fill;
+  roundedRect(context, left, y, width, height, height / 2);
+  context.fillStyle = textOn(fill);
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(text, left + width / 2, y + height / 2);
+  return width;
+};
+
+const drawLogo = (context: CanvasRenderingContext2D, logo: HTMLImageElement, x: number, y: number, maxWidth: number, maxHeight: number, align: 'left' | 'center' = 'left') => {
+  const scale = Math.min(maxWidth / logo.naturalWidth, maxHeight / logo.naturalHeight);
+  const width = logo.naturalWidth * scale;
+  context.drawImage(logo, align === 'center' ? x - width / 2 : x, y, width, logo.naturalHeight * scale);
+};
+
+const withShadow = (context: CanvasRenderingContext2D, blur: number, draw: () => void) => {
+  context.save();
+  context.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  context.shadowBlur = blur;
+  draw();
+  context.restore();
+};
+
+interface Layout {
+  context: CanvasRenderingContext2D;
+  // Safe area.
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // 1% of the frame's shorter side.
+  unit: number;
+  content: AdContent;
+  logo: HTMLImageElement | null;
+}
+
+const drawSpotlight = ({ context, x, y, width, height, unit, content, logo }: Layout) => {
+  const { canvas } = context;
+  const scrim = context.createLinearGradient(0, canvas.height, 0, canvas.height * 0.45);
+  scrim.addColorStop(0, 'rgba(0, 0, 0, 0.8)');
+  scrim.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  context.fillStyle = scrim;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  let bottom = y + height;
+  if (content.cta) {
+    const pillHeight = 7 * unit;
+    bottom -= pillHeight;
+    drawPill(context, content.cta, x, bottom, pillHeight, content.accent);
+    bottom -= 2.5 * unit;
+  }
+  context.fillStyle = '#ffffff';
+  if (content.caption) {
+    const caption = fitText(context, content.caption, width, 2, 3.6 * unit, 2.6 * unit, 'normal');
+    bottom -= blockHeight(caption);
+    drawLines(context, caption, x, bottom, 'left', 'normal');
+    bottom -= 1.5 * unit;
+  }
+  if (content.headline) {
+    const headline = fitText(context, content.headline, width, 3, 8 * unit, 4.5 * unit);
+    bottom -= blockHeight(headline);
+    drawLines(context, headline, x, bottom, 'left');
+  }
+
+  if (content.price) {
+    const radius = 9 * unit;
+    const cx = x + width - radius;
+    const cy = y + radius;
+    context.fillStyle = content.accent;
+    context.beginPath();
+    context.arc(cx, cy, radius, 0, Math.PI * 2);
+    context.fill();
+    context.fillStyle = textOn(content.accent);
+    const price = fitText(context, content.price, radius * 1.6, 1, 5 * unit, 2.5 * unit);
+    drawLines(context, price, cx, cy - price.size * 0.55, 'center');
+  }
+  if (logo) drawLogo(context, logo, x, y, 28 * unit, 10 * unit);
+};
+
+const drawBanner = ({ context, x, y, width, height, unit, content, logo }: Layout) => {
+  const { canvas } = context;
+  const padding = 3 * unit;
+  const logoWidth = logo ? 16 * unit : 0;
+  const headline = content.headline
+    ? fitText(context, content.headline, width - logoWidth - padding * 2, 2, 7 * unit, 4 * unit)
+    : null;
+  const bandHeight = Math.max(headline ? blockHeight(headline) : 0, logo ? 10 * unit : 0) + padding * 2;
+  // The band runs edge to edge but starts below the safe-area top.
+  context.fillStyle = content.accent;
+  context.fillRect(0, y, canvas.width, bandHeight);
+  if (logo) drawLogo(context, logo, x + padding, y + padding, logoWidth - padding, bandHeight - padding * 2);
+  if (headline) {
+    context.fillStyle = textOn(content.accent);
+    const textCenter = x + logoWidth + (width - logoWidth) / 2;
+    drawLines(context, headline, textCenter, y + (bandHeight - blockHeight(headline)) / 2, 'center');
+  }
+
+  if (content.price) {
+    const price = fitText(context, content.price, 30 * unit, 1, 5 * unit, 3 * unit);
+    context.font = `bold ${price.size}px ${FONT_FAMILY}`;
+    const tagWidth = context.measureText(price.lines[0]).width + padding * 2;
+    context.fillStyle = '#ffffff';
+    roundedRect(context, x + width - tagWidth, y + bandHeight + padding, tagWidth, price.size + padding * 1.5, unit);
+    context.fillStyle = '#111827';
+    drawLines(context, price, x + width - tagWidth / 2, y + bandHeight + padding * 1.75, 'center');
+  }
+
+  let bottom = y + height;
+  if (content.cta) {
+    const barHeight = 8 * unit;
+    bottom -= barHeight;
+    context.fillStyle = '#ffffff';
+    roundedRect(context, x, bottom, width, barHeight, 1.5 * unit);
+    context.fillStyle = '#111827';
+    context.font = `bold ${barHeight * 0.42}px ${FONT_FAMILY}`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(content.cta, x + width / 2, bottom + barHeight / 2);
+    bottom -= 2 * unit;
+  }
+  if (content.caption) {
+    const caption = fitText(context, content.caption, width - padding * 2, 3, 3.6 * unit, 2.6 * unit, 'normal');
+    const boxHeight = blockHeight(caption) + padding * 2;
+    bottom -= boxHeight;
+    context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    roundedRect(context, x, bottom, width, boxHeight, 1.5 * unit);
+    context.fillStyle = '#ffffff';
+    drawLines(context, caption, x + width / 2, bottom + padding, 'center', 'normal');
+  }
+};
+
+const drawMinimal = ({ context, x, y, width, height, unit, content, logo }: Layout) => {
+  const center = x + width / 2;
+  let top = y;
+  if (logo) {
+    drawLogo(context, logo, center, top, 24 * unit, 8 * unit, 'center');
+    top += 10 * unit;
+  }
+  context.fillStyle = '#ffffff';
+  if (content.headline) {
+    const headline = fitText(context, content.headline, width, 3, 7.5 * unit, 4 * unit);
+    withShadow(context, 2 * unit, () => drawLines(context, headline, center, top, 'center'));
+    top += blockHeight(headline) + 1.5 * unit;
+  }
+  if (content.caption) {
+    const caption = fitText(context, content.caption, width * 0.9, 2, 3.6 * unit, 2.6 * unit, 'normal');
+    withShadow(context, 1.5 * unit, () => drawLines(context, caption, center, top, 'center', 'normal'));
+  }
+
+  let bottom = y + height;
+  if (content.cta) {
+    const pillHeight = 7 * unit;
+    bottom -= pillHeight;
+    drawPill(context, content.cta, center, bottom, pillHeight, content.accent, 'center');
+    bottom -= 2 * unit;
+  }
+  if (content.price) {
+    const pillHeight = 6 * unit;
+    drawPill(context, content.price, center, bottom - pillHeight, pillHeight, '#ffffff', 'center');
+  }
+};
+
+const TEMPLATE_RENDERERS: Record<AdTemplateId, (layout: Layout) => void> = {
+  spotlight: drawSpotlight,
+  banner: drawBanner,
+  minimal: drawMinimal,
+};
+
+// Returns the finished ad as a JPEG data URL.
+export const renderAd = async (imageUrl: string, placement: ExportPreset, templateId: AdTemplateId, content: AdContent): Promise<string> => {
+  const [image, logo] = await Promise.all([
+    loadImage(imageUrl),
+    content.logo ? loadImage(storedImageUrl(content.logo)) : Promise.resolve(null),
+  ]);
+  const canvas = document.createElement('canvas');
+  canvas.width = placement.width ?? image.naturalWidth;
+  canvas.height = placement.height ?? image.naturalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas is not supported in this browser.");
+  drawFitted(context, image, 'crop');
+
+  const insets = SAFE_AREAS[placement.id] ?? DEFAULT_SAFE_AREA;
+  const x = canvas.width * insets.left;
+  const y = canvas.height * insets.top;
+  TEMPLATE_RENDERERS[templateId]({
+    context,
+    x,
+    y,
+    width: canvas.width * (1 - insets.left - insets.right),
+    height: canvas.height * (1 - insets.top - insets.bottom),
+    unit: Math.min(canvas.width, canvas.height) / 100,
+    content: {
+      ...content,
+      headline: content.headline.trim(),
+      caption: content.caption.trim(),
+      price: content.price.trim(),
+      cta: content.cta.trim(),
+    },
+    logo,
+  });
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
@@ -0,0 +1,59 @@
+import type { ApiErrorResponse, FieldError } from './apiTypes';
+import { AiRequestError, classifyError, runRequest, type AiErrorKind } from './requestRunner';
+
+// The server already retries upstream failures, so this only has to outlast those retries.
+const CLIENT_TIMEOUT_MS = 180_000;
+
+// Error raised for non-2xx API responses. `kind` is the server's classification of the failure;
+// `fieldErrors` is set when the model's output failed schema validation.
+export class ApiError extends AiRequestError {
+  constructor(kind: AiErrorKind, message: string, public status: number, public fieldErrors: FieldError[] = []) {
+    super(kind, message);
+    this.name = 'ApiError';
+  }
+}
+
+// Formats an error for display, listing field-level problems when the server reported them.
+// The server's own messages for rejected requests (4xx) are written for the user, so they're shown as is.
+export const describeApiError = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError && error.fieldErrors.length > 0) {
+    const details = error.fieldErrors.map(fieldError => `${fieldError.path}: ${fieldError.message}`).join('; ');
+    return `${error.message} (${details})`;
+  }
+  if (error instanceof ApiError && error.status < 500) {
+    return error.message;
+  }
+  const classified = classifyError(error);
+  return classified.kind === 'unknown' ? fallback : classified.message;
+};
+
+// POSTs a JSON body to one of the API_ROUTES and returns the parsed response.
+// Non-2xx responses are turned into an ApiError carrying the server's message. Only failures
+// to reach the server at all are retried here; `signal` cancels the request.
+export const postJson = <TResponse>(route: string, body: unknown, signal?: AbortSignal): Promise<TResponse> =>
+  runRequest(async attemptSignal => {
+    const response = await fetch(route, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: attemptSignal,
+    });
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      const errorPayload = payload as ApiErrorResponse | null;
+      throw new ApiError(
+        errorPayload?.kind ?? 'unknown',
+        errorPayload?.error || `Request failed with status ${response.status}.`,
+        response.status,
+        errorPayload?.fieldErrors,
+      );
+    }
+    return payload as TResponse;
+  }, {
+    signal,
+    timeoutMs: CLIENT_TIMEOUT_MS,
+    maxAttempts: 2,
+    shouldRetry: error => !(error instanceof ApiError) && error.kind === 'network',
+    label: route,
+  });
@@ -0,0 +1,327 @@
+import type { MarketingContent, PlatformCopyPacks, CopyPlatform, HashtagBucket, HashtagPopularity, HashtagScore, ComplianceCategory, ComplianceFlag, VideoScript, VideoScriptScene, ScriptLength, ScriptPlatform, ScriptHook, GroundingSource, UserProfile, ConversationTurn, Recipe, SpeechPace } from '../types';
+import type { AiErrorKind } from './requestRunner';
+
+// Request/response contracts shared by the browser client (geminiService) and the API server.
+
+export const API_ROUTES = {
+  imageVariant: '/api/image-variant',
+  imageEdit: '/api/image-edit',
+  marketing: '/api/marketing',
+  videoScript: '/api/video-script',
+  videoScene: '/api/video-scene',
+  storyboardFrame: '/api/storyboard-frame',
+  insight: '/api/insight',
+  profile: '/api/profile',
+  recipes: '/api/recipes',
+  speech: '/api/speech',
+  localizeMarketing: '/api/localize-marketing',
+  localizeScript: '/api/localize-script',
+  hashtagResearch: '/api/hashtag-research',
+  complianceReview: '/api/compliance-review',
+  liveToken: '/api/live-token',
+} as const;
+
+export interface ImagePayload {
+  base64: string;
+  mimeType: string;
+}
+
+export type InsightTrigger = 'IMAGE_UPLOADED' | 'MARKETING_GENERATED' | 'VIDEO_SCRIPT_GENERATED';
+
+export interface InsightContext {
+  trigger: InsightTrigger;
+  marketingContent?: MarketingContent | null;
+  videoScript?: VideoScript | null;
+  productDescription?: string;
+}
+
+// The primary product image plus up to four extra angles per request.
+export const MAX_PRODUCT_IMAGES = 5;
+
+// Style prompts are user-written templates; the server rejects longer ones.
+export const MAX_STYLE_PROMPT_CHARS = 2000;
+
+// A visual style as sent by the client. `{product}` in the prompt is replaced with the product
+// description; the optional reference image steers mood and palette.
+export interface StylePayload {
+  name: string;
+  prompt: string;
+  referenceImage?: ImagePayload | null;
+}
+
+// The parts of a brand kit the prompts use. Sent with every generation request for a branded project.
+export interface BrandPayload {
+  name: string;
+  logo?: ImagePayload | null;
+  palette: string[];
+  backgrounds: string;
+  tone: string;
+  mustUsePhrases: string[];
+  forbiddenPhrases: string[];
+  defaultHashtags: string[];
+}
+
+export interface ImageVariantRequest {
+  image: ImagePayload;
+  // Other angles or details of the same product, sent after the primary image.
+  references?: ImagePayload[];
+  style: StylePayload;
+  productDescription?: string;
+  brand?: BrandPayload | null;
+}
+
+export interface ImageVariantResponse {
+  url: string;
+  // The style prompt the image was generated from, recorded in the project's version history.
+  prompt: string;
+}
+
+// Edit instructions are short natural-language requests like "warmer lighting"; the server rejects longer ones.
+export const MAX_EDIT_INSTRUCTION_CHARS = 500;
+
+export interface ImageEditRequest {
+  // The current version of the variant being edited.
+  image: ImagePayload;
+  instruction: string;
+}
+
+export type ImageEditResponse = ImageVariantResponse;
+
+export interface CopyFieldSpec {
+  label: string;
+  maxLength: number;
+}
+
+// Field labels and character limits per platform. Meta's are the lengths its ads show before
+// truncating; the others are hard limits, except TikTok's, which keeps captions scannable.
+export const COPY_PLATFORMS: { [P in CopyPlatform]: { label: string; fields: { [F in keyof PlatformCopyPacks[P]]: CopyFieldSpec } } } = {
+  tiktok: { label: 'TikTok', fields: { caption: { label: 'Caption', maxLength: 150 } } },
+  instagram: {
+    label: 'Instagram',
+    fields: { caption: { label: 'Caption', maxLength: 2200 }, firstComment: { label: 'First comment', maxLength: 2200 } },
+  },
+  facebook: {
+    label: 'Facebook',
+    fields: {
+      primaryText: { label: 'Primary text', maxLength: 125 },
+      headline: { label: 'Headline', maxLength: 40 },
+      description: { label: 'Description', maxLength: 30 },
+    },
+  },
+  pinterest: {
+    label: 'Pinterest',
+    fields: { title: { label: 'Title', maxLength: 100 }, description: { label: 'Description', maxLength: 500 } },
+  },
+  x: { label: 'X', fields: { post: { label: 'Post', maxLength: 280 } } },
+};
+
+export interface MarketingRequest {
+  image: ImagePayload;
+  references?: ImagePayload[];
+  productDescription: string;
+  brand?: BrandPayload | null;
+}
+
+export interface MarketingResponse {
+  content: MarketingContent;
+  sources: GroundingSource[];
+}
+
+export const HASHTAG_BUCKETS: { id: HashtagBucket; label: string; description: string }[] = [
+  { id: 'broad', label: 'Broad', description: 'Big, high-volume tags for reach.' },
+  { id: 'niche', label: 'Niche', description: 'Smaller communities that fit the product closely.' },
+  { id: 'branded', label: 'Branded', description: "The brand's own tags and campaign tags." },
+];
+
+export const HASHTAG_POPULARITIES: HashtagPopularity[] = ['high', 'medium', 'low'];
+
+export const MAX_RESEARCH_HASHTAGS = 40;
+
+export interface HashtagResearchRequest {
+  tags: string[];
+  productDescription: string;
+  brand?: BrandPayload | null;
+}
+
+// One score per requested tag, in the same order.
+export interface HashtagResearchResponse {
+  tags: HashtagScore[];
+  sources: GroundingSource[];
+}
+
+export const COMPLIANCE_CATEGORIES: { id: ComplianceCategory; label: string; description: string }[] = [
+  { id: 'health', label: 'Health claim', description: 'Says the product cures, treats or prevents a condition, causes weight loss, or is medically proven.' },
+  { id: 'guarantee', label: 'Guaranteed results', description: 'Promises outcomes, income or zero risk.' },
+  { id: 'before-after', label: 'Before and after', description: 'Compares the body or life before and after using the product.' },
+  { id: 'personal-attribute', label: 'Personal attribute', description: "Asserts or implies the viewer's health, weight, finances, age, religion, sexuality or other personal traits." },
+];
+
+export const MAX_REVIEW_ITEMS = 30;
+
+export interface ComplianceReviewItem {
+  text: string;
+  // What the local rules flagged, so the review can address it.
+  ruleFlags: string[];
+}
+
+export interface ComplianceReviewRequest {
+  items: ComplianceReviewItem[];
+  platforms: CopyPlatform[];
+  productDescription: string;
+  brand?: BrandPayload | null;
+}
+
+// One result per requested item, in the same order.
+export interface ComplianceReviewResponse {
+  items: { flags: ComplianceFlag[]; rewrite: string }[];
+}
+
+export const SCRIPT_LENGTHS: ScriptLength[] = [15, 30, 60];
+
+export const SCRIPT_PLATFORMS: { id: ScriptPlatform; label: string }[] = [
+  { id: 'tiktok', label: 'TikTok' },
+  { id: 'reels', label: 'Instagram Reels' },
+  { id: 'shorts', label: 'YouTube Shorts' },
+];
+
+export const SCRIPT_HOOKS: { id: ScriptHook; label: string }[] = [
+  { id: 'problem-solution', label: 'Problem / solution' },
+  { id: 'unboxing', label: 'Unboxing' },
+  { id: 'testimonial', label: 'Testimonial' },
+  { id: 'ugc', label: 'UGC' },
+];
+
+export interface VideoScriptRequest {
+  image: ImagePayload;
+  // The post idea the script is written for.
+  angle: string;
+  productDescription: string;
+  brand?: BrandPayload | null;
+  // Default to a 30-second problem/solution script for TikTok.
+  length?: ScriptLength;
+  platform?: ScriptPlatform;
+  hook?: ScriptHook;
+}
+
+// The client gives each script its id.
+export type VideoScriptResponse = Omit<VideoScript, 'id'>;
+
+// Rewrites one scene of `script`, in the context of the rest.
+export interface VideoSceneRequest {
+  script: VideoScript;
+  sceneIndex: number;
+  instruction: string;
+  productDescription: string;
+  brand?: BrandPayload | null;
+}
+
+export type VideoSceneResponse = Pick<VideoScriptScene, 'visual' | 'voiceover'>;
+
+// Scene visuals are a sentence or two; the server rejects longer ones.
+export const MAX_SCENE_VISUAL_CHARS = 1000;
+
+// Draws one storyboard still for a scene's `visual` description.
+export interface StoryboardFrameRequest {
+  image: ImagePayload;
+  references?: ImagePayload[];
+  visual: string;
+  productDescription: string;
+  brand?: BrandPayload | null;
+}
+
+export type StoryboardFrameResponse = ImageVariantResponse;
+
+export type InsightRequest = InsightContext;
+
+export interface InsightResponse {
+  text: string;
+}
+
+export interface ProfileRequest {
+  conversationHistory: ConversationTurn[];
+  currentUserProfile: UserProfile;
+}
+
+export type ProfileResponse = UserProfile;
+
+export interface RecipesRequest {
+  query: string;
+  excludeTitles: string[];
+}
+
+export interface RecipesResponse {
+  suggestions: Recipe[];
+  sources: GroundingSource[];
+}
+
+// Prebuilt Gemini voices.
+export const SPEECH_VOICES = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede'];
+
+export const MAX_SPEECH_DIRECTION_CHARS = 200;
+
+export interface SpeechRequest {
+  text: string;
+  voice: string;
+  // How to read the text, e.g. "with excitement". Optional.
+  direction?: string;
+  pace?: SpeechPace;
+  // Reads with this locale's accent; the source locale when missing.
+  locale?: string;
+}
+
+export interface SpeechResponse {
+  audio: string;
+}
+
+// Everything is generated in SOURCE_LOCALE, then transcreated into the project's other locales.
+export const SOURCE_LOCALE = 'en-US';
+
+export const LOCALES: { id: string; label: string; language: string }[] = [
+  { id: 'en-US', label: 'English (US)', language: 'American English' },
+  { id: 'es-US', label: 'Español (EE. UU.)', language: 'US Hispanic Spanish' },
+  { id: 'es-PR', label: 'Español (Puerto Rico)', language: 'Puerto Rican Spanish' },
+  { id: 'es-MX', label: 'Español (México)', language: 'Mexican Spanish' },
+  { id: 'es-CO', label: 'Español (Colombia)', language: 'Colombian Spanish' },
+  { id: 'es-AR', label: 'Español (Argentina)', language: 'Rioplatense Spanish' },
+  { id: 'es-CL', label: 'Español (Chile)', language: 'Chilean Spanish' },
+  { id: 'pt-BR', label: 'Português (Brasil)', language: 'Brazilian Portuguese' },
+];
+
+export interface LocalizeMarketingRequest {
+  content: MarketingContent;
+  locale: string;
+  brand?: BrandPayload | null;
+}
+
+export type LocalizeMarketingResponse = MarketingContent;
+
+export interface LocalizeScriptRequest {
+  script: VideoScript;
+  locale: string;
+  brand?: BrandPayload | null;
+}
+
+// Voiceover lines in scene order.
+export interface LocalizeScriptResponse {
+  title: string;
+  voiceovers: string[];
+}
+
+export interface LiveTokenResponse {
+  token: string;
+  model: string;
+  // Set when the server runs the mock provider; the client then plays a canned session instead.
+  mock?: boolean;
+}
+
+// One problem found while validating model output, e.g. { path: 'scenes[1].voiceover', message: 'Missing required field.' }.
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export interface ApiErrorResponse {
+  error: string;
+  kind?: AiErrorKind;
+  fieldErrors?: FieldError[];
+}
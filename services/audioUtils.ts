@@ -0,0 +1,73 @@
+// Helpers for the raw audio Gemini's speech models return: base64 16-bit little-endian PCM, mono, 24 kHz.
+
+export const SPEECH_SAMPLE_RATE = 24000;
+
+export const decodeBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const pcmToAudioBuffer = (
+  data: Uint8Array,
+  context: BaseAudioContext,
+  sampleRate = SPEECH_SAMPLE_RATE,
+  numChannels = 1,
+): AudioBuffer => {
+  const samples = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const frameCount = Math.floor(samples.length / numChannels);
+  const buffer = context.createBuffer(numChannels, Math.max(frameCount, 1), sampleRate);
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = samples[i * numChannels + channel] / 32768;
+    }
+  }
+  return buffer;
+};
+
+export const decodeSpeech = (base64: string, context: BaseAudioContext): AudioBuffer =>
+  pcmToAudioBuffer(decodeBase64(base64), context);
+
+export const pcmDuration = (data: Uint8Array, sampleRate = SPEECH_SAMPLE_RATE, numChannels = 1): number =>
+  data.byteLength / 2 / numChannels / sampleRate;
+
+// Joins 16-bit mono clips with `gapSeconds` of silence between them.
+export const concatPcm = (clips: Uint8Array[], gapSeconds = 0, sampleRate = SPEECH_SAMPLE_RATE): Uint8Array => {
+  const gapBytes = Math.round(gapSeconds * sampleRate) * 2;
+  // Clips are padded to whole samples so later clips stay aligned.
+  const sizes = clips.map(clip => clip.byteLength + (clip.byteLength % 2));
+  const output = new Uint8Array(sizes.reduce((sum, size) => sum + size, 0) + gapBytes * Math.max(clips.length - 1, 0));
+  let offset = 0;
+  clips.forEach((clip, i) => {
+    output.set(clip, offset);
+    offset += sizes[i] + gapBytes;
+  });
+  return output;
+};
+
+// Wraps raw 16-bit PCM in a WAV container.
+export const pcmToWav = (data: Uint8Array, sampleRate = SPEECH_SAMPLE_RATE, numChannels = 1): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+  const blockAlign = numChannels * 2;
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + data.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * blockAlign, true);
+  header.setUint16(32, blockAlign, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, data.byteLength, true);
+  return new Blob([header.buffer, data], { type: 'audio/wav' });
+};
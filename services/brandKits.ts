@@ -0,0 +1,68 @@
+import type { BrandKit, BrandViolation } from '../types';
+import type { BrandPayload } from './apiTypes';
+
+// Each user's brand kits live in localStorage; logos are downscaled before they get here.
+
+const storageKey = (user: string) => `${user}_brandKits`;
+
+export const createBrandKit = (): BrandKit => ({
+  id: `brand-${crypto.randomUUID()}`,
+  name: '',
+  logo: null,
+  palette: [],
+  backgrounds: '',
+  tone: '',
+  mustUsePhrases: [],
+  forbiddenPhrases: [],
+  defaultHashtags: [],
+});
+
+export const loadBrandKits = (user: string): BrandKit[] => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(user)) || '[]');
+  } catch (error) {
+    console.error("Failed to load or parse brand kits:", error);
+    return [];
+  }
+};
+
+export const saveBrandKits = (user: string, kits: BrandKit[]) => {
+  try {
+    localStorage.setItem(storageKey(user), JSON.stringify(kits));
+  } catch (error) {
+    console.error("Failed to save brand kits:", error);
+  }
+};
+
+export const toBrandPayload = (kit: BrandKit | null): BrandPayload | null =>
+  kit && {
+    name: kit.name,
+    logo: kit.logo && { base64: kit.logo.base64, mimeType: kit.logo.mimeType },
+    palette: kit.palette,
+    backgrounds: kit.backgrounds,
+    tone: kit.tone,
+    mustUsePhrases: kit.mustUsePhrases,
+    forbiddenPhrases: kit.forbiddenPhrases,
+    defaultHashtags: kit.defaultHashtags,
+  };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Case-insensitive; phrases that start or end with a letter or digit only match whole words,
+// so "free" flags "Free shipping" but not "carefree".
+const phrasePattern = (phrase: string) => {
+  const trimmed = phrase.trim();
+  const start = /^\w/.test(trimmed) ? '\\b' : '';
+  const end = /\w$/.test(trimmed) ? '\\b' : '';
+  return new RegExp(`${start}${escapeRegExp(trimmed)}${end}`, 'i');
+};
+
+export const findForbiddenPhrases = (text: string, forbiddenPhrases: string[]): string[] =>
+  forbiddenPhrases.filter(phrase => phrase.trim() && phrasePattern(phrase).test(text));
+
+export const checkCaptions = (captions: string[], kit: BrandKit | null): BrandViolation[] => {
+  if (!kit || kit.forbiddenPhrases.length === 0) return [];
+  return captions
+    .map((caption, captionIndex) => ({ captionIndex, phrases: findForbiddenPhrases(caption, kit.forbiddenPhrases) }))
+    .filter(violation => violation.phrases.length > 0);
+};
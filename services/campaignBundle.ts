@@ -0,0 +1,174 @@
+import type { AdCreative, CopyPlatform, ImageVariant, MarketingContent, VideoScript, GroundingSource, StoryboardFrame, Localization, HashtagEntry } from '../types';
+import type JSZip from 'jszip';
+import { parseDataUrl } from './imageUtils';
+import { extensionFor, slugify } from './imageExport';
+import { COPY_PLATFORMS, type CopyFieldSpec } from './apiTypes';
+import { isOutOfDate, localizedScript } from './localization';
+import { HASHTAG_LIMITS, rankTags, tagsFor } from './hashtags';
+
+// Packages a finished campaign into a ZIP built in the browser. JSZip is loaded on first use.
+
+export interface CampaignBundle {
+  projectName: string;
+  productDescription: string;
+  brandKitName: string | null;
+  // When the exported run was started.
+  generatedAt: number | null;
+  variants: ImageVariant[];
+  marketingContent: MarketingContent | null;
+  marketingSources: GroundingSource[];
+  videoScripts: VideoScript[];
+  storyboard: StoryboardFrame[];
+  localizations: Localization[];
+  // The hashtag workspace.
+  hashtags: HashtagEntry[];
+  adCreatives: AdCreative[];
+}
+
+const bulletList = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+const marketingMarkdown = (content: MarketingContent, sources: GroundingSource[]): string => {
+  const sections = [
+    '# Marketing copy',
+    `## Post ideas\n\n${bulletList(content.postIdeas)}`,
+    `## Captions\n\n${content.captions.map((caption, i) => `### Caption ${i + 1}\n\n${caption}`).join('\n\n')}`,
+    `## Hashtags\n\n${content.hashtags.join(' ')}`,
+  ];
+  if (content.platforms) {
+    const packs = content.platforms;
+    sections.push('## Platform copy', ...(Object.keys(COPY_PLATFORMS) as CopyPlatform[]).map(platform => {
+      const values = packs[platform] as Record<string, string>;
+      const fields = Object.entries(COPY_PLATFORMS[platform].fields) as [string, CopyFieldSpec][];
+      return `### ${COPY_PLATFORMS[platform].label}\n\n${fields.map(([field, spec]) => `**${spec.label}:** ${values[field]}`).join('\n\n')}`;
+    }));
+  }
+  if (sources.length > 0) {
+    sections.push(`## Sources\n\n${bulletList(sources.map(source => `[${source.title || source.uri}](${source.uri})`))}`);
+  }
+  return sections.join('\n\n') + '\n';
+};
+
+const scriptMarkdown = (script: VideoScript): string =>
+  [
+    `# ${script.title}`,
+    ...(script.angle ? [`**Angle:** ${script.angle}`] : []),
+    ...script.scenes.map((scene, i) => `## Scene ${i + 1}\n\n**Visual:** ${scene.visual}\n\n**Voiceover:** ${scene.voiceover}`),
+  ].join('\n\n') + '\n';
+
+const toJson = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+// Numbered by the script's position so scripts with the same title don't collide, and so a
+// translation shares its number with the source script.
+const addScript = (zip: JSZip, folder: string, script: VideoScript, position: number): string[] => {
+  const name = `${folder}/${position}-${slugify(script.title, 'script')}`;
+  zip.file(`${name}.md`, scriptMarkdown(script));
+  // Scene ids survive reordering; number them by position for the export.
+  const { id: _, ...exported } = script;
+  zip.file(`${name}.json`, toJson({ ...exported, scenes: script.scenes.map((scene, i) => ({ ...scene, scene: i + 1 })) }));
+  return [`${name}.md`, `${name}.json`];
+};
+
+export const buildCampaignZip = async (bundle: CampaignBundle): Promise<Blob> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+
+  const images = bundle.variants
+    .filter(variant => variant.status === 'succeeded')
+    .map((variant, i) => {
+      const { base64, mimeType } = parseDataUrl(variant.url);
+      // Style names can slug the same ("Neon!" and "Neon?"), so number them like the ads.
+      const file = `images/${i + 1}-${slugify(variant.style, 'variant')}.${extensionFor(mimeType)}`;
+      zip.file(file, base64, { base64: true });
+      return {
+        file,
+        style: variant.style,
+        prompt: variant.prompt ?? null,
+        edits: (variant.edits ?? []).map(edit => edit.instruction),
+      };
+    });
+
+  const ads = bundle.adCreatives.map((ad, i) => {
+    const { base64, mimeType } = parseDataUrl(ad.url);
+    // Several ads can share a style and placement, so number them.
+    const file = `ads/${i + 1}-${slugify(ad.style, 'variant')}-${ad.placementId}.${extensionFor(mimeType)}`;
+    zip.file(file, base64, { base64: true });
+    return {
+      file,
+      style: ad.style,
+      placement: ad.placementId,
+      template: ad.templateId,
+      headline: ad.headline,
+      caption: ad.caption,
+      price: ad.price,
+      cta: ad.cta,
+    };
+  });
+
+  // Frames follow each script's scene order; scenes without a drawn frame are skipped.
+  const storyboard = bundle.videoScripts.flatMap((script, s) => script.scenes.flatMap((scene, i) => {
+    const frame = bundle.storyboard.find(candidate => candidate.scene === scene.scene && candidate.status === 'succeeded' && candidate.url);
+    if (!frame?.url) return [];
+    const { base64, mimeType } = parseDataUrl(frame.url);
+    const file = `storyboard/${s + 1}-scene-${i + 1}.${extensionFor(mimeType)}`;
+    zip.file(file, base64, { base64: true });
+    return [{ file, script: s + 1, scene: i + 1, visual: frame.visual, upToDate: frame.visual === scene.visual }];
+  }));
+
+  const scripts = bundle.videoScripts.map((script, s) => addScript(zip, 'video-scripts', script, s + 1));
+
+  if (bundle.marketingContent) {
+    zip.file('marketing.md', marketingMarkdown(bundle.marketingContent, bundle.marketingSources));
+    zip.file('marketing.json', toJson({ ...bundle.marketingContent, sources: bundle.marketingSources }));
+  }
+
+  if (bundle.hashtags.length > 0) {
+    zip.file('hashtags.json', toJson({
+      tags: rankTags(bundle.hashtags),
+      // What to post on each platform, within its tag limit.
+      platforms: Object.fromEntries((Object.keys(HASHTAG_LIMITS) as CopyPlatform[]).map(platform => [platform, tagsFor(bundle.hashtags, platform)])),
+    }));
+  }
+
+  // Only finished translations are exported; scripts that changed after translating are flagged.
+  const locales = bundle.localizations.map(({ locale, marketing, scripts: translations }) => {
+    const marketingFiles = marketing?.content ? [`locales/${locale}/marketing.md`, `locales/${locale}/marketing.json`] : [];
+    if (marketing?.content) {
+      zip.file(marketingFiles[0], marketingMarkdown(marketing.content, []));
+      zip.file(marketingFiles[1], toJson(marketing.content));
+    }
+    const translated = bundle.videoScripts
+      .map((script, s) => ({ script, position: s + 1, localized: translations[script.id] }))
+      .filter(({ localized }) => localized?.voiceovers);
+    return {
+      locale,
+      outOfDateScripts: translated.filter(({ script, localized }) => isOutOfDate(script, localized)).map(({ position }) => position),
+      files: {
+        marketing: marketingFiles,
+        videoScripts: translated.flatMap(({ script, position, localized }) =>
+          addScript(zip, `locales/${locale}/video-scripts`, localizedScript(script, localized), position)),
+      },
+    };
+  });
+
+  zip.file('manifest.json', toJson({
+    project: bundle.projectName,
+    productDescription: bundle.productDescription,
+    exportedAt: new Date().toISOString(),
+    generatedAt: bundle.generatedAt ? new Date(bundle.generatedAt).toISOString() : null,
+    settings: {
+      brandKit: bundle.brandKitName,
+      styles: bundle.variants.map(variant => variant.style),
+    },
+    images,
+    ads,
+    storyboard,
+    files: {
+      marketing: bundle.marketingContent ? ['marketing.md', 'marketing.json'] : [],
+      videoScripts: scripts.flat(),
+      hashtags: bundle.hashtags.length > 0 ? ['hashtags.json'] : [],
+    },
+    locales,
+  }));
+
+  return zip.generateAsync({ type: 'blob' });
+};
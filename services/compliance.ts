@@ -0,0 +1,176 @@
+import type { ComplianceCategory, ComplianceReview, ComplianceState, CopyPlatform, MarketingContent, VideoScript } from '../types';
+import { COMPLIANCE_CATEGORIES, COPY_PLATFORMS } from './apiTypes';
+
+// Ad-policy checks for generated copy. Local rule packs catch the common phrasings as soon as the
+// copy exists; the optional model review catches the rest and writes compliant rewrites.
+
+interface ComplianceRule {
+  category: ComplianceCategory;
+  pattern: RegExp;
+  explanation: string;
+}
+
+const rule = (category: ComplianceCategory, pattern: string, explanation: string): ComplianceRule =>
+  ({ category, pattern: new RegExp(pattern, 'gi'), explanation });
+
+const CONDITIONS = 'cancer|diabetes|disease|anxiety|depression|arthritis|acne|eczema|psoriasis|insomnia|infections?|inflammation|illness(?:es)?|pain|covid';
+
+// Rejected on every platform.
+const GENERAL_RULES: ComplianceRule[] = [
+  rule('health', `\\b(?:cure[sd]?|heals?|treats?|prevents?|reverses?)\\s+(?:\\w+\\s+){0,2}?(?:${CONDITIONS})\\b`, 'Ads may not say a product cures, treats or prevents a condition.'),
+  rule('health', '\\b(?:clinically|medically|scientifically|dermatologist|doctor)[- ](?:proven|tested|approved|recommended)\\b', 'Proof claims need documentation the platform can check, and are often rejected outright.'),
+  rule('health', '\\bFDA[- ]approved\\b', 'Only products the FDA actually approved may say so, and platforms ask for proof.'),
+  rule('health', '\\b(?:boosts?|strengthens?)\\s+(?:your\\s+)?immun(?:e|ity)(?:\\s+system)?\\b', 'Immunity claims are treated as medical claims.'),
+  rule('health', '\\b(?:lose|burn|drop|shed|melt)\\s+(?:\\d+\\s*(?:lbs?|pounds|kgs?|kilos)|weight|fat|belly fat|inches)\\b', 'Weight-loss promises are restricted or banned on every major platform.'),
+  rule('health', '\\bmiracle\\s+(?:cure|pill|product|ingredient)\\b', 'Miracle claims read as unproven health promises.'),
+  rule('guarantee', '\\bguaranteed?\\s+(?:results?|success|income|to\\s+work|weight\\s+loss)\\b', 'Platforms reject ads that promise a specific result.'),
+  rule('guarantee', '\\b100%\\s+(?:guaranteed|effective|results?|successful)\\b', 'Platforms reject ads that promise a specific result.'),
+  rule('guarantee', '\\b(?:results|success)\\s+guaranteed\\b', 'Platforms reject ads that promise a specific result.'),
+  rule('guarantee', '\\b(?:risk[- ]free|zero risk|no risk)\\b', "Ads can't claim that buying carries no risk."),
+  rule('guarantee', '\\binstant(?:ly)?\\s+results?\\b', 'Promising instant results is treated as misleading.'),
+  rule('guarantee', '\\b(?:get rich|passive income|financial freedom|make\\s+\\$\\d[\\d,]*\\s*(?:a|per|/)\\s*(?:day|week|month))\\b', 'Income claims are banned as misleading.'),
+  rule('before-after', '\\bbefore\\s*(?:and|&|/|-|vs\\.?)\\s*after\\b', 'Before-and-after comparisons are banned for health, weight and beauty ads.'),
+  rule('before-after', '\\btransformation\\s+(?:photos?|pics?|results?)\\b', 'Transformation shots count as before-and-after comparisons.'),
+  rule('before-after', '\\blook\\s+\\d+\\s+years\\s+younger\\b', 'Age-reversal comparisons count as before-and-after claims.'),
+];
+
+// Meta's personal-attributes policy: ads may not assert or imply what the viewer is or has.
+const META_RULES: ComplianceRule[] = [
+  rule('personal-attribute', '\\b(?:are you|you\'re|you are|if you\'re)\\s+(?:\\w+\\s+)?(?:overweight|fat|obese|diabetic|depressed|anxious|balding|bald|broke|in debt|unemployed|single|divorced|pregnant|gay|lesbian|bisexual|christian|muslim|jewish|hindu|disabled|over \\d+|under \\d+)\\b', "Meta rejects ads that say or imply the viewer's health, finances, religion or other personal traits."),
+  rule('personal-attribute', `\\b(?:your|suffering from|struggling with|tired of)\\s+(?:\\w+\\s+)?(?:${CONDITIONS}|debt|bad credit|hair loss|wrinkles|belly fat|cellulite|erectile dysfunction)\\b`, "Calling out the viewer's condition implies you know about it, which Meta's personal-attributes policy bans."),
+];
+
+const TIKTOK_RULES: ComplianceRule[] = [
+  rule('health', '\\b(?:flat tummy|waist trainer|detox tea|skinny tea|appetite suppress\\w*|fat burners?)\\b', 'TikTok bans ads for weight-loss products such as detox teas and appetite suppressants.'),
+  rule('health', '\\b(?:get|become|stay)\\s+(?:skinny|thin|slim)\\b', 'TikTok rejects ads that promote an idealized body image.'),
+];
+
+const PINTEREST_RULES: ComplianceRule[] = [
+  rule('health', '\\b(?:slimming|skinny|flat tummy|fat[- ]burn(?:ing|ers?)|weight[- ]loss|diet pills?|detox)\\b', 'Pinterest bans weight-loss language in ads entirely.'),
+];
+
+export const PLATFORM_RULES: Record<CopyPlatform, ComplianceRule[]> = {
+  tiktok: TIKTOK_RULES,
+  instagram: META_RULES,
+  facebook: META_RULES,
+  pinterest: PINTEREST_RULES,
+  x: [],
+};
+
+export const ALL_PLATFORMS = Object.keys(COPY_PLATFORMS) as CopyPlatform[];
+
+export const checkedPlatforms = (state: ComplianceState): CopyPlatform[] => state.platforms ?? ALL_PLATFORMS;
+
+export const categoryLabel = (category: ComplianceCategory): string =>
+  COMPLIANCE_CATEGORIES.find(option => option.id === category)?.label ?? category;
+
+export interface ComplianceIssue {
+  category: ComplianceCategory;
+  quote: string;
+  explanation: string;
+  // Where the quote sits in the text, or null when a review quote can't be found in it.
+  span: { start: number; end: number } | null;
+  source: 'rules' | 'review';
+  // Platforms whose rules flagged it; empty for review flags.
+  platforms: CopyPlatform[];
+}
+
+// The same words flagged by several platforms' rules are listed once with every platform.
+export const checkRules = (text: string, platforms: CopyPlatform[]): ComplianceIssue[] => {
+  const found = new Map<string, ComplianceIssue>();
+  const packs = [
+    ...GENERAL_RULES.map(current => ({ rule: current, platforms })),
+    ...platforms.flatMap(platform => PLATFORM_RULES[platform].map(current => ({ rule: current, platforms: [platform] }))),
+  ];
+  packs.forEach(({ rule: { category, pattern, explanation }, platforms: flaggedOn }) => {
+    for (const match of text.matchAll(pattern)) {
+      const key = `${match.index}:${match[0].length}:${category}`;
+      const existing = found.get(key);
+      if (existing) {
+        existing.platforms = [...new Set([...existing.platforms, ...flaggedOn])];
+        continue;
+      }
+      found.set(key, {
+        category,
+        quote: match[0],
+        explanation,
+        span: { start: match.index, end: match.index + match[0].length },
+        source: 'rules',
+        platforms: flaggedOn,
+      });
+    }
+  });
+  return [...found.values()].sort((a, b) => a.span!.start - b.span!.start);
+};
+
+// A review only counts for the text it reviewed.
+export const isReviewCurrent = (review: ComplianceReview | undefined, text: string): review is ComplianceReview =>
+  !!review && review.source === text;
+
+const reviewIssues = (text: string, review: ComplianceReview | undefined): ComplianceIssue[] => {
+  if (!isReviewCurrent(review, text) || review.status !== 'succeeded') return [];
+  return (review.flags ?? []).map(flag => {
+    const start = text.toLowerCase().indexOf(flag.quote.toLowerCase());
+    return {
+      ...flag,
+      span: start < 0 ? null : { start, end: start + flag.quote.length },
+      source: 'review',
+      platforms: [],
+    };
+  });
+};
+
+// The review is asked to confirm or dismiss the keyword hits, so once copy has a current review its
+// flags are the answer. Until then the keyword hits stand as possible problems.
+export const itemIssues = (text: string, platforms: CopyPlatform[], review: ComplianceReview | undefined): ComplianceIssue[] =>
+  isReviewCurrent(review, text) && review.status === 'succeeded' ? reviewIssues(text, review) : checkRules(text, platforms);
+
+// What the rules flagged, as sent to the model review.
+export const ruleFlagNotes = (issues: ComplianceIssue[]): string[] =>
+  issues.map(issue => `${categoryLabel(issue.category)}: ${issue.quote}`);
+
+// Splits text into plain and flagged runs for highlighting; overlapping spans merge.
+export const highlightSegments = (text: string, issues: ComplianceIssue[]): { text: string; flagged: boolean }[] => {
+  const spans = issues
+    .flatMap(issue => issue.span ? [issue.span] : [])
+    .sort((a, b) => a.start - b.start)
+    .reduce<{ start: number; end: number }[]>((merged, span) => {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        merged.push({ ...span });
+      }
+      return merged;
+    }, []);
+  const segments: { text: string; flagged: boolean }[] = [];
+  let position = 0;
+  spans.forEach(({ start, end }) => {
+    if (start > position) segments.push({ text: text.slice(position, start), flagged: false });
+    segments.push({ text: text.slice(start, end), flagged: true });
+    position = end;
+  });
+  if (position < text.length) segments.push({ text: text.slice(position), flagged: false });
+  return segments;
+};
+
+// One piece of copy the checker covers.
+export interface ComplianceItem {
+  // Review key, as in ComplianceState.reviews.
+  key: string;
+  // Items in a group are reviewed in one request: the marketing copy, or one script.
+  group: string;
+  label: string;
+  text: string;
+}
+
+export const complianceItems = (content: MarketingContent | null, scripts: VideoScript[]): ComplianceItem[] => [
+  ...(content?.postIdeas ?? []).map((text, i) => ({ key: `idea:${i}`, group: 'marketing', label: `Post idea ${i + 1}`, text })),
+  ...(content?.captions ?? []).map((text, i) => ({ key: `caption:${i}`, group: 'marketing', label: `Caption ${i + 1}`, text })),
+  ...scripts.flatMap(script => script.scenes.map((scene, i) => ({
+    key: `voiceover:${scene.scene}`,
+    group: `script:${script.id}`,
+    label: `${script.title}, scene ${i + 1}`,
+    text: scene.voiceover,
+  }))),
+].filter(item => item.text.trim());
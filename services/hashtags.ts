@@ -0,0 +1,84 @@
+import type { BrandKit, CopyPlatform, HashtagBucket, HashtagEntry, HashtagPopularity, HashtagScore, HashtagSet } from '../types';
+
+// Each user's saved hashtag sets live in localStorage.
+
+const storageKey = (user: string) => `${user}_hashtagSets`;
+
+// Most tags each platform takes. Instagram and Pinterest reject more; past the others' counts
+// posts start to read as spam and reach drops.
+export const HASHTAG_LIMITS: Record<CopyPlatform, number> = {
+  tiktok: 8,
+  instagram: 30,
+  facebook: 5,
+  pinterest: 20,
+  x: 2,
+};
+
+const POPULARITY_RANK: Record<HashtagPopularity, number> = { high: 0, medium: 1, low: 2 };
+
+// Strips extra # signs and spaces, so "##summer vibes" becomes "#summervibes". Empty input gives ''.
+export const normalizeHashtag = (text: string): string => {
+  const body = text.trim().replace(/^#+/, '').replace(/\s+/g, '');
+  return body ? `#${body}` : '';
+};
+
+const sameTag = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const isBrandTag = (tag: string, kit: BrandKit | null) =>
+  !!kit && kit.defaultHashtags.some(brandTag => sameTag(normalizeHashtag(brandTag), tag));
+
+// Adds tags the workspace doesn't have yet. Unresearched tags go in the branded bucket when the
+// brand kit lists them, otherwise in broad until research sorts them.
+export const withNewTags = (entries: HashtagEntry[], tags: string[], kit: BrandKit | null, bucket?: HashtagBucket): HashtagEntry[] => {
+  const added: HashtagEntry[] = [];
+  tags.map(normalizeHashtag).forEach(tag => {
+    if (!tag || [...entries, ...added].some(entry => sameTag(entry.tag, tag))) return;
+    added.push({ tag, bucket: bucket ?? (isBrandTag(tag, kit) ? 'branded' : 'broad'), locked: false });
+  });
+  return [...entries, ...added];
+};
+
+// A new run's hashtags replace everything but the locked tags.
+export const reseedTags = (entries: HashtagEntry[], tags: string[], kit: BrandKit | null): HashtagEntry[] =>
+  withNewTags(entries.filter(entry => entry.locked), tags, kit);
+
+// Adds a saved set's tags to their saved buckets, skipping ones already there.
+export const withSet = (entries: HashtagEntry[], set: HashtagSet): HashtagEntry[] =>
+  set.tags.reduce((current, { tag, bucket }) => withNewTags(current, [tag], null, bucket), entries);
+
+export const withScores = (entries: HashtagEntry[], scores: HashtagScore[]): HashtagEntry[] =>
+  entries.map(entry => {
+    const score = scores.find(candidate => sameTag(candidate.tag, entry.tag));
+    return score ? { ...entry, bucket: score.bucket, popularity: score.popularity, rationale: score.rationale } : entry;
+  });
+
+// Locked tags first, then the most popular; unresearched tags keep their place after the scored ones.
+export const rankTags = (entries: HashtagEntry[]): HashtagEntry[] =>
+  entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) =>
+      Number(b.entry.locked) - Number(a.entry.locked)
+      || (a.entry.popularity ? POPULARITY_RANK[a.entry.popularity] : 3) - (b.entry.popularity ? POPULARITY_RANK[b.entry.popularity] : 3)
+      || a.index - b.index)
+    .map(({ entry }) => entry);
+
+// The tags to post on a platform, within its limit.
+export const tagsFor = (entries: HashtagEntry[], platform: CopyPlatform): string[] =>
+  rankTags(entries).slice(0, HASHTAG_LIMITS[platform]).map(entry => entry.tag);
+
+export const loadHashtagSets = (user: string): HashtagSet[] => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(user)) || '[]');
+  } catch (error) {
+    console.error("Failed to load or parse hashtag sets:", error);
+    return [];
+  }
+};
+
+export const saveHashtagSets = (user: string, sets: HashtagSet[]) => {
+  try {
+    localStorage.setItem(storageKey(user), JSON.stringify(sets));
+  } catch (error) {
+    console.error("Failed to save hashtag sets:", error);
+  }
+};
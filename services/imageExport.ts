@@ -0,0 +1,170 @@
+// Renders generated visuals to the sizes and formats each platform expects.
+
+export type ExportFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+// crop fills the frame and trims the edges; pad fits the whole image and fills the bars.
+export type FitMode = 'crop' | 'pad';
+
+export interface ExportPreset {
+  id: string;
+  label: string;
+  platform: string;
+  // null keeps the image's own size.
+  width: number | null;
+  height: number | null;
+}
+
+export interface ExportOptions {
+  fit: FitMode;
+  format: ExportFormat;
+  // 0-1; ignored for PNG.
+  quality: number;
+}
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'original', label: 'Original size', platform: 'Any', width: null, height: null },
+  { id: 'tiktok', label: 'TikTok (9:16)', platform: 'TikTok', width: 1080, height: 1920 },
+  { id: 'instagram-square', label: 'Feed square (1:1)', platform: 'Instagram', width: 1080, height: 1080 },
+  { id: 'instagram-portrait', label: 'Feed portrait (4:5)', platform: 'Instagram', width: 1080, height: 1350 },
+  { id: 'stories', label: 'Stories & Reels (9:16)', platform: 'Instagram / Facebook', width: 1080, height: 1920 },
+  { id: 'facebook-feed-ad', label: 'Feed ad (1:1)', platform: 'Facebook', width: 1080, height: 1080 },
+  { id: 'facebook-link-ad', label: 'Link ad (1.91:1)', platform: 'Facebook', width: 1200, height: 628 },
+  { id: 'shopify', label: 'Product image (1:1)', platform: 'Shopify', width: 2048, height: 2048 },
+];
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string }[] = [
+  { format: 'image/jpeg', label: 'JPEG', extension: 'jpg' },
+  { format: 'image/png', label: 'PNG', extension: 'png' },
+  { format: 'image/webp', label: 'WebP', extension: 'webp' },
+];
+
+export const extensionFor = (mimeType: string): string =>
+  EXPORT_FORMATS.find(entry => entry.format === mimeType)?.extension ?? mimeType.split('/')[1]?.replace('svg+xml', 'svg') ?? 'img';
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Couldn't load the image to export."));
+    image.src = url;
+  });
+
+const SAMPLE_SIZE = 64;
+
+// Finds where the detail is, as fractions of width and height, by weighting each pixel of a small
+// grayscale copy with its edge strength. Product shots are mostly plain background, so this lands
+// on the product and crops keep it in frame.
+const findFocus = (image: HTMLImageElement): { x: number; y: number } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return { x: 0.5, y: 0.5 };
+  context.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const luma = (x: number, y: number) => {
+    const i = (y * SAMPLE_SIZE + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+  let total = 0, sumX = 0, sumY = 0;
+  for (let y = 1; y < SAMPLE_SIZE - 1; y++) {
+    for (let x = 1; x < SAMPLE_SIZE - 1; x++) {
+      const energy = Math.abs(luma(x + 1, y) - luma(x - 1, y)) + Math.abs(luma(x, y + 1) - luma(x, y - 1));
+      total += energy;
+      sumX += energy * x;
+      sumY += energy * y;
+    }
+  }
+  if (total === 0) return { x: 0.5, y: 0.5 };
+  return { x: sumX / total / SAMPLE_SIZE, y: sumY / total / SAMPLE_SIZE };
+};
+
+// The average color along the image's border, so padding blends into the background.
+const borderColor = (image: HTMLImageElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return '#000000';
+  context.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      if (x !== 0 && y !== 0 && x !== SAMPLE_SIZE - 1 && y !== SAMPLE_SIZE - 1) continue;
+      const i = (y * SAMPLE_SIZE + x) * 4;
+      sum[0] += data[i];
+      sum[1] += data[i + 1];
+      sum[2] += data[i + 2];
+      count++;
+    }
+  }
+  return `rgb(${sum.map(channel => Math.round(channel / count)).join(', ')})`;
+};
+
+// Draws `image` over the whole canvas. `padColor` fills the bars when padding; omit it to leave
+// them transparent.
+export const drawFitted = (context: CanvasRenderingContext2D, image: HTMLImageElement, fit: FitMode, padColor?: string) => {
+  const { canvas } = context;
+  const sourceWidth = image.naturalWidth;
+  const sourceHeight = image.naturalHeight;
+  if (fit === 'crop') {
+    const scale = Math.max(canvas.width / sourceWidth, canvas.height / sourceHeight);
+    const cropWidth = canvas.width / scale;
+    const cropHeight = canvas.height / scale;
+    const focus = findFocus(image);
+    const sx = Math.min(Math.max(focus.x * sourceWidth - cropWidth / 2, 0), sourceWidth - cropWidth);
+    const sy = Math.min(Math.max(focus.y * sourceHeight - cropHeight / 2, 0), sourceHeight - cropHeight);
+    context.drawImage(image, sx, sy, cropWidth, cropHeight, 0, 0, canvas.width, canvas.height);
+  } else {
+    const scale = Math.min(canvas.width / sourceWidth, canvas.height / sourceHeight);
+    const width = sourceWidth * scale;
+    const height = sourceHeight * scale;
+    if (padColor) {
+      context.fillStyle = padColor;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+  }
+};
+
+export const renderExport = async (url: string, preset: ExportPreset, { fit, format, quality }: ExportOptions): Promise<Blob> => {
+  const image = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = preset.width ?? image.naturalWidth;
+  canvas.height = preset.height ?? image.naturalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas is not supported in this browser.");
+  // PNG and WebP keep transparent bars; JPEG has no alpha, so match the background instead.
+  drawFitted(context, image, fit, format === 'image/jpeg' ? borderColor(image) : undefined);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error("This browser can't export that format.")),
+      format,
+      format === 'image/png' ? undefined : quality,
+    );
+  });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const slugify = (text: string, fallback = 'image') =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
+
+// Takes the MIME type of the rendered blob: browsers that can't encode a format fall back to PNG.
+export const exportFilename = (name: string, preset: ExportPreset, mimeType: string): string => {
+  const slug = slugify(name);
+  const suffix = preset.id === 'original' ? '' : `-${preset.id}`;
+  return `${slug}${suffix}.${extensionFor(mimeType)}`;
+};
@@ -0,0 +1,141 @@
+import type { StoredImage } from '../types';
+import type { ImagePayload } from './apiTypes';
+
+// Longest-side limits offered for uploads. Re-encoding on a canvas also applies EXIF rotation and
+// drops all metadata, including GPS location.
+export const UPLOAD_MAX_DIMENSIONS = [1024, 1600, 2048, 3072];
+export const DEFAULT_UPLOAD_MAX_DIMENSION = 1600;
+
+// iPhones save HEIC by default; some browsers report it with an empty MIME type.
+export const isHeicFile = (file: File) =>
+  ['image/heic', 'image/heif'].includes(file.type) || /\.hei[cf]$/i.test(file.name);
+
+// Decodes upright (honouring EXIF orientation). Browsers other than Safari can't decode HEIC, so
+// those are converted with heic2any, loaded on first use.
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    if (!isHeicFile(file)) throw error;
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/png' });
+    return createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+  }
+};
+
+const toBlob = ({ base64, mimeType }: StoredImage) =>
+  new Blob([Uint8Array.from(atob(base64), char => char.charCodeAt(0))], { type: mimeType });
+
+const getContext = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas is not supported in this browser.");
+  return context;
+};
+
+// Re-encodes an image no larger than `maxDimension` on its longest side. JPEG by default; pass
+// 'image/png' to keep transparency (e.g. for logos).
+export const downscaleImage = async (
+  file: File,
+  maxDimension: number,
+  quality = 0.85,
+  mimeType: 'image/jpeg' | 'image/png' = 'image/jpeg',
+): Promise<StoredImage> => {
+  const bitmap = await decodeImage(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  try {
+    getContext(canvas).drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  } finally {
+    bitmap.close();
+  }
+
+  const dataUrl = canvas.toDataURL(mimeType, quality);
+  return {
+    name: file.name.replace(/\.[^.]+$/, '') + (mimeType === 'image/png' ? '.png' : '.jpg'),
+    base64: dataUrl.split(',')[1],
+    mimeType,
+  };
+};
+
+// Prepares a product photo for upload. PNGs stay PNG so cut-out products keep their transparency.
+export const preprocessImage = (file: File, maxDimension: number): Promise<StoredImage> =>
+  downscaleImage(file, maxDimension, 0.9, file.type === 'image/png' ? 'image/png' : 'image/jpeg');
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// A crop rectangle in fractions (0-1) of the image's width and height.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Rotates clockwise by `rotation`, then crops the rotated image to `crop`.
+export const adjustImage = async (image: StoredImage, rotation: Rotation, crop: CropRect | null = null): Promise<StoredImage> => {
+  const bitmap = await createImageBitmap(toBlob(image));
+  const quarterTurn = rotation === 90 || rotation === 270;
+  const rotated = document.createElement('canvas');
+  rotated.width = quarterTurn ? bitmap.height : bitmap.width;
+  rotated.height = quarterTurn ? bitmap.width : bitmap.height;
+  try {
+    const context = getContext(rotated);
+    context.translate(rotated.width / 2, rotated.height / 2);
+    context.rotate((rotation * Math.PI) / 180);
+    context.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+  } finally {
+    bitmap.close();
+  }
+
+  let output = rotated;
+  if (crop) {
+    output = document.createElement('canvas');
+    const sx = Math.round(crop.x * rotated.width);
+    const sy = Math.round(crop.y * rotated.height);
+    output.width = Math.max(1, Math.round(crop.width * rotated.width));
+    output.height = Math.max(1, Math.round(crop.height * rotated.height));
+    getContext(output).drawImage(rotated, sx, sy, output.width, output.height, 0, 0, output.width, output.height);
+  }
+  const mimeType = image.mimeType === 'image/png' ? 'image/png' : 'image/jpeg';
+  return { name: image.name, ...parseDataUrl(output.toDataURL(mimeType, 0.9)) };
+};
+
+// Splits a base64 data URL (as returned for generated images) back into an API image payload.
+export const parseDataUrl = (url: string): ImagePayload => {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(url);
+  if (!match) throw new Error("Only base64 data URLs can be sent back to the image model.");
+  return { mimeType: match[1], base64: match[2] };
+};
+
+// Spec sheets rarely need more than their first few pages.
+export const MAX_PDF_PAGES = 10;
+
+// Renders the pages of a PDF to JPEGs in the browser, no larger than `maxDimension` on their
+// longest side. pdf.js is loaded on first use so it stays out of the main bundle.
+export const rasterizePdf = async (file: File, maxDimension: number): Promise<StoredImage[]> => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerPort) {
+    pdfjs.GlobalWorkerOptions.workerPort = new Worker(new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url), { type: 'module' });
+  }
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const stem = file.name.replace(/\.[^.]+$/, '');
+  try {
+    const pages: StoredImage[] = [];
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, MAX_PDF_PAGES); pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: maxDimension / Math.max(width, height) });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      await page.render({ canvasContext: getContext(canvas), viewport }).promise;
+      page.cleanup();
+      pages.push({ name: `${stem} (page ${pageNumber}).jpg`, ...parseDataUrl(canvas.toDataURL('image/jpeg', 0.9)) });
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
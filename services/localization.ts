@@ -0,0 +1,28 @@
+import type { Localization, LocalizedScript, VideoScript } from '../types';
+import { LOCALES } from './apiTypes';
+
+export const localeLabel = (locale: string): string => LOCALES.find(option => option.id === locale)?.label ?? locale;
+
+export const emptyLocalization = (locale: string): Localization => ({
+  locale,
+  marketing: null,
+  scripts: {},
+  voiceover: { takes: [], chosen: {} },
+});
+
+// What a script translation is made from; editing the title or any line makes it out of date.
+export const scriptSource = (script: VideoScript): string =>
+  JSON.stringify([script.title, ...script.scenes.map(scene => scene.voiceover)]);
+
+export const isOutOfDate = (script: VideoScript, localized: LocalizedScript | undefined): boolean =>
+  localized?.status === 'succeeded' && localized.source !== scriptSource(script);
+
+// The script as read in the locale. Scenes added since the translation keep their source line.
+export const localizedScript = (script: VideoScript, localized: LocalizedScript | undefined): VideoScript =>
+  localized?.voiceovers
+    ? {
+      ...script,
+      title: localized.title ?? script.title,
+      scenes: script.scenes.map(scene => ({ ...scene, voiceover: localized.voiceovers?.[scene.scene] ?? scene.voiceover })),
+    }
+    : script;
@@ -0,0 +1,40 @@
+import { LiveServerMessage, type LiveConnectParameters, type Session } from "@google/genai";
+
+// Offline stand-in for a Gemini Live session, used when the server runs the mock provider. It
+// plays one canned exchange with silent audio, so the assistant panel can be demoed without a key.
+
+export type LiveSession = Pick<Session, 'sendRealtimeInput' | 'sendToolResponse' | 'close'>;
+
+const MOCK_USER_LINE = "Hey Rose, how's my campaign looking?";
+const MOCK_ROSE_LINE = "Hey! I'm the offline stand-in for Rose, so this reply is canned. Add a Gemini key to chat with me for real.";
+// Half a second of silence at 24kHz, 16-bit mono: 24000 zero bytes.
+const SILENT_PCM_BASE64 = 'A'.repeat(32000);
+
+const USER_LINE_DELAY_MS = 1500;
+const REPLY_DELAY_MS = 3000;
+
+const message = (fields: Partial<LiveServerMessage>): LiveServerMessage => Object.assign(new LiveServerMessage(), fields);
+
+export const connectMockLiveSession = async ({ callbacks }: LiveConnectParameters): Promise<LiveSession> => {
+  const timers = [
+    setTimeout(() => callbacks.onopen?.(), 0),
+    setTimeout(() => callbacks.onmessage(message({ serverContent: { inputTranscription: { text: MOCK_USER_LINE } } })), USER_LINE_DELAY_MS),
+    // The panel records a turn from the transcripts that arrive with `turnComplete`.
+    setTimeout(() => callbacks.onmessage(message({
+      serverContent: {
+        inputTranscription: { text: MOCK_USER_LINE },
+        outputTranscription: { text: MOCK_ROSE_LINE },
+        modelTurn: { role: 'model', parts: [{ inlineData: { data: SILENT_PCM_BASE64, mimeType: 'audio/pcm;rate=24000' } }] },
+        turnComplete: true,
+      },
+    })), REPLY_DELAY_MS),
+  ];
+  return {
+    sendRealtimeInput: () => {},
+    sendToolResponse: () => {},
+    close: () => {
+      timers.forEach(clearTimeout);
+      callbacks.onclose?.(new CloseEvent('close'));
+    },
+  };
+};
@@ -0,0 +1,146 @@
+import type { Project, ProjectVersion, StoredImage, VideoScript } from '../types';
+
+// Per-user project library in IndexedDB. Projects hold the uploaded images and generated
+// data URLs, which are far too large for localStorage.
+
+const DB_NAME = 'thisisus';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+
+export type ProjectContent = Omit<Project, 'id' | 'owner' | 'createdAt' | 'updatedAt'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        store.createIndex('owner', 'owner');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in a single transaction and resolves once the transaction has committed.
+const withStore = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDb();
+  const transaction = db.transaction(PROJECTS_STORE, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await work(transaction.objectStore(PROJECTS_STORE));
+  await committed;
+  return result;
+};
+
+const emptyContent = (): ProjectContent => ({
+  name: 'Untitled project',
+  productDescription: '',
+  images: [],
+  primaryImageId: null,
+  variants: [],
+  marketingContent: null,
+  marketingSources: [],
+  marketingStatus: null,
+  marketingError: null,
+  videoScripts: [],
+  styleIds: null,
+  brandKitId: null,
+  currentRun: null,
+  versions: [],
+  finals: { images: [], captions: [] },
+  adCreatives: [],
+  voiceover: { takes: [], chosen: {} },
+  storyboard: [],
+  localizations: [],
+  hashtags: { tags: [], research: null },
+  abTests: [],
+  compliance: { platforms: null, autoReview: false, reviews: {} },
+});
+
+// Projects and versions saved before multiple scripts kept a single `videoScript` without an id.
+type LegacyScript = { videoScript?: Omit<VideoScript, 'id'> | null };
+
+// Projects saved before multi-image support also kept a single `image`.
+type StoredProject = Project & LegacyScript & { image?: StoredImage | null; versions?: (ProjectVersion & LegacyScript)[] };
+
+// Moves a legacy script into `videoScripts`, taking the id of the project or version that held it.
+const withScripts = <T extends { id: string; videoScripts: VideoScript[] }>({ videoScript, ...owner }: T & LegacyScript): T =>
+  ({ ...owner, videoScripts: owner.videoScripts ?? (videoScript ? [{ ...videoScript, id: owner.id }] : []) }) as unknown as T;
+
+// Fills in fields added after a project was first saved.
+const withDefaults = ({ image, ...stored }: StoredProject): Project => {
+  const project = withScripts<Project>(stored);
+  const withImages = !project.images && image
+    ? { ...project, images: [{ ...image, id: project.id, selected: true }], primaryImageId: project.id }
+    : project;
+  const defaults = emptyContent();
+  return {
+    ...defaults,
+    ...withImages,
+    versions: (stored.versions ?? defaults.versions).map(version => withScripts<ProjectVersion>(version)),
+  };
+};
+
+// Most recently updated first.
+export const listProjects = (owner: string): Promise<Project[]> =>
+  withStore('readonly', async store => {
+    const projects = await toPromise<Project[]>(store.index('owner').getAll(owner));
+    return projects.map(withDefaults).sort((a, b) => b.updatedAt - a.updatedAt);
+  });
+
+export const getProject = (id: string): Promise<Project | undefined> =>
+  withStore('readonly', async store => {
+    const project = await toPromise<Project | undefined>(store.get(id));
+    return project && withDefaults(project);
+  });
+
+export const createProject = (owner: string, content: Partial<ProjectContent> = {}): Promise<Project> => {
+  const now = Date.now();
+  const project: Project = { ...emptyContent(), ...content, id: crypto.randomUUID(), owner, createdAt: now, updatedAt: now };
+  return withStore('readwrite', async store => {
+    await toPromise(store.add(project));
+    return project;
+  });
+};
+
+// Merges `changes` into the stored project inside one transaction, so a rename from the
+// library and an autosave from the editor never overwrite each other's fields.
+export const updateProject = (id: string, changes: Partial<ProjectContent>): Promise<Project | undefined> =>
+  withStore('readwrite', async store => {
+    const existing = await toPromise<Project | undefined>(store.get(id));
+    if (!existing) return undefined;
+    const updated: Project = { ...withDefaults(existing), ...changes, updatedAt: Date.now() };
+    await toPromise(store.put(updated));
+    return updated;
+  });
+
+export const renameProject = (id: string, name: string) => updateProject(id, { name });
+
+export const duplicateProject = async (id: string): Promise<Project | undefined> => {
+  const original = await getProject(id);
+  if (!original) return undefined;
+  const { id: _id, owner, createdAt: _createdAt, updatedAt: _updatedAt, ...content } = original;
+  return createProject(owner, { ...content, name: `${original.name} (copy)` });
+};
+
+export const deleteProject = (id: string): Promise<void> =>
+  withStore('readwrite', store => toPromise(store.delete(id)));
+
+export const storedImageUrl = (image: StoredImage) => `data:${image.mimeType};base64,${image.base64}`;
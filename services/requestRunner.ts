@@ -0,0 +1,145 @@
+// Shared by the browser client and the API server: classifies failures, retries transient ones
+// with jittered exponential backoff, and enforces a per-attempt timeout and caller cancellation.
+
+export type AiErrorKind = 'quota' | 'safety' | 'network' | 'bad_output' | 'timeout' | 'aborted' | 'unknown';
+
+const RETRYABLE_KINDS: AiErrorKind[] = ['quota', 'network', 'timeout'];
+
+export class AiRequestError extends Error {
+  constructor(public kind: AiErrorKind, message: string) {
+    super(message);
+    this.name = 'AiRequestError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof AiRequestError && error.kind === 'aborted')
+  || (error instanceof Error && error.name === 'AbortError');
+
+const KIND_MESSAGES: Record<AiErrorKind, string> = {
+  quota: "The AI service is busy or out of quota. Please wait a moment and try again.",
+  safety: "The request was blocked by the AI safety filters. Try a different image or description.",
+  network: "Could not reach the AI service. Check your connection and try again.",
+  bad_output: "The AI response did not match the expected format.",
+  timeout: "The AI service took too long to respond.",
+  aborted: "The request was cancelled.",
+  unknown: "The AI request failed.",
+};
+
+export const classifyError = (error: unknown): AiRequestError => {
+  if (error instanceof AiRequestError) {
+    return error;
+  }
+  if (isAbortError(error)) {
+    return new AiRequestError('aborted', KIND_MESSAGES.aborted);
+  }
+
+  const status = typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number' ? error.status : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new AiRequestError('quota', KIND_MESSAGES.quota);
+  }
+  if (/SAFETY|blocked|PROHIBITED_CONTENT/i.test(message)) {
+    return new AiRequestError('safety', KIND_MESSAGES.safety);
+  }
+  if ((status !== undefined && status >= 500) || /fetch failed|failed to fetch|load failed|network|ECONNRESET|ETIMEDOUT|ENOTFOUND|UNAVAILABLE/i.test(message)) {
+    return new AiRequestError('network', KIND_MESSAGES.network);
+  }
+  return new AiRequestError('unknown', message || KIND_MESSAGES.unknown);
+};
+
+export interface RunOptions {
+  // Cancels the whole run, including any pending retry.
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  // Decides which failures are retried; defaults to quota, network and timeout errors.
+  shouldRetry?: (error: AiRequestError) => boolean;
+  label?: string;
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AiRequestError('aborted', KIND_MESSAGES.aborted));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AiRequestError('aborted', KIND_MESSAGES.aborted));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs one attempt with its own AbortController, tied to the caller's signal and the timeout.
+const runAttempt = async <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onOuterAbort = () => controller.abort();
+  outer?.addEventListener('abort', onOuterAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    // Race against the abort so providers that ignore the signal still stop being awaited.
+    return await Promise.race([
+      task(controller.signal),
+      new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(new AiRequestError('aborted', KIND_MESSAGES.aborted)), { once: true });
+      }),
+    ]);
+  } catch (error) {
+    if (timedOut) {
+      throw new AiRequestError('timeout', KIND_MESSAGES.timeout);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', onOuterAbort);
+  }
+};
+
+/**
+ * Runs `task` until it succeeds, fails with a non-retryable error, runs out of attempts, or the
+ * caller aborts. Every failure is rethrown as a classified AiRequestError.
+ */
+export const runRequest = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RunOptions = {}): Promise<T> => {
+  const {
+    signal,
+    timeoutMs = 60_000,
+    maxAttempts = 3,
+    baseDelayMs = 800,
+    shouldRetry = (error: AiRequestError) => error.retryable,
+    label = 'AI request',
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw new AiRequestError('aborted', KIND_MESSAGES.aborted);
+    }
+    try {
+      return await runAttempt(task, timeoutMs, signal);
+    } catch (rawError) {
+      const error = signal?.aborted ? new AiRequestError('aborted', KIND_MESSAGES.aborted) : classifyError(rawError);
+      if (error.kind === 'aborted' || !shouldRetry(error) || attempt >= maxAttempts) {
+        throw error;
+      }
+      // Jitter keeps parallel variant requests from retrying in lockstep.
+      const delay = Math.round(baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2));
+      console.warn(`${label} failed (${error.kind}), retrying in ${delay}ms (attempt ${attempt + 1}/${maxAttempts}).`);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,171 @@
+import { loadImage } from './imageExport';
+import { wrapLines } from './adComposer';
+
+// Renders a vertical slideshow from script scenes in the browser: the canvas is animated in real
+// time and recorded with MediaRecorder, with the voiceover mixed in through Web Audio.
+
+export interface SlideshowScene {
+  imageUrl: string;
+  // Burned in as a caption; empty for none.
+  caption: string;
+  // Seconds. Stretched to fit the scene's voiceover when that runs longer.
+  duration: number;
+  voiceover: AudioBuffer | null;
+}
+
+export interface SlideshowOptions {
+  width?: number;
+  height?: number;
+  fps?: number;
+  // Called with 0-1 as the video records.
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+const CROSSFADE_SECONDS = 0.4;
+// Silence kept after a voiceover before the next scene starts.
+const VOICEOVER_TAIL_SECONDS = 0.4;
+const KEN_BURNS_ZOOM = 0.12;
+
+// MP4 where the browser can record it (Safari, recent Chrome), WebM everywhere else.
+const MIME_TYPES = ['video/mp4;codecs=avc1,mp4a.40.2', 'video/mp4', 'video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export const supportedVideoType = (): string | null =>
+  typeof MediaRecorder === 'undefined' ? null : MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+export const videoExtension = (mimeType: string) => (mimeType.startsWith('video/mp4') ? 'mp4' : 'webm');
+
+export const sceneDurations = (scenes: Pick<SlideshowScene, 'duration' | 'voiceover'>[]): number[] =>
+  scenes.map(scene => Math.max(scene.duration, scene.voiceover ? scene.voiceover.duration + VOICEOVER_TAIL_SECONDS : 0));
+
+// Slow zoom and pan, alternating direction from scene to scene so cuts don't feel repetitive.
+const drawKenBurns = (context: CanvasRenderingContext2D, image: HTMLImageElement, index: number, progress: number) => {
+  const { width, height } = context.canvas;
+  const zoomIn = index % 2 === 0;
+  const zoom = 1 + KEN_BURNS_ZOOM * (zoomIn ? progress : 1 - progress);
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight) * zoom;
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  const panDirection = index % 4 < 2 ? 1 : -1;
+  const spareX = drawWidth - width;
+  const spareY = drawHeight - height;
+  const x = -spareX / 2 + panDirection * (progress - 0.5) * spareX * 0.5;
+  const y = -spareY / 2 + (progress - 0.5) * spareY * 0.3;
+  context.drawImage(image, x, y, drawWidth, drawHeight);
+};
+
+// Bottom-centered, above the area TikTok and Reels cover with their own captions and buttons.
+const drawCaption = (context: CanvasRenderingContext2D, text: string) => {
+  if (!text.trim()) return;
+  const { width, height } = context.canvas;
+  const size = Math.round(width * 0.048);
+  context.font = `bold ${size}px system-ui, -apple-system, "Segoe UI", Roboto, sans-serif`;
+  const lines = wrapLines(context, text.trim(), width * 0.76).slice(0, 4);
+  const lineHeight = size * 1.25;
+  const padding = size * 0.6;
+  const boxWidth = Math.max(...lines.map(line => context.measureText(line).width)) + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding * 1.5;
+  const bottom = height * 0.76;
+  context.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  context.beginPath();
+  context.roundRect((width - boxWidth) / 2, bottom - boxHeight, boxWidth, boxHeight, size * 0.4);
+  context.fill();
+  context.fillStyle = '#ffffff';
+  context.textAlign = 'center';
+  context.textBaseline = 'top';
+  lines.forEach((line, i) => context.fillText(line, width / 2, bottom - boxHeight + padding * 0.75 + i * lineHeight));
+};
+
+const abortError = () => new DOMException('Rendering was cancelled.', 'AbortError');
+
+export const renderSlideshow = async (
+  scenes: SlideshowScene[],
+  { width = 1080, height = 1920, fps = 30, onProgress, signal }: SlideshowOptions = {},
+): Promise<Blob> => {
+  const mimeType = supportedVideoType();
+  if (!mimeType) throw new Error("This browser can't record video. Try a recent Chrome, Edge or Safari.");
+  if (scenes.length === 0) throw new Error("The script has no scenes to render.");
+  if (signal?.aborted) throw abortError();
+
+  const images = await Promise.all(scenes.map(scene => loadImage(scene.imageUrl)));
+  const durations = sceneDurations(scenes);
+  const starts = durations.map((_, i) => durations.slice(0, i).reduce((sum, duration) => sum + duration, 0));
+  const total = starts[starts.length - 1] + durations[durations.length - 1];
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas is not supported in this browser.");
+
+  // The audio clock drives the animation, so picture and voiceover stay in sync.
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  const stream = new MediaStream([...canvas.captureStream(fps).getVideoTracks(), ...audioDestination.stream.getAudioTracks()]);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const drawFrame = (time: number) => {
+    let index = 0;
+    while (index + 1 < starts.length && starts[index + 1] <= time) index++;
+    const local = time - starts[index];
+    context.globalAlpha = 1;
+    drawKenBurns(context, images[index], index, Math.min(local / durations[index], 1));
+    drawCaption(context, scenes[index].caption);
+    // Fade the next scene in over the end of this one.
+    const next = index + 1;
+    const fadeStart = durations[index] - CROSSFADE_SECONDS;
+    if (next < scenes.length && local > fadeStart) {
+      context.globalAlpha = (local - fadeStart) / CROSSFADE_SECONDS;
+      drawKenBurns(context, images[next], next, 0);
+      drawCaption(context, scenes[next].caption);
+      context.globalAlpha = 1;
+    }
+  };
+
+  try {
+    await audioContext.resume();
+    drawFrame(0);
+    const startTime = audioContext.currentTime + 0.1;
+    scenes.forEach((scene, i) => {
+      if (!scene.voiceover) return;
+      const source = audioContext.createBufferSource();
+      source.buffer = scene.voiceover;
+      source.connect(audioDestination);
+      source.start(startTime + starts[i]);
+    });
+
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    recorder.start(1000);
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        if (recorder.state !== 'inactive') recorder.stop();
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const tick = () => {
+        if (signal?.aborted) return;
+        const time = audioContext.currentTime - startTime;
+        if (time >= total) {
+          signal?.removeEventListener('abort', onAbort);
+          onProgress?.(1);
+          recorder.stop();
+          resolve();
+          return;
+        }
+        drawFrame(Math.max(time, 0));
+        onProgress?.(Math.max(time, 0) / total);
+        requestAnimationFrame(tick);
+      };
+      requestAnimationFrame(tick);
+    });
+    await stopped;
+    return new Blob(chunks, { type: recorder.mimeType || mimeType });
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    audioContext.close().catch(() => {});
+  }
+};
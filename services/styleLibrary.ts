@@ -0,0 +1,100 @@
+import type { VisualStyle } from '../types';
+import { BUILT_IN_STYLES } from '../constants';
+import { MAX_STYLE_PROMPT_CHARS } from './apiTypes';
+
+// Each user's ordered style list lives in localStorage. Reference images are downscaled before
+// they get here, so the list stays well within the storage quota.
+
+const EXPORT_TYPE = 'thisisus-styles';
+const EXPORT_VERSION = 1;
+
+const storageKey = (user: string) => `${user}_visualStyles`;
+
+export const createStyleId = () => `style-${crypto.randomUUID()}`;
+
+// Saved order and enabled flags win; built-in prompts always come from the current release,
+// and built-ins added since the list was saved are appended.
+export const loadStyles = (user: string): VisualStyle[] => {
+  let saved: VisualStyle[] = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(storageKey(user)) || '[]');
+  } catch (error) {
+    console.error("Failed to load or parse visual styles:", error);
+  }
+  const builtIns = new Map(BUILT_IN_STYLES.map(style => [style.id, style]));
+  const styles = saved
+    .filter(style => !style.builtIn || builtIns.has(style.id))
+    .map(style => style.builtIn ? { ...builtIns.get(style.id)!, enabled: style.enabled } : style);
+  const missing = BUILT_IN_STYLES.filter(builtIn => !styles.some(style => style.id === builtIn.id));
+  return [...styles, ...missing];
+};
+
+export const saveStyles = (user: string, styles: VisualStyle[]) => {
+  try {
+    localStorage.setItem(storageKey(user), JSON.stringify(styles));
+  } catch (error) {
+    console.error("Failed to save visual styles:", error);
+  }
+};
+
+// Returns a problem with the style as the user would read it, or null if it is valid.
+export const validateStyle = (style: Pick<VisualStyle, 'id' | 'name' | 'prompt'>, styles: VisualStyle[]): string | null => {
+  const name = style.name.trim();
+  if (!name) return "Give the style a name.";
+  if (styles.some(other => other.id !== style.id && other.name.trim().toLowerCase() === name.toLowerCase())) {
+    return `You already have a style called "${name}".`;
+  }
+  if (!style.prompt.trim()) return "Describe the look in the prompt.";
+  if (style.prompt.length > MAX_STYLE_PROMPT_CHARS) {
+    return `Prompts can be at most ${MAX_STYLE_PROMPT_CHARS} characters.`;
+  }
+  return null;
+};
+
+export const exportStyles = (styles: VisualStyle[]): string =>
+  JSON.stringify({
+    type: EXPORT_TYPE,
+    version: EXPORT_VERSION,
+    styles: styles.map(({ name, description, prompt, referenceImage }) => ({ name, description, prompt, referenceImage })),
+  }, null, 2);
+
+// Parses a shared style file into new custom styles. Names that clash with `existing` get a
+// numeric suffix. Throws an Error with a readable message if the file isn't a style export.
+export const importStyles = (text: string, existing: VisualStyle[]): VisualStyle[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("That file isn't valid JSON.");
+  }
+  if (parsed?.type !== EXPORT_TYPE || !Array.isArray(parsed.styles)) {
+    throw new Error("That file isn't a ThisIsUs style export.");
+  }
+
+  const imported: VisualStyle[] = [];
+  for (const raw of parsed.styles) {
+    if (typeof raw?.name !== 'string' || typeof raw?.prompt !== 'string') {
+      throw new Error("The style file is missing names or prompts.");
+    }
+    const taken = [...existing, ...imported];
+    let name = raw.name.trim();
+    for (let n = 2; taken.some(style => style.name.toLowerCase() === name.toLowerCase()); n++) {
+      name = `${raw.name.trim()} (${n})`;
+    }
+    const style: VisualStyle = {
+      id: createStyleId(),
+      name,
+      description: typeof raw.description === 'string' ? raw.description : '',
+      prompt: raw.prompt,
+      referenceImage: raw.referenceImage?.base64 && raw.referenceImage?.mimeType ? raw.referenceImage : null,
+      enabled: true,
+      builtIn: false,
+    };
+    const problem = validateStyle(style, taken);
+    if (problem) {
+      throw new Error(`"${style.name}": ${problem}`);
+    }
+    imported.push(style);
+  }
+  return imported;
+};
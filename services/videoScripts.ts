@@ -0,0 +1,13 @@
+import type { VideoScript } from '../types';
+
+// Scene ids are unique across all of a project's scripts, so voiceover takes, storyboard frames
+// and scene rewrites, which are keyed by scene id, never mix up scenes of different scripts.
+
+export const nextSceneId = (scripts: VideoScript[]): number =>
+  Math.max(0, ...scripts.flatMap(script => script.scenes.map(scene => scene.scene))) + 1;
+
+// Renumbers a newly generated script's scenes after every scene in `scripts`.
+export const withFreshSceneIds = (script: VideoScript, scripts: VideoScript[]): VideoScript => {
+  const first = nextSceneId(scripts);
+  return { ...script, scenes: script.scenes.map((scene, i) => ({ ...scene, scene: first + i })) };
+};
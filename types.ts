@@ -1,33 +1,183 @@
 // FIX: Removed self-import which was causing declaration conflicts with the locally defined types.
 
-export interface ImageFile {
-  file: File;
-  previewUrl: string;
-  base64: string;
-  mimeType: string;
-}
+export type AssetStatus = 'pending' | 'succeeded' | 'failed';
 
 export interface ImageVariant {
   style: string;
   description: string;
+  // Empty until the variant has succeeded.
   url: string;
+  status: AssetStatus;
+  error?: string;
+  // The style prompt the server used for this image.
+  prompt?: string;
+  // Conversational edits applied on top of the generated image, oldest first. Undo pops the last one.
+  edits?: ImageEdit[];
+}
+
+// One applied edit, keeping the image it replaced so it can be undone.
+export interface ImageEdit {
+  instruction: string;
+  previousUrl: string;
+  previousPrompt?: string;
+}
+
+// The latest edit requested for a variant while the workspace is open.
+export interface VariantEditState {
+  status: AssetStatus;
+  instruction: string;
+  error?: string;
+}
+
+// Ready-to-paste copy for each channel, within the limits in COPY_PLATFORMS.
+export interface PlatformCopyPacks {
+  tiktok: { caption: string };
+  instagram: { caption: string; firstComment: string };
+  facebook: { primaryText: string; headline: string; description: string };
+  pinterest: { title: string; description: string };
+  x: { post: string };
 }
 
+export type CopyPlatform = keyof PlatformCopyPacks;
+
 export interface MarketingContent {
   postIdeas: string[];
   captions: string[];
   hashtags: string[];
+  // Missing on copy generated before platform packs existed.
+  platforms?: PlatformCopyPacks;
 }
 
 export interface VideoScriptScene {
+  // Identifies the scene across all of the project's scripts; voiceover takes and storyboard
+  // frames refer to it. It isn't renumbered when scenes are reordered, so show the scene's
+  // position instead.
   scene: number;
   visual: string;
   voiceover: string;
 }
 
+// Target running time in seconds.
+export type ScriptLength = 15 | 30 | 60;
+export type ScriptPlatform = 'tiktok' | 'reels' | 'shorts';
+// How the script opens and frames the product.
+export type ScriptHook = 'problem-solution' | 'unboxing' | 'testimonial' | 'ugc';
+
 export interface VideoScript {
+  id: string;
   title: string;
   scenes: VideoScriptScene[];
+  // Missing on scripts generated before these options existed.
+  length?: ScriptLength;
+  platform?: ScriptPlatform;
+  // The marketing angle (post idea) the script was written for.
+  angle?: string;
+  hook?: ScriptHook;
+}
+
+// A still drawn for one script scene.
+export interface StoryboardFrame {
+  // The `scene` id of the VideoScriptScene it illustrates.
+  scene: number;
+  // The scene's visual when the frame was drawn; it's out of date once the scene changes.
+  visual: string;
+  status: AssetStatus;
+  url?: string;
+  prompt?: string;
+  error?: string;
+}
+
+// An in-flight or failed AI rewrite of one scene; not saved with the project.
+export interface SceneRewriteState {
+  status: AssetStatus;
+  instruction: string;
+  error?: string;
+}
+
+export type SpeechPace = 'slow' | 'natural' | 'fast';
+
+// One synthesized reading of a scene's voiceover line.
+export interface VoiceoverTake {
+  id: string;
+  // The `scene` number of the VideoScriptScene it reads.
+  scene: number;
+  // The line as it was when recorded; the script may have been regenerated since.
+  text: string;
+  voice: string;
+  direction: string;
+  pace: SpeechPace;
+  // Base64 16-bit PCM, mono, 24 kHz.
+  audio: string;
+  // Seconds.
+  duration: number;
+  createdAt: number;
+}
+
+export interface VoiceoverState {
+  takes: VoiceoverTake[];
+  // The take used for each scene, by scene number.
+  chosen: Record<number, string>;
+}
+
+export type HashtagBucket = 'broad' | 'niche' | 'branded';
+
+export type HashtagPopularity = 'high' | 'medium' | 'low';
+
+// The model's read on one tag, from live search results.
+export interface HashtagScore {
+  tag: string;
+  bucket: HashtagBucket;
+  popularity: HashtagPopularity;
+  // Why the tag fits (or doesn't) this product.
+  rationale: string;
+}
+
+export interface HashtagEntry {
+  tag: string;
+  bucket: HashtagBucket;
+  // Locked tags are posted first and kept when a new run brings new hashtags.
+  locked: boolean;
+  // Filled in by research.
+  popularity?: HashtagPopularity;
+  rationale?: string;
+}
+
+export interface HashtagWorkspace {
+  tags: HashtagEntry[];
+  research: { status: AssetStatus; error?: string; sources: GroundingSource[] } | null;
+}
+
+// A reusable group of tags, saved per user.
+export interface HashtagSet {
+  id: string;
+  name: string;
+  tags: { tag: string; bucket: HashtagBucket }[];
+}
+
+export interface LocalizedMarketing {
+  status: AssetStatus;
+  content?: MarketingContent;
+  error?: string;
+}
+
+// One script's title and voiceover lines in another language. Visuals aren't translated.
+export interface LocalizedScript {
+  status: AssetStatus;
+  title?: string;
+  // By scene id.
+  voiceovers?: Record<number, string>;
+  // The source title and lines it was translated from; it's out of date once they change.
+  source?: string;
+  error?: string;
+}
+
+// The campaign in one of the project's target locales, e.g. es-PR.
+export interface Localization {
+  locale: string;
+  marketing: LocalizedMarketing | null;
+  // By script id.
+  scripts: Record<string, LocalizedScript>;
+  voiceover: VoiceoverState;
 }
 
 export interface ConversationTurn {
@@ -54,4 +204,197 @@ export interface Recipe {
   ingredients: string[];
   instructions: string[];
   imageUrl: string;
-}
\ No newline at end of file
+}
+
+// An image as it is persisted: uploads, style references and logos.
+export interface StoredImage {
+  name: string;
+  base64: string;
+  mimeType: string;
+}
+
+// A product photo or a rasterized PDF page attached to a project. The primary image is always
+// sent to the model; other selected images go along as extra angles.
+export interface ProductImage extends StoredImage {
+  id: string;
+  selected: boolean;
+}
+
+// Identifies a generation run and the inputs it started from.
+export interface GenerationRun {
+  id: string;
+  startedAt: number;
+  productDescription: string;
+}
+
+// A finished run. Versions are sealed when the next run starts and never change afterwards.
+export interface ProjectVersion extends GenerationRun {
+  variants: ImageVariant[];
+  marketingContent: MarketingContent | null;
+  marketingSources: GroundingSource[];
+  videoScripts: VideoScript[];
+}
+
+export interface PinnedImage {
+  id: string;
+  versionId: string;
+  style: string;
+  url: string;
+}
+
+export interface PinnedCaption {
+  id: string;
+  versionId: string;
+  text: string;
+}
+
+// The best picks from any version, kept together as the project's final assets.
+export interface FinalSet {
+  images: PinnedImage[];
+  captions: PinnedCaption[];
+}
+
+// A visual style the image variants are generated in. Built-ins can be reordered and disabled
+// but not edited; users duplicate them to make their own.
+export interface VisualStyle {
+  id: string;
+  name: string;
+  description: string;
+  // `{product}` is replaced with the product description when the image is generated.
+  prompt: string;
+  referenceImage: StoredImage | null;
+  enabled: boolean;
+  builtIn: boolean;
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  logo: StoredImage | null;
+  // Hex colors, e.g. "#c8a24a".
+  palette: string[];
+  backgrounds: string;
+  tone: string;
+  mustUsePhrases: string[];
+  forbiddenPhrases: string[];
+  defaultHashtags: string[];
+}
+
+// A caption that uses a phrase the project's brand kit forbids.
+export interface BrandViolation {
+  captionIndex: number;
+  phrases: string[];
+}
+
+export type AdTemplateId = 'spotlight' | 'banner' | 'minimal';
+
+// A finished ad composed on top of a generated visual.
+export interface AdCreative {
+  id: string;
+  createdAt: number;
+  // The style of the variant the ad was composed on.
+  style: string;
+  // One of the export presets, e.g. 'tiktok' or 'instagram-portrait'.
+  placementId: string;
+  templateId: AdTemplateId;
+  headline: string;
+  caption: string;
+  price: string;
+  cta: string;
+  showLogo: boolean;
+  // The rendered ad as a JPEG data URL.
+  url: string;
+}
+
+// Results entered for one test cell after the ads ran.
+export interface AbTestMetrics {
+  impressions: number;
+  clicks: number;
+  spend: number;
+  sales: number;
+}
+
+// One ad in a test: a visual paired with a caption.
+export interface AbTestCell {
+  id: string;
+  // "A", "B", ... as used in ad names and the results CSV.
+  label: string;
+  style: string;
+  // The visual as it was when the test was planned; later edits don't change a running ad.
+  imageUrl: string;
+  caption: string;
+  metrics: AbTestMetrics | null;
+}
+
+// Which rate decides the winner: clicks per impression (CTR) or sales per impression.
+export type AbTestGoal = 'clicks' | 'sales';
+
+export interface AbTest {
+  id: string;
+  name: string;
+  createdAt: number;
+  goal: AbTestGoal;
+  cells: AbTestCell[];
+}
+
+// Kinds of claims that get ads rejected.
+export type ComplianceCategory = 'health' | 'guarantee' | 'before-after' | 'personal-attribute';
+
+// A problem the model review found, quoting the offending words from the copy.
+export interface ComplianceFlag {
+  category: ComplianceCategory;
+  quote: string;
+  explanation: string;
+}
+
+// The model review of one piece of copy, kept with the text it reviewed so edits show it's stale.
+export interface ComplianceReview {
+  status: AssetStatus;
+  source: string;
+  flags?: ComplianceFlag[];
+  // A compliant version of the copy; empty when it already complies.
+  rewrite?: string;
+  error?: string;
+}
+
+export interface ComplianceState {
+  // Platforms whose ad policies the copy is checked against, or null for every platform.
+  platforms: CopyPlatform[] | null;
+  // Whether new copy and scripts are sent for a model review as well as the local rules.
+  autoReview: boolean;
+  // By item key: caption:0, idea:1, voiceover:<scene id>.
+  reviews: Record<string, ComplianceReview>;
+}
+
+export interface Project {
+  id: string;
+  owner: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  productDescription: string;
+  images: ProductImage[];
+  primaryImageId: string | null;
+  variants: ImageVariant[];
+  marketingContent: MarketingContent | null;
+  marketingSources: GroundingSource[];
+  marketingStatus: AssetStatus | null;
+  marketingError: string | null;
+  // One script per chosen marketing angle, in the order they were written.
+  videoScripts: VideoScript[];
+  // Styles this project generates, or null for every enabled style.
+  styleIds: string[] | null;
+  brandKitId: string | null;
+  currentRun: GenerationRun | null;
+  // Sealed runs, oldest first; the workspace above holds the current run's outputs.
+  versions: ProjectVersion[];
+  finals: FinalSet;
+  adCreatives: AdCreative[];
+  voiceover: VoiceoverState;
+  storyboard: StoryboardFrame[];
+  // Target locales besides the en-US source, in tab order.
+  localizations: Localization[];
+  hashtags: HashtagWorkspace;
+  abTests: AbTest[];
+  compliance: ComplianceState;
+}
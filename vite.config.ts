@@ -1,6 +1,22 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiOptionsFromEnv, createApiMiddleware } from './server/api';
+import { configureProvider } from './server/aiProvider';
+
+// Serves the /api routes from the dev and preview servers. The key is only read here, on the
+// Node side, and is never inlined into the client bundle.
+const apiPlugin = (env: Record<string, string>): Plugin => ({
+  name: 'thisisus-api',
+  configureServer(server) {
+    configureProvider({ providerName: env.AI_PROVIDER, apiKey: env.GEMINI_API_KEY });
+    server.middlewares.use(createApiMiddleware(apiOptionsFromEnv(env)));
+  },
+  configurePreviewServer(server) {
+    configureProvider({ providerName: env.AI_PROVIDER, apiKey: env.GEMINI_API_KEY });
+    server.middlewares.use(createApiMiddleware(apiOptionsFromEnv(env)));
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,11 +25,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), apiPlugin(env)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),